@@ -0,0 +1,4 @@
+/**
+ * The version of this package, as set in `package.json`. Replaced when the package is built.
+ */
+declare const __PACKAGE_VERSION__: string;
@@ -0,0 +1,202 @@
+import { NormalizedHttpRequest } from './http-client.interface';
+import { mergeQuery } from './query-string';
+
+/**
+ * Applies credentials to the requests an HTTP client makes.
+ */
+export interface AuthProvider {
+  /**
+   * Applies credentials to the provided `request`.
+   *
+   * @returns The authenticated request. Implementations should not mutate the provided request.
+   */
+  authenticate(
+    request: NormalizedHttpRequest<RequestInit>
+  ): Promise<NormalizedHttpRequest<RequestInit>> | NormalizedHttpRequest<RequestInit>;
+  /**
+   * Invoked when an authenticated request received a `401` response. If the provider is able to get new credentials,
+   * it should do so and resolve to `true`, at which point the client authenticates the request again and replays it
+   * once. Otherwise, it should resolve to `false` and the `401` response is given back as-is.
+   *
+   * If omitted, `401` responses are never replayed.
+   *
+   * @param failedRequest - The authenticated request that received the `401` response.
+   */
+  refresh?(failedRequest: NormalizedHttpRequest<RequestInit>): Promise<boolean>;
+}
+
+/**
+ * A credential, or a function that gets the current credential. A function is invoked for every request, so it
+ * should be cheap.
+ */
+export type CredentialSource = string | (() => string | Promise<string>);
+
+function resolveCredential(source: CredentialSource): Promise<string> {
+  return Promise.resolve(typeof source === 'function' ? source() : source);
+}
+
+function withHeader(
+  request: NormalizedHttpRequest<RequestInit>,
+  name: string,
+  value: string
+): NormalizedHttpRequest<RequestInit> {
+  return {
+    ...request,
+    headers: {
+      ...request.headers,
+      [name.toLowerCase()]: value,
+    },
+  };
+}
+
+function withQueryParam(
+  request: NormalizedHttpRequest<RequestInit>,
+  name: string,
+  value: string
+): NormalizedHttpRequest<RequestInit> {
+  return {
+    ...request,
+    url: mergeQuery(request.url, { [name]: value }),
+  };
+}
+
+/**
+ * Authenticates requests with a bearer token in the `Authorization` header.
+ *
+ * @example
+ * ```ts
+ * new BearerAuthProvider(() => localStorage.getItem('token') ?? '')
+ * ```
+ */
+export class BearerAuthProvider implements AuthProvider {
+  constructor(protected _token: CredentialSource) {}
+
+  async authenticate(request: NormalizedHttpRequest<RequestInit>): Promise<NormalizedHttpRequest<RequestInit>> {
+    return withHeader(request, 'authorization', `Bearer ${await resolveCredential(this._token)}`);
+  }
+}
+
+/**
+ * Authenticates requests with a username and password in the `Authorization` header, per the Basic scheme.
+ */
+export class BasicAuthProvider implements AuthProvider {
+  constructor(protected _username: CredentialSource, protected _password: CredentialSource) {}
+
+  async authenticate(request: NormalizedHttpRequest<RequestInit>): Promise<NormalizedHttpRequest<RequestInit>> {
+    const [username, password] = await Promise.all([
+      resolveCredential(this._username),
+      resolveCredential(this._password),
+    ]);
+
+    // btoa only handles Latin-1, so encode as UTF-8 first.
+    const credentials = btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`)));
+
+    return withHeader(request, 'authorization', `Basic ${credentials}`);
+  }
+}
+
+export interface ApiKeyAuthProviderOptions {
+  /**
+   * The name of the header or query parameter that holds the key.
+   *
+   * @example
+   * ```ts
+   * name: 'x-api-key'
+   * ```
+   */
+  name: string;
+  key: CredentialSource;
+  /**
+   * Where the key goes on the request.
+   *
+   * Defaults to `'header'`.
+   */
+  in?: 'header' | 'query';
+}
+
+/**
+ * Authenticates requests with an API key in a header or a query parameter.
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  constructor(protected _options: ApiKeyAuthProviderOptions) {}
+
+  async authenticate(request: NormalizedHttpRequest<RequestInit>): Promise<NormalizedHttpRequest<RequestInit>> {
+    const { name, key, in: location = 'header' } = this._options;
+
+    const resolvedKey = await resolveCredential(key);
+
+    return location === 'query'
+      ? withQueryParam(request, name, resolvedKey)
+      : withHeader(request, name, resolvedKey);
+  }
+}
+
+export interface OAuth2AuthProviderOptions {
+  /**
+   * The access token to start with, if one is already available. If omitted, `refreshAccessToken` is
+   * invoked before the first request is made.
+   */
+  accessToken?: string;
+  /**
+   * Gets a new access token, usually by exchanging a refresh token with an authorization server.
+   *
+   * If this makes its request with the same client the provider belongs to, that request should use
+   * `skipAuth`. Otherwise, it would wait on itself to finish refreshing.
+   */
+  refreshAccessToken: () => Promise<string>;
+}
+
+/**
+ * Authenticates requests with a bearer token that's refreshed when it stops being accepted.
+ *
+ * When a request receives a `401` response, the token is refreshed and the request is replayed once. If many requests
+ * fail at the same time, they all wait on the same refresh. Requests made while a refresh is in progress wait for it to
+ * finish before they're sent.
+ */
+export class OAuth2AuthProvider implements AuthProvider {
+  #accessToken: string | undefined;
+  #refreshPromise: Promise<string> | undefined;
+
+  get accessToken(): string | undefined {
+    return this.#accessToken;
+  }
+
+  constructor(protected _options: OAuth2AuthProviderOptions) {
+    this.#accessToken = _options.accessToken;
+  }
+
+  async authenticate(request: NormalizedHttpRequest<RequestInit>): Promise<NormalizedHttpRequest<RequestInit>> {
+    const accessToken = this.#refreshPromise ?? this.#accessToken ?? this.#refreshAccessToken();
+
+    return withHeader(request, 'authorization', `Bearer ${await accessToken}`);
+  }
+
+  async refresh(failedRequest: NormalizedHttpRequest<RequestInit>): Promise<boolean> {
+    const wasSentWithCurrentToken = failedRequest.headers.authorization === `Bearer ${this.#accessToken}`;
+
+    // If the request was sent with an older token, another request already refreshed it and there's no need
+    // to refresh again.
+    if (wasSentWithCurrentToken || this.#refreshPromise) {
+      await this.#refreshAccessToken();
+    }
+
+    return true;
+  }
+
+  #refreshAccessToken(): Promise<string> {
+    if (!this.#refreshPromise) {
+      this.#refreshPromise = this._options
+        .refreshAccessToken()
+        .then((accessToken) => {
+          this.#accessToken = accessToken;
+
+          return accessToken;
+        })
+        .finally(() => {
+          this.#refreshPromise = undefined;
+        });
+    }
+
+    return this.#refreshPromise;
+  }
+}
@@ -0,0 +1,416 @@
+import { MultipartBuilder } from './multipart';
+import { QueryParams, serializeQuery } from './query-string';
+
+/**
+ * Turns request bodies of a media type into something fetch can send, and response bodies of that media type back
+ * into values.
+ *
+ * @example
+ * ```ts
+ * const msgPackCodec: BodyCodec = {
+ *   mediaType: 'application/msgpack',
+ *   encode: (body) => encode(body),
+ *   decode: async (response) => decode(new Uint8Array(await response.arrayBuffer())),
+ * };
+ * ```
+ */
+export interface BodyCodec<T = any> {
+  /**
+   * The media type the codec handles, without parameters. May be a wildcard (e.g., `text/*` or `*\/*`) or a structured
+   * syntax suffix (e.g., `application/*+json`).
+   */
+  readonly mediaType: string;
+  /**
+   * How strongly responses of the codec's media type are preferred, as a quality value in the `Accept` header. A
+   * quality of `0` leaves the media type out of the header.
+   *
+   * Defaults to `1`.
+   */
+  readonly quality?: number;
+  /**
+   * Whether the codec should encode the provided body of a request that doesn't specify a `Content-Type`. The first
+   * codec (most recently registered first) that can encode a body is used, and its media type becomes the request's
+   * `Content-Type`.
+   *
+   * Defaults to never encoding requests without a `Content-Type`.
+   */
+  canEncode?(body: unknown): boolean;
+  /**
+   * Encodes a request body. Defaults to sending the body as-is.
+   */
+  encode?(body: T): BodyInit;
+  /**
+   * The `Content-Type` the provided body must be sent with once it's encoded, e.g., because it includes a boundary.
+   * Takes precedence over the request's `Content-Type`.
+   *
+   * Defaults to the request's `Content-Type`, or else the codec's media type.
+   */
+  getContentType?(body: T): string | undefined;
+  /**
+   * Decodes a response body. Defaults to decoding the body as text.
+   */
+  decode?(response: Response): Promise<T>;
+}
+
+/**
+ * Sends bodies as JSON text, and parses responses as JSON. Requests without a `Content-Type` are sent as JSON unless
+ * another codec can encode them.
+ */
+export class JsonBodyCodec implements BodyCodec {
+  readonly mediaType: string = 'application/json';
+
+  encode(body: unknown): BodyInit {
+    return JSON.stringify(body);
+  }
+
+  decode(response: Response): Promise<any> {
+    return response.json();
+  }
+}
+
+/**
+ * Handles RFC 7807 problem details, which are JSON. The client also parses failed responses' problem details into a
+ * `ProblemDetails` object (see `problem`).
+ */
+export class ProblemJsonBodyCodec extends JsonBodyCodec {
+  readonly mediaType = 'application/problem+json';
+}
+
+/**
+ * Sends `URLSearchParams`, query params (serialized like a query string), or already encoded strings as a form, and
+ * parses forms into `URLSearchParams`. Not advertised in the `Accept` header.
+ */
+export class FormUrlEncodedBodyCodec implements BodyCodec<URLSearchParams | QueryParams | string> {
+  readonly mediaType = 'application/x-www-form-urlencoded';
+  readonly quality = 0;
+
+  canEncode(body: unknown): boolean {
+    return typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams;
+  }
+
+  encode(body: URLSearchParams | QueryParams | string): BodyInit {
+    if (typeof body === 'string') {
+      return body;
+    }
+
+    return body instanceof URLSearchParams ? body.toString() : serializeQuery(body);
+  }
+
+  async decode(response: Response): Promise<URLSearchParams> {
+    return new URLSearchParams(await response.text());
+  }
+}
+
+/**
+ * Sends a `MultipartBuilder`, `FormData`, or an object whose properties become form fields, as a multipart form. Array
+ * properties become repeated fields, and blobs are sent as files. Parses multipart responses into `FormData`. Not
+ * advertised in the `Accept` header.
+ *
+ * The `Content-Type` of a builder is set with its boundary. fetch generates the boundary of `FormData`, so its
+ * `Content-Type` is left for fetch to set.
+ */
+export class MultipartBodyCodec implements BodyCodec<MultipartBuilder | FormData | Record<string, unknown>> {
+  readonly mediaType = 'multipart/form-data';
+  readonly quality = 0;
+
+  canEncode(body: unknown): boolean {
+    return body instanceof MultipartBuilder || (typeof FormData !== 'undefined' && body instanceof FormData);
+  }
+
+  encode(body: MultipartBuilder | FormData | Record<string, unknown>): BodyInit {
+    if (body instanceof MultipartBuilder) {
+      return body.build();
+    }
+
+    if (body instanceof FormData) {
+      return body;
+    }
+
+    const formData = new FormData();
+
+    for (const [name, value] of Object.entries(body)) {
+      for (const fieldValue of Array.isArray(value) ? value : [value]) {
+        if (fieldValue === undefined || fieldValue === null) {
+          continue;
+        }
+
+        formData.append(name, fieldValue instanceof Blob ? fieldValue : String(fieldValue));
+      }
+    }
+
+    return formData;
+  }
+
+  getContentType(body: MultipartBuilder | FormData | Record<string, unknown>): string | undefined {
+    return body instanceof MultipartBuilder ? body.contentType : undefined;
+  }
+
+  decode(response: Response): Promise<FormData> {
+    return response.formData();
+  }
+}
+
+export interface OctetStreamBodyCodecOptions {
+  /**
+   * What response bodies are decoded into.
+   *
+   * Defaults to `'arrayBuffer'`.
+   */
+  decodeAs?: 'arrayBuffer' | 'blob';
+}
+
+/**
+ * Sends `ArrayBuffer`s, typed arrays, and blobs as binary data, and reads binary responses into an `ArrayBuffer` (or a
+ * `Blob`, depending on `decodeAs`). Blobs with their own type are sent with that type instead.
+ */
+export class OctetStreamBodyCodec implements BodyCodec<ArrayBuffer | ArrayBufferView | Blob> {
+  readonly mediaType = 'application/octet-stream';
+  readonly quality = 0.5;
+
+  protected _decodeAs: 'arrayBuffer' | 'blob';
+  get decodeAs(): 'arrayBuffer' | 'blob' {
+    return this._decodeAs;
+  }
+
+  constructor(options: OctetStreamBodyCodecOptions = {}) {
+    this._decodeAs = options.decodeAs ?? 'arrayBuffer';
+  }
+
+  canEncode(body: unknown): boolean {
+    return (
+      body instanceof ArrayBuffer || ArrayBuffer.isView(body) || (typeof Blob !== 'undefined' && body instanceof Blob)
+    );
+  }
+
+  encode(body: ArrayBuffer | ArrayBufferView | Blob): BodyInit {
+    return body as BodyInit;
+  }
+
+  decode(response: Response): Promise<ArrayBuffer | Blob> {
+    return this._decodeAs === 'blob' ? response.blob() : response.arrayBuffer();
+  }
+}
+
+export interface CsvBodyCodecOptions {
+  /**
+   * The character that separates fields.
+   *
+   * Defaults to `,`.
+   */
+  delimiter?: string;
+}
+
+/**
+ * Sends rows of fields as CSV (RFC 4180), quoting fields where needed, and parses CSV responses into rows of fields.
+ * Strings are sent as-is.
+ *
+ * @example
+ * ```ts
+ * await client.post('/import', { body: [['id', 'name'], [1, 'Bob']], options: { headers: { 'content-type': 'text/csv' } } });
+ * const { body: rows } = await client.get<string[][]>('/export.csv');
+ * ```
+ */
+export class CsvBodyCodec implements BodyCodec<unknown[][] | string> {
+  readonly mediaType = 'text/csv';
+  readonly quality = 0.9;
+
+  protected _delimiter: string;
+  get delimiter(): string {
+    return this._delimiter;
+  }
+
+  constructor(options: CsvBodyCodecOptions = {}) {
+    const { delimiter = ',' } = options;
+
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\r' || delimiter === '\n') {
+      throw new Error(`Could not create CsvBodyCodec. Provided delimiter "${delimiter}" is not a single, valid character.`);
+    }
+
+    this._delimiter = delimiter;
+  }
+
+  encode(body: unknown[][] | string): BodyInit {
+    if (typeof body === 'string') {
+      return body;
+    }
+
+    return body.map((row) => row.map((field) => this.#encodeField(field)).join(this._delimiter)).join('\r\n');
+  }
+
+  async decode(response: Response): Promise<string[][]> {
+    return this.#parse(await response.text());
+  }
+
+  #encodeField(field: unknown): string {
+    const text = field === null || field === undefined ? '' : String(field);
+
+    return text.includes(this._delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  #parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let isQuoted = false;
+
+    for (let index = 0; index < text.length; index++) {
+      const character = text[index];
+
+      if (isQuoted) {
+        if (character === '"' && text[index + 1] === '"') {
+          field += '"';
+          index++;
+        } else if (character === '"') {
+          isQuoted = false;
+        } else {
+          field += character;
+        }
+      } else if (character === '"') {
+        isQuoted = true;
+      } else if (character === this._delimiter) {
+        row.push(field);
+        field = '';
+      } else if (character === '\r' || character === '\n') {
+        if (character === '\r' && text[index + 1] === '\n') {
+          index++;
+        }
+
+        rows.push([...row, field]);
+        row = [];
+        field = '';
+      } else {
+        field += character;
+      }
+    }
+
+    // A trailing line break doesn't start another row.
+    if (field || row.length > 0) {
+      rows.push([...row, field]);
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * Gets the media type of the provided `Content-Type` header value, without parameters and in lowercase.
+ *
+ * @example
+ * ```ts
+ * getMediaType('Application/JSON; charset=utf-8'); // 'application/json'
+ * ```
+ */
+export function getMediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * The codecs every registry starts with.
+ */
+export function createDefaultBodyCodecs(): BodyCodec[] {
+  return [
+    new JsonBodyCodec(),
+    new ProblemJsonBodyCodec(),
+    new FormUrlEncodedBodyCodec(),
+    new MultipartBodyCodec(),
+    new OctetStreamBodyCodec(),
+    new CsvBodyCodec(),
+  ];
+}
+
+/**
+ * The codecs a client encodes request bodies and decodes response bodies with, keyed by media type. Starts with
+ * codecs for JSON, problem details, forms, multipart forms, binary data, and CSV. Registering a codec for a media type
+ * that already has one replaces it.
+ *
+ * A media type is handled by the most specific codec that matches it: the codec for the exact type, then one for its
+ * structured syntax suffix (e.g., `application/*+json` and then `application/json` for `application/vnd.api+json`),
+ * then one for its type (e.g., `text/*`), and finally one for `*\/*`.
+ */
+export class BodyCodecRegistry {
+  #codecs = new Map<string, BodyCodec>();
+
+  /**
+   * The registered codecs, in the order they were registered.
+   */
+  get codecs(): BodyCodec[] {
+    return [...this.#codecs.values()];
+  }
+
+  constructor(codecs: BodyCodec[] = []) {
+    [...createDefaultBodyCodecs(), ...codecs].forEach((codec) => this.register(codec));
+  }
+
+  register(codec: BodyCodec): void {
+    const mediaType = getMediaType(codec.mediaType);
+
+    // Re-registering moves the media type to the end, so the codec is preferred when encoding.
+    this.#codecs.delete(mediaType);
+    this.#codecs.set(mediaType, codec);
+  }
+
+  unregister(mediaType: string): void {
+    this.#codecs.delete(getMediaType(mediaType));
+  }
+
+  /**
+   * Finds the codec that handles the provided `contentType`, which may include parameters (e.g., a charset).
+   */
+  find(contentType: string): BodyCodec | undefined {
+    const mediaType = getMediaType(contentType);
+    const [type, subtype = ''] = mediaType.split('/');
+    const suffixIndex = subtype.lastIndexOf('+');
+    const suffix = suffixIndex >= 0 ? subtype.slice(suffixIndex + 1) : '';
+
+    const candidates = [
+      mediaType,
+      ...(suffix ? [`${type}/*+${suffix}`, `${type}/${suffix}`] : []),
+      `${type}/*`,
+      '*/*',
+    ];
+
+    for (const candidate of candidates) {
+      const codec = this.#codecs.get(candidate);
+
+      if (codec) {
+        return codec;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the most recently registered codec that can encode the provided `body` of a request without a
+   * `Content-Type`.
+   */
+  findEncoder(body: unknown): BodyCodec | undefined {
+    return this.codecs.reverse().find((codec) => codec.canEncode?.(body));
+  }
+
+  /**
+   * Creates an `Accept` header from the codecs that can decode responses, ordered by their quality. Any other media
+   * type is accepted last, since its body can still be read as text.
+   *
+   * @param preferredMediaType A media type to prefer over every other, e.g., the type of the request's body.
+   *
+   * @example
+   * ```ts
+   * new BodyCodecRegistry().getAccept();
+   * // 'application/json, application/problem+json, text/csv;q=0.9, application/octet-stream;q=0.5, *\/*;q=0.1'
+   * ```
+   */
+  getAccept(preferredMediaType?: string): string {
+    const preferred = preferredMediaType ? getMediaType(preferredMediaType) : undefined;
+
+    const ranges = this.codecs
+      .filter((codec) => !!codec.decode && (codec.quality ?? 1) > 0)
+      .sort((a, b) => (b.quality ?? 1) - (a.quality ?? 1))
+      .map((codec) => ({ mediaType: getMediaType(codec.mediaType), quality: codec.quality ?? 1 }))
+      .filter(({ mediaType }) => mediaType !== preferred && mediaType !== '*/*');
+
+    return [...(preferred ? [{ mediaType: preferred, quality: 1 }] : []), ...ranges, { mediaType: '*/*', quality: 0.1 }]
+      .map(({ mediaType, quality }) => (quality === 1 ? mediaType : `${mediaType};q=${quality}`))
+      .join(', ');
+  }
+}
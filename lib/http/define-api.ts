@@ -0,0 +1,198 @@
+import { Headers } from 'cross-fetch';
+import { FetchHttpClient, FetchService } from './fetch-http-client.impl';
+import { BasicHttpRequestData, BasicHttpResponseData } from './http-client.interface';
+import { PathParamNames, PathParams } from './path-params';
+import { QueryParams } from './query-string';
+import { ResponseSchema } from './response-validation';
+
+declare const apiTypeMarker: unique symbol;
+
+/**
+ * A placeholder that carries a type but no value. Used to declare the types of a route's query, body, and response,
+ * since types alone can't be part of an object. Create one with {@link apiType}.
+ */
+export interface ApiType<T> {
+  readonly [apiTypeMarker]?: T;
+}
+
+/**
+ * Declares a type in an API route definition.
+ *
+ * @example
+ * ```ts
+ * defineApi({
+ *   getUser: { method: 'GET', path: '/users/:id', response: apiType<User>() },
+ * });
+ * ```
+ */
+export function apiType<T>(): ApiType<T> {
+  return {};
+}
+
+/**
+ * Data for a request that isn't specific to a route's types, like headers, a timeout, or whether to throw.
+ */
+export type ApiRequestOptions = Omit<
+  BasicHttpRequestData<ReadableStream<Uint8Array> | null, any, RequestInit>,
+  'body' | 'params' | 'query' | 'responseBodyParser' | 'schema'
+>;
+
+export interface ApiRouteDefinition<Path extends string = string> {
+  method: string;
+  /**
+   * The URI of the route, resolved against the client's base URL. Placeholders (e.g., `:id` or `{id}`) become the
+   * route's required `params`.
+   */
+  path: Path;
+  /**
+   * The type of the route's query. Defaults to any query.
+   */
+  query?: ApiType<QueryParams>;
+  /**
+   * The type of the route's body. Defaults to no body.
+   */
+  body?: ApiType<any>;
+  /**
+   * The type of the route's response body. Ignored if the route has a `schema` or `responseBodyParser`, in which case
+   * the type is inferred from those.
+   *
+   * Defaults to `unknown`.
+   */
+  response?: ApiType<any>;
+  responseBodyParser?: (body: ReadableStream<Uint8Array> | null) => any;
+  /**
+   * Validates the route's response bodies at runtime. See `BasicHttpRequestData.schema`.
+   */
+  schema?: ResponseSchema<any>;
+  /**
+   * Request data used for every request to the route. Data provided when calling the route takes precedence, except
+   * for headers, which are merged.
+   */
+  defaults?: ApiRequestOptions;
+}
+
+export type ApiRouteDefinitions = Record<string, ApiRouteDefinition>;
+
+type TypeOfApiType<Marker, Fallback> = Marker extends ApiType<infer T> ? T : Fallback;
+
+/**
+ * The type of the body a route's requests resolve to.
+ */
+export type ApiRouteResponse<Route extends ApiRouteDefinition> = Route extends {
+  schema: ResponseSchema<infer Validated>;
+}
+  ? Validated
+  : Route extends { responseBodyParser: (...args: any[]) => infer Parsed }
+  ? Awaited<Parsed>
+  : Route extends { response: infer Response }
+  ? TypeOfApiType<Response, unknown>
+  : unknown;
+
+type ApiRouteParams<Path extends string> = [PathParamNames<Path>] extends [never]
+  ? { params?: never }
+  : { params: PathParams<Path> };
+
+type ApiRouteQuery<Route extends ApiRouteDefinition> = Route extends { query: infer Query }
+  ? {} extends TypeOfApiType<Query, QueryParams>
+    ? { query?: TypeOfApiType<Query, QueryParams> }
+    : { query: TypeOfApiType<Query, QueryParams> }
+  : { query?: QueryParams };
+
+type ApiRouteBody<Route extends ApiRouteDefinition> = Route extends { body: infer Body }
+  ? undefined extends TypeOfApiType<Body, never>
+    ? { body?: TypeOfApiType<Body, never> }
+    : { body: TypeOfApiType<Body, never> }
+  : { body?: never };
+
+/**
+ * The data a route's requests take. `params`, `query`, and `body` are required when the route's types require them.
+ */
+export type ApiRouteRequest<Route extends ApiRouteDefinition> = ApiRequestOptions &
+  ApiRouteParams<Route['path']> &
+  ApiRouteQuery<Route> &
+  ApiRouteBody<Route>;
+
+/**
+ * Sends a request to a route. The request data can be left out when none of it is required.
+ */
+export type ApiRouteMethod<Route extends ApiRouteDefinition> = (
+  ...args: {} extends ApiRouteRequest<Route> ? [request?: ApiRouteRequest<Route>] : [request: ApiRouteRequest<Route>]
+) => Promise<Partial<BasicHttpResponseData<ApiRouteResponse<Route>>>>;
+
+export type ApiClient<Routes extends ApiRouteDefinitions> = {
+  [Name in keyof Routes]: ApiRouteMethod<Routes[Name]>;
+};
+
+export interface DefineApiOptions {
+  /**
+   * The client requests are made with, so they get the client's base URL, defaults, events, middleware, and error
+   * handling.
+   *
+   * Defaults to {@link FetchService}.
+   */
+  client?: FetchHttpClient;
+}
+
+/**
+ * Creates a typed client for an API from a description of its routes. Each route becomes a method that sends a request
+ * via the client's `makeRequest`. The types of each method's params, query, body, and response are inferred from the
+ * route's definition, so there's no need for hand-written service classes or a code generation step.
+ *
+ * @example
+ * ```ts
+ * const usersApi = defineApi(
+ *   {
+ *     getUser: { method: 'GET', path: '/users/:id', response: apiType<User>() },
+ *     createUser: { method: 'POST', path: '/users', body: apiType<NewUser>(), response: apiType<User>() },
+ *     searchUsers: { method: 'GET', path: '/users', query: apiType<{ name: string }>(), response: apiType<User[]>() },
+ *   },
+ *   { client: apiClient }
+ * );
+ *
+ * const { body: user } = await usersApi.getUser({ params: { id: 5 } });
+ * ```
+ */
+export function defineApi<const Routes extends ApiRouteDefinitions>(
+  routes: Routes,
+  options: DefineApiOptions = {}
+): ApiClient<Routes> {
+  const { client = FetchService } = options;
+
+  const entries = Object.entries(routes).map(([name, route]) => {
+    const sendRequest = (request: Record<string, any> = {}) => {
+      const { defaults = {}, responseBodyParser, schema } = route;
+
+      return client.makeRequest(route.method, route.path, {
+        ...defaults,
+        ...(responseBodyParser ? { responseBodyParser } : undefined),
+        ...(schema ? { schema } : undefined),
+        ...request,
+        ...(defaults.options && request.options
+          ? {
+              options: {
+                ...defaults.options,
+                ...request.options,
+                headers: mergeHeaders(defaults.options.headers, request.options.headers),
+              },
+            }
+          : undefined),
+      } as BasicHttpRequestData<any, any, RequestInit, any>);
+    };
+
+    return [name, sendRequest];
+  });
+
+  return Object.fromEntries(entries) as ApiClient<Routes>;
+}
+
+function mergeHeaders(defaults: HeadersInit | undefined, overrides: HeadersInit | undefined): HeadersInit | undefined {
+  if (!defaults || !overrides) {
+    return overrides ?? defaults;
+  }
+
+  const headers = new Headers(defaults);
+
+  new Headers(overrides).forEach((value, name) => headers.set(name, value));
+
+  return headers;
+}
@@ -0,0 +1,320 @@
+import { NormalizedHttpRequest } from './http-client.interface';
+import { HttpStatus } from './http-status.enum';
+import { getProblemDetails, ProblemDetails } from './problem-details';
+import { formatValidationPath, ResponseValidationIssue, ValidationPath } from './response-validation';
+
+/**
+ * Thrown (or passed to `onError`) when a request didn't complete within its allotted time.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`The request did not complete within ${timeoutMs}ms.`);
+
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Thrown (or passed to `onError`) when a request was cancelled via its `AbortSignal`.
+ */
+export class RequestAbortedError extends Error {
+  /**
+   * @param reason - The reason the signal was aborted with, if any.
+   */
+  constructor(public readonly reason?: unknown) {
+    super('The request was aborted.');
+
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Thrown (or passed to `onError`) when a URL can't be parsed.
+ */
+export class InvalidUrlError extends Error {
+  constructor(public readonly url: string) {
+    super(`"${url}" is not a valid URL.`);
+
+    this.name = 'InvalidUrlError';
+  }
+}
+
+/**
+ * Thrown (or passed to `onError`) when the parameters given for a templated URI don't match its placeholders.
+ */
+export class PathParamsError extends Error {
+  /**
+   * @param template - The URI template.
+   * @param missingParams - Placeholders in the template that weren't given a parameter.
+   * @param extraParams - Parameters that don't have a placeholder in the template.
+   */
+  constructor(
+    public readonly template: string,
+    public readonly missingParams: string[],
+    public readonly extraParams: string[]
+  ) {
+    super(
+      [
+        `The parameters for "${template}" don't match its placeholders.`,
+        missingParams.length > 0 ? `Missing: ${missingParams.join(', ')}.` : '',
+        extraParams.length > 0 ? `Unexpected: ${extraParams.join(', ')}.` : '',
+      ]
+        .filter(Boolean)
+        .join(' ')
+    );
+
+    this.name = 'PathParamsError';
+  }
+}
+
+/**
+ * Passed to `onError` of an `SseClient` when the server responded with something other than an event stream.
+ */
+export class InvalidEventStreamError extends Error {
+  constructor(public readonly response: Response) {
+    super(
+      `Expected a "text/event-stream" response, but received "${response.headers.get('content-type') ?? 'nothing'}".`
+    );
+
+    this.name = 'InvalidEventStreamError';
+  }
+}
+
+/**
+ * Thrown by a `ResumableDownload` (and passed to its `onError`) when the resource changed while it was being
+ * downloaded, so the bytes already received can't be combined with the rest.
+ */
+export class ResourceChangedError extends Error {
+  /**
+   * @param url - The URL of the resource.
+   * @param expectedEtag - The `ETag` of the resource when the download started, if any.
+   * @param receivedEtag - The `ETag` the resource has now, if any.
+   */
+  constructor(
+    public readonly url: string,
+    public readonly expectedEtag: string | undefined,
+    public readonly receivedEtag: string | undefined
+  ) {
+    super(`The resource at ${url} changed while it was being downloaded.`);
+
+    this.name = 'ResourceChangedError';
+  }
+}
+
+/**
+ * Thrown by a `ResumableDownload` (and passed to its `onError`) when the server advertised `Accept-Ranges`, but didn't
+ * respond to a range request with the range asked for.
+ */
+export class RangeNotSupportedError extends Error {
+  constructor(public readonly url: string) {
+    super(`The server did not respond with the requested range of ${url}.`);
+
+    this.name = 'RangeNotSupportedError';
+  }
+}
+
+/**
+ * Thrown (or passed to `onError`) by a `MockHttpClient` or an `HttpFixture` when a request was made that no response
+ * was set up for.
+ */
+export class UnmatchedRequestError extends Error {
+  constructor(public readonly method: string, public readonly url: string) {
+    super(`No response was set up for ${method} ${url}.`);
+
+    this.name = 'UnmatchedRequestError';
+  }
+}
+
+/**
+ * Thrown (or passed to `onError`) when a response's body doesn't match the `schema` of the request that received it.
+ */
+export class ResponseValidationError extends Error {
+  /**
+   * The path to the first invalid value in the body, e.g., `['users', 0, 'email']`. Empty if the body as a whole is
+   * invalid.
+   */
+  get path(): ValidationPath {
+    return this.issues[0]?.path ?? [];
+  }
+
+  /**
+   * @param request - The request that received the response.
+   * @param response - The response. Its body has already been consumed; use `body` instead.
+   * @param body - The parsed body that failed validation.
+   * @param issues - Everything the schema found wrong with the body.
+   */
+  constructor(
+    public readonly request: NormalizedHttpRequest<RequestInit>,
+    public readonly response: Response,
+    public readonly body: unknown,
+    public readonly issues: ResponseValidationIssue[]
+  ) {
+    const [firstIssue] = issues;
+
+    super(
+      `The response to ${request.method} ${request.url} is invalid at ${formatValidationPath(firstIssue?.path ?? [])}${
+        firstIssue?.message ? `: ${firstIssue.message}` : '.'
+      }`
+    );
+
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Thrown (or passed to `onError`) when a request received a response whose status isn't in the 200 series and the
+ * request was configured to fail on such responses (see `failOnHttpError`). If the response describes the problem with
+ * a problem details document (RFC 7807), the problem's detail (or title) is included in the message.
+ *
+ * Use {@link createHttpError} to create the most specific error for a response.
+ */
+export class HttpError<ParsedBodyType = any> extends Error {
+  /**
+   * The status of the response.
+   */
+  get status(): number {
+    return this.response.status;
+  }
+
+  /**
+   * The problem details the response described, if its body is an `application/problem+json` document.
+   */
+  readonly problem: ProblemDetails | undefined;
+
+  /**
+   * @param request - The request that received the response.
+   * @param response - The response. Its body has already been consumed; use `body` instead.
+   * @param body - The parsed body of the response.
+   */
+  constructor(
+    public readonly request: NormalizedHttpRequest<RequestInit>,
+    public readonly response: Response,
+    public readonly body: ParsedBodyType
+  ) {
+    const problem = getProblemDetails(response, body);
+    const problemDescription = problem?.detail ?? problem?.title;
+
+    super(
+      `${request.method} ${request.url} failed with status ${response.status}${
+        response.statusText ? ` (${response.statusText})` : ''
+      }${problemDescription ? `: ${problemDescription}` : '.'}`
+    );
+
+    this.name = 'HttpError';
+    this.problem = problem;
+  }
+}
+
+/**
+ * An {@link HttpError} for a response in the 400 series.
+ */
+export class ClientError<ParsedBodyType = any> extends HttpError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'ClientError';
+  }
+}
+
+/**
+ * An {@link HttpError} for a response in the 500 series.
+ */
+export class ServerError<ParsedBodyType = any> extends HttpError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'ServerError';
+  }
+}
+
+export class BadRequestError<ParsedBodyType = any> extends ClientError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'BadRequestError';
+  }
+}
+
+export class UnauthorizedError<ParsedBodyType = any> extends ClientError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError<ParsedBodyType = any> extends ClientError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError<ParsedBodyType = any> extends ClientError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError<ParsedBodyType = any> extends ClientError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'ConflictError';
+  }
+}
+
+export class TooManyRequestsError<ParsedBodyType = any> extends ClientError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+export class ServiceUnavailableError<ParsedBodyType = any> extends ServerError<ParsedBodyType> {
+  constructor(request: NormalizedHttpRequest<RequestInit>, response: Response, body: ParsedBodyType) {
+    super(request, response, body);
+
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Creates the most specific {@link HttpError} for the provided `response`.
+ */
+export function createHttpError<ParsedBodyType = any>(
+  request: NormalizedHttpRequest<RequestInit>,
+  response: Response,
+  body: ParsedBodyType
+): HttpError<ParsedBodyType> {
+  switch (response.status) {
+    case HttpStatus.BadRequest:
+      return new BadRequestError(request, response, body);
+    case HttpStatus.Unauthorized:
+      return new UnauthorizedError(request, response, body);
+    case HttpStatus.Forbidden:
+      return new ForbiddenError(request, response, body);
+    case HttpStatus.NotFound:
+      return new NotFoundError(request, response, body);
+    case HttpStatus.Conflict:
+      return new ConflictError(request, response, body);
+    case HttpStatus.TooManyRequests:
+      return new TooManyRequestsError(request, response, body);
+    case HttpStatus.ServiceUnavailable:
+      return new ServiceUnavailableError(request, response, body);
+  }
+
+  if (response.status >= 400 && response.status < 500) {
+    return new ClientError(request, response, body);
+  }
+
+  if (response.status >= 500 && response.status < 600) {
+    return new ServerError(request, response, body);
+  }
+
+  return new HttpError(request, response, body);
+}
@@ -1,16 +1,63 @@
 import { Event } from '@jtjs/event';
 import fetch, { Headers } from 'cross-fetch';
+import { AuthProvider } from './auth-providers';
+import { BodyCodec, BodyCodecRegistry } from './body-codecs';
+import { createHttpError, HttpError, RequestAbortedError, RequestTimeoutError, ResponseValidationError } from './errors';
+import { HttpCache, HttpCacheMode, HttpCacheOptions } from './http-cache';
 import {
   BasicHttpRequestData,
   BasicHttpResponseData,
+  HttpMiddleware,
+  HttpMiddlewareResult,
   HttpProtocol,
   IHttpClient,
   NetworkErrorHandler,
+  NormalizedHttpRequest,
   ReceiveResponseHandler,
+  RequestDataArgs,
   SendRequestHandler,
 } from './http-client.interface';
+import { HttpStatus } from './http-status.enum';
+import { interpolatePath, PathParams } from './path-params';
+import { getProblemDetails, ProblemHandler } from './problem-details';
+import { getQueryKeys, mergeQuery, QueryArrayFormat, QueryParams } from './query-string';
+import { RequestDeduplicationOptions, RequestDeduplicator } from './request-deduplicator';
+import { RequestMetricsHandler } from './request-metrics';
+import {
+  RequestQueueStats,
+  RequestScheduler,
+  RequestSchedulerOptions,
+  ScheduledRequestInfo,
+} from './request-scheduler';
+import { validateResponseBody } from './response-validation';
+import {
+  getRetryDelayMs,
+  isReplayableBody,
+  isRetryableError,
+  isRetryableMethod,
+  isRetryableStatus,
+  resolveRetryPolicy,
+  RetryHandler,
+  RetryPolicy,
+} from './retry-policy';
+import { streamBody, trackDownloadProgress } from './streaming';
+import { formatTraceparent, HttpTracer, SpanKind, SpanStatusCode, TracerSpan } from './tracing';
+import { needsPreparedBody, prepareRequestBody, UploadProgressHandler } from './upload-progress';
+import { parseUrlBase, resolveUrl, UrlBase } from './url';
 
 export interface FetchHttpClientOptions {
+  /**
+   * A URL that sets the `protocol`, `host`, and `path` all at once. If any of those are also
+   * provided, they take precedence over the corresponding part of this URL.
+   *
+   * Defaults to no base URL.
+   *
+   * @example
+   * ```ts
+   * baseUrl: 'https://api.somecoolsite.com:8443/v2'
+   * ```
+   */
+  baseUrl?: string;
   /**
    * The HTTP protocol that the client uses.
    *
@@ -19,13 +66,14 @@ export interface FetchHttpClientOptions {
   protocol?: HttpProtocol;
   /**
    * The host that will always used for this client. The host is the
-   * domain + TLD.
+   * domain + TLD, and may include a port.
    *
    * Defaults to an empty string (i.e., no default host).
    *
    * @example
    * ```ts
    * host: 'api.somecoolsite.com'
+   * host: 'localhost:3000'
    * ```
    */
   host?: string;
@@ -43,6 +91,23 @@ export interface FetchHttpClientOptions {
    */
   path?: string;
   defaultRequestOptions?: Omit<RequestInit, 'method'>;
+  /**
+   * Query parameters to include in all requests this client makes. A request's `query`, and the query already in
+   * the request's URI, take precedence over these for parameters with the same name.
+   *
+   * @example
+   * ```ts
+   * defaultQuery: { api_key: 'abc123' }
+   * ```
+   */
+  defaultQuery?: QueryParams;
+  /**
+   * How arrays in query parameters are serialized. Individual requests can override this via their
+   * `queryArrayFormat`.
+   *
+   * Defaults to `'repeat'` (i.e., `ids=1&ids=2`).
+   */
+  queryArrayFormat?: QueryArrayFormat;
   /**
    * The minimum amount of time that must pass between requests
    * this client makes. This can be useful for limiting this client
@@ -50,12 +115,8 @@ export interface FetchHttpClientOptions {
    *
    * If a request is made before this time has elapsed, the client
    * will wait to make the request. The client may wait longer than
-   * this value, but will not wait any less than this value. 
-   * 
-   * Values less than `10` will not be accurate. When limited, the client
-   * won't make requests any faster than at least 10ms apart. If you need 
-   * less than 10ms between calls, it's unlikely you need a rate limit.
-   * 
+   * this value, but will not wait any less than this value.
+   *
    * If multiple requests are initiated during the waiting period, they
    * will be queued and executed in the order they were received.
    *
@@ -63,43 +124,293 @@ export interface FetchHttpClientOptions {
    * amount of time if you have a long wait time and are frequently
    * making requests.
    *
+   * This is shorthand for a rate limit of one request per `rateLimitMs`
+   * without bursts, and is combined with any limits in `scheduler`.
+   *
    * Defaults to no limit.
    */
   rateLimitMs?: number;
+  /**
+   * Limits on when requests are sent: token-bucket rate limits, a cap on how many requests may be in flight at
+   * once, and whether to adapt to the limits the server reports. Requests wait in a queue until every limit
+   * allows them to be sent.
+   *
+   * Defaults to no limits.
+   *
+   * @example
+   * ```ts
+   * scheduler: {
+   *   rateLimits: [{ limit: 100, intervalMs: 60_000, burst: 10 }],
+   *   maxConcurrency: 4,
+   *   adaptive: true,
+   * }
+   * ```
+   */
+  scheduler?: RequestSchedulerOptions;
+  /**
+   * How the client should retry requests that fail with a network error or a retryable response
+   * status. Each retry waits on the scheduler like any other request. Individual requests can override any part of this
+   * policy via their `retryPolicy`.
+   *
+   * Defaults to no retries.
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+  /**
+   * The maximum amount of time a request may take, in milliseconds. This includes time spent waiting
+   * in the scheduler's queue, time spent retrying, and time spent parsing the response
+   * body. When exceeded, the request is aborted with a {@link RequestTimeoutError}.
+   *
+   * Individual requests can override this via their `timeoutMs`.
+   *
+   * Defaults to no timeout.
+   */
+  timeoutMs?: number;
+  /**
+   * Whether responses whose status isn't in the 200 series should be treated as errors. When `true`, such a
+   * response results in an `HttpError` (or one of its more specific subclasses, like `NotFoundError`). Like any
+   * other error, it's passed to listeners of `onError` and only thrown if the request allows it.
+   *
+   * Individual requests can override this via their `failOnHttpError`.
+   *
+   * Defaults to `false`.
+   */
+  failOnHttpError?: boolean;
+  /**
+   * Applies credentials to every request this client makes. Credentials are applied after middleware
+   * runs and before the request waits on the scheduler.
+   *
+   * If a request receives a `401` response and the provider is able to refresh its credentials, the
+   * request is authenticated again and replayed once.
+   *
+   * Individual requests can opt out via their `skipAuth`.
+   *
+   * @example
+   * ```ts
+   * authProvider: new BearerAuthProvider(() => session.token)
+   * ```
+   */
+  authProvider?: AuthProvider;
+  /**
+   * Enables an HTTP cache for GET requests. The cache honors `Cache-Control`, and revalidates stale
+   * responses with the server via `ETag` and `Last-Modified`. A `304` response is treated as a cache
+   * hit, so the request resolves to the cached response and its parsed body.
+   *
+   * Responses to authenticated requests are only cached if they're marked `public`. Streamed requests, and requests
+   * that report download progress, bypass the cache.
+   *
+   * Pass `true` to use the defaults, or options to customize the cache (e.g., its storage). Individual
+   * requests can change how they use the cache via their `cache`.
+   *
+   * Defaults to no cache.
+   */
+  cache?: boolean | HttpCacheOptions;
+  /**
+   * Whether concurrent GET requests for the same URL share a single fetch. Requests only share a fetch if
+   * they also agree on the headers the server may vary its response by (see `varyHeaders`). Every request
+   * still gets its own response to read and its own parsed body.
+   *
+   * Requests that join an in-flight fetch don't wait on the scheduler. Cancelling one of the requests only
+   * cancels that request. The shared fetch is aborted once every request sharing it has cancelled.
+   *
+   * Pass `true` to use the defaults, or options to customize which headers matter. Individual requests can
+   * opt out via their `deduplicate`.
+   *
+   * Defaults to `false`.
+   */
+  deduplicate?: boolean | RequestDeduplicationOptions;
+  /**
+   * Codecs for media types the client should encode and decode bodies of, in addition to the built-in ones (JSON,
+   * problem details, forms, multipart forms, binary data, and CSV). A codec for a media type that already has one
+   * replaces it. More can be registered later via `codecs`.
+   *
+   * @example
+   * ```ts
+   * codecs: [msgPackCodec]
+   * ```
+   */
+  codecs?: BodyCodec[];
+  /**
+   * The function requests are sent with. Useful for sending requests through a test double, like an `HttpFixture`.
+   *
+   * Defaults to `fetch` from `cross-fetch`.
+   */
+  fetch?: FetchFunction;
+  /**
+   * Traces every attempt at a request with a client span, and propagates the span to the server via the W3C Trace
+   * Context `traceparent` (and `tracestate`) headers. An OpenTelemetry tracer can be used as it is.
+   *
+   * @example
+   * ```ts
+   * tracer: trace.getTracer('my-app')
+   * ```
+   */
+  tracer?: HttpTracer;
 }
 
+/**
+ * Sends a request and resolves to its response, like the global `fetch`.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
 type FetchRawResponseBody = ReadableStream<Uint8Array> | null;
 
-function waitFor(predicate: () => boolean, checkTimeMs = 10): Promise<void> {
-  return new Promise((resolve) => {
-    const interval = setInterval(() => {
-      if (predicate()) {
-        clearInterval(interval);
+type FetchRequestData<ParsedBodyType, Uri extends string> = BasicHttpRequestData<
+  FetchRawResponseBody,
+  ParsedBodyType,
+  RequestInit,
+  PathParams<Uri>
+>;
 
-        resolve(undefined);
-      }
-    }, checkTimeMs);
+/**
+ * How a request is sent once it's gone through middleware.
+ */
+interface SendOptions {
+  retryPolicy: RetryPolicy;
+  priority?: number;
+  queueKey?: string;
+  onUploadProgress?: UploadProgressHandler;
+  measurements: RequestMeasurements;
+}
+
+/**
+ * What's been measured of a request so far, to be reported via `onMetrics` once it's done. Times are from {@link now}.
+ */
+interface RequestMeasurements {
+  startedAt: number;
+  queueWaitMs: number;
+  attempts: number;
+  url?: string;
+  response?: Response;
+  headersAt?: number;
+  bodyAt?: number;
+  receivedBytes?: number;
+  error?: Error;
+}
+
+/**
+ * The headers that propagate the provided span to the server.
+ */
+function getTraceHeaders(span: TracerSpan): Record<string, string> {
+  const spanContext = span.spanContext();
+  const traceState = spanContext.traceState?.serialize();
+
+  return {
+    traceparent: formatTraceparent(spanContext),
+    ...(traceState ? { tracestate: traceState } : undefined),
+  };
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timeout);
+
+      reject(signal?.reason);
+    };
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+
+      resolve(undefined);
+    }, ms);
+
+    if (signal?.aborted) {
+      handleAbort();
+    } else {
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    }
   });
 }
 
+interface RequestSignal {
+  signal: AbortSignal;
+  dispose: () => void;
+}
+
 /**
- * Default implementation for an HTTP(S) client that uses the fetch API. Any kind of body can be given, but this implementation
- * has a preference toward JSON. If no `Content-Type` is included on a request's header, `application/json`
- * is assumed and the body will be stringified accordingly. If the 'Content-Type' is included, the `Accept` header
- * is auto-populated to prefer the same content type, with a secondary preference for anything.
+ * Creates a signal that aborts with a {@link RequestTimeoutError} once `timeoutMs` elapses, or with a
+ * {@link RequestAbortedError} once the provided `signal` aborts. `dispose` must be called once the request
+ * completes so the timeout and listener don't linger.
+ *
+ * @returns The combined signal, or `undefined` if there's nothing that could abort the request.
+ */
+function createRequestSignal(timeoutMs: number, signal?: AbortSignal | null): RequestSignal | undefined {
+  if (!(timeoutMs > 0) && !signal) {
+    return undefined;
+  }
+
+  const controller = new AbortController();
+
+  const handleAbort = () => {
+    controller.abort(new RequestAbortedError(signal?.reason));
+  };
+
+  if (signal?.aborted) {
+    handleAbort();
+  } else {
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  }
+
+  const timeout =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          controller.abort(new RequestTimeoutError(timeoutMs));
+        }, timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', handleAbort);
+    },
+  };
+}
+
+/**
+ * Default implementation for an HTTP(S) client that uses the fetch API. Bodies are encoded and decoded by the codec
+ * registered for their media type (see `codecs`). If no `Content-Type` is included on a request's header, the body is
+ * encoded by the first codec that can encode it (e.g., `FormData` is sent as a multipart form), or else as JSON, and the
+ * codec's media type becomes the `Content-Type`. If a `Content-Type` is included, the codec for it encodes the body, or
+ * the body is sent as-is if there's no such codec. Unless the request includes one, the `Accept` header is generated
+ * from the registered codecs, preferring the request's `Content-Type`.
  *
  * When parsing the response's body, the provided `responseBodyParser` is always preferred if supplied. If it's not,
- * the request's `Content-Type` is observed. If it's JSON, it's parsed as JSON. Otherwise it's parsed as text.
+ * and the request asks for the body to be streamed via `stream`, the body is an async iterator in the requested mode.
+ * Otherwise, the response's `Content-Type` is observed, and the body is decoded by the codec for it. If there's no such
+ * codec, it's parsed as text. If a response that isn't in the 200 series is a problem details document, the problem is
+ * included in the result (or the error) as `problem`, and `onProblem` is triggered.
+ * If the request has a `schema`, the parsed body is then validated against it.
+ *
+ * Middleware added via `use` wraps the entire request. It runs before the request waits on the scheduler and is
+ * retried according to the retry policy, so `next` resolves once the final attempt's response was received and its
+ * body parsed.
  */
 export class FetchHttpClient implements IHttpClient<RequestInit, Request, Response, FetchRawResponseBody> {
-  protected static URI_REGEX = /^(?<uri>(?:(?<protocol>[a-z]+):\/\/)?(?<host>[a-z\d.]+)?(?<path>\/.*)?)$/i;
-
   onSendRequest = new Event<SendRequestHandler<Request>>();
   onReceiveResponse = new Event<ReceiveResponseHandler<Response>>();
   onError = new Event<NetworkErrorHandler>();
+  /**
+   * Triggered when an attempt at a request failed and the client is about to retry it.
+   */
+  onRetry = new Event<RetryHandler>();
+  /**
+   * Triggered when a request received a response whose status isn't in the 200 series and whose body is a problem
+   * details document (`application/problem+json`), whether or not the request fails on such responses. Useful for
+   * reporting problems consistently, e.g., with a toast.
+   */
+  onProblem = new Event<ProblemHandler>();
+  /**
+   * Triggered once a request is done, with how long it took and how it went. A streamed request is done once its
+   * stream was read.
+   */
+  onMetrics = new Event<RequestMetricsHandler>();
 
-  #timeOfLastRequest = 0;
-  #requestQueue = new RequestQueue();
+  #middleware: HttpMiddleware<RequestInit>[] = [];
 
   protected _protocol = HttpProtocol.Http;
   get protocol(): HttpProtocol {
@@ -121,21 +432,104 @@ export class FetchHttpClient implements IHttpClient<RequestInit, Request, Respon
     return this._defaultRequestOptions;
   }
 
+  protected _defaultQuery: QueryParams = {};
+  get defaultQuery(): QueryParams {
+    return this._defaultQuery;
+  }
+
+  protected _queryArrayFormat: QueryArrayFormat = 'repeat';
+  get queryArrayFormat(): QueryArrayFormat {
+    return this._queryArrayFormat;
+  }
+
   protected _rateLimitMs = 0;
   get rateLimitMs(): number {
     return this._rateLimitMs;
   }
 
-  get #isRateLimited(): boolean {
-    return this._rateLimitMs > 0;
+  protected _retryPolicy: Partial<RetryPolicy> = {};
+  get retryPolicy(): RetryPolicy {
+    return resolveRetryPolicy(this._retryPolicy);
+  }
+
+  protected _timeoutMs = 0;
+  get timeoutMs(): number {
+    return this._timeoutMs;
+  }
+
+  protected _failOnHttpError = false;
+  get failOnHttpError(): boolean {
+    return this._failOnHttpError;
+  }
+
+  protected _authProvider: AuthProvider | undefined;
+  get authProvider(): AuthProvider | undefined {
+    return this._authProvider;
+  }
+
+  protected _cache: HttpCache | undefined;
+  /**
+   * The client's HTTP cache, if it has one. Use it to invalidate cached responses.
+   */
+  get cache(): HttpCache | undefined {
+    return this._cache;
+  }
+
+  protected _deduplicator: RequestDeduplicator | undefined;
+  /**
+   * Shares fetches between concurrent identical GET requests, if the client deduplicates them.
+   */
+  get deduplicator(): RequestDeduplicator | undefined {
+    return this._deduplicator;
+  }
+
+  protected _scheduler: RequestScheduler;
+  /**
+   * Decides when the client's requests are sent, according to `rateLimitMs` and `scheduler`.
+   */
+  get scheduler(): RequestScheduler {
+    return this._scheduler;
+  }
+
+  protected _fetch: FetchFunction;
+
+  protected _tracer: HttpTracer | undefined;
+  /**
+   * Traces the client's requests, if the client has a tracer.
+   */
+  get tracer(): HttpTracer | undefined {
+    return this._tracer;
   }
 
-  get #shouldQueueRequest(): boolean {
-    return this.#isRateLimited && Date.now() < this.#timeOfLastRequest + this._rateLimitMs;
+  protected _codecs: BodyCodecRegistry;
+  /**
+   * The codecs request and response bodies are encoded and decoded with. Register more to support other media types.
+   */
+  get codecs(): BodyCodecRegistry {
+    return this._codecs;
   }
 
   constructor(options: FetchHttpClientOptions = {}) {
-    const { protocol, host, path, defaultRequestOptions, rateLimitMs } = options;
+    const {
+      baseUrl,
+      defaultRequestOptions,
+      defaultQuery,
+      queryArrayFormat,
+      rateLimitMs,
+      retryPolicy,
+      timeoutMs,
+      failOnHttpError,
+      authProvider,
+      cache,
+      deduplicate,
+      scheduler,
+      codecs,
+    } = options;
+
+    const urlBase = baseUrl ? this.#parseBaseUrl(baseUrl) : undefined;
+    const protocol = options.protocol ?? (urlBase?.protocol as HttpProtocol | undefined);
+    const host = options.host ?? urlBase?.host;
+    const path = options.path ?? urlBase?.path;
 
     if (path && !path.startsWith('/')) {
       throw new Error(`Could not create FetchHttpClient. Provided path "${path}" does not start with a "/".`);
@@ -144,113 +538,231 @@ export class FetchHttpClient implements IHttpClient<RequestInit, Request, Respon
     this._protocol = protocol ?? HttpProtocol.Http;
     this._host = host ?? '';
     this._path = path ?? '';
+
+    try {
+      this._getTreatedUri('');
+    } catch {
+      throw new Error(`Could not create FetchHttpClient. Provided host "${this._host}" is not valid.`);
+    }
+
     this._defaultRequestOptions = defaultRequestOptions ?? {};
+    this._defaultQuery = defaultQuery ?? {};
+    this._queryArrayFormat = queryArrayFormat ?? 'repeat';
     this._rateLimitMs = rateLimitMs ?? 0;
+    this._scheduler = new RequestScheduler({
+      ...scheduler,
+      rateLimits: [
+        ...(this._rateLimitMs > 0 ? [{ limit: 1, intervalMs: this._rateLimitMs, burst: 1 }] : []),
+        ...(scheduler?.rateLimits ?? []),
+      ],
+    });
+    this._retryPolicy = retryPolicy ?? {};
+    this._timeoutMs = timeoutMs ?? 0;
+    this._failOnHttpError = failOnHttpError ?? false;
+    this._authProvider = authProvider;
+    this._cache = cache ? new HttpCache(cache === true ? {} : cache) : undefined;
+    this._deduplicator = deduplicate
+      ? new RequestDeduplicator(deduplicate === true ? {} : deduplicate)
+      : undefined;
+    this._codecs = new BodyCodecRegistry(codecs);
+    this._fetch = options.fetch ?? fetch;
+    this._tracer = options.tracer;
   }
 
+  /**
+   * Resolves the provided `uri` against the client's protocol, host, and path. See {@link resolveUrl}.
+   *
+   * @throws {InvalidUrlError} When the URI can't be parsed.
+   */
   protected _getTreatedUri(uri: string): string {
-    const trimmedUri = uri.trim();
-
-    const match = FetchHttpClient.URI_REGEX.exec(trimmedUri);
-
-    let treatedUri = '';
-    if (match) {
-      // @ts-ignore
-      const { protocol, host, path } = match.groups;
-
-      const isRelative = !protocol && !host;
-
-      if (isRelative) {
-        if (this._host) {
-          treatedUri += `${this._protocol ?? HttpProtocol.Http}://${this._host}`;
-        }
-
-        treatedUri += `${this._path ?? ''}${path ?? ''}`;
-      } else {
-        treatedUri += `${protocol ?? this._protocol ?? HttpProtocol.Http}://${host ?? this._host ?? ''}${
-          this._path ?? ''
-        }${path ?? ''}`;
-      }
-    }
-
-    return treatedUri;
+    return resolveUrl(uri, {
+      protocol: this._protocol,
+      host: this._host,
+      path: this._path,
+    });
   }
 
-  async makeRequest<ParsedBodyType = undefined>(
+  async makeRequest<ParsedBodyType = undefined, Uri extends string = string>(
     method: string,
-    uri: string,
-    requestData: BasicHttpRequestData<FetchRawResponseBody, ParsedBodyType, RequestInit> = {}
+    uri: Uri,
+    ...[requestData = {}]: RequestDataArgs<Uri, FetchRequestData<ParsedBodyType, Uri>>
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>> {
-    if (this.#shouldQueueRequest) {
-      const requestId = this.#requestQueue.enqueue();
-
-      await waitFor(() => !this.#shouldQueueRequest && this.#requestQueue.peek() === requestId);
-
-      this.#requestQueue.dequeue();
-    }
-
-    this.#timeOfLastRequest = Date.now();
+    const {
+      options,
+      body,
+      params,
+      query,
+      queryArrayFormat,
+      responseBodyParser,
+      schema,
+      allowThrow,
+      retryPolicy,
+      timeoutMs,
+      signal,
+      failOnHttpError,
+      skipAuth,
+      cache: cacheMode,
+      deduplicate,
+      priority,
+      queueKey,
+      stream,
+      onDownloadProgress,
+      onUploadProgress,
+    } = requestData;
 
-    const { options, body, responseBodyParser, allowThrow } = requestData;
+    const measurements: RequestMeasurements = { startedAt: now(), queueWaitMs: 0, attempts: 0 };
 
     const headers = new Headers({
       ...this.#getNormalizedHeaders(this.defaultRequestOptions?.headers),
       ...this.#getNormalizedHeaders(requestData?.options?.headers),
     });
 
-    const contentTypeHeader = headers.get('content-type');
-    const isContentTypePresent = !!contentTypeHeader;
-    let isJsonRequest = (!isContentTypePresent || contentTypeHeader.toLowerCase() === 'application/json') && !!body;
+    const { body: encodedBody, contentType: contentTypeToUse } = this.#encodeBody(body, headers.get('content-type'));
 
-    let contentTypeToUse = contentTypeHeader;
-    if (!contentTypeToUse && isJsonRequest) {
-      contentTypeToUse = 'application/json';
-    }
+    // The content type is either already in the headers or left for fetch to set (e.g., with a multipart boundary).
+    headers.delete('content-type');
+
+    // Headers were already merged above.
+    const { headers: _, ...otherOptions } = { ...this.defaultRequestOptions, ...options };
+
+    const requestSignal = createRequestSignal(
+      timeoutMs ?? this._timeoutMs,
+      signal ?? options?.signal ?? this.defaultRequestOptions?.signal
+    );
+
+    let isStreaming = false;
 
     try {
-      const requestUri = this._getTreatedUri(uri);
-      const requestOptions: RequestInit = {
-        ...this.defaultRequestOptions,
-        ...options,
+      // Templates are always interpolated, so placeholders without params fail instead of being sent as they are.
+      const treatedUri = this._getTreatedUri(interpolatePath(uri, params ?? ({} as PathParams<Uri>)));
+      // Defaults only fill in parameters the URI doesn't already have.
+      const uriQueryKeys = getQueryKeys(treatedUri);
+      const defaultQuery = Object.fromEntries(
+        Object.entries(this._defaultQuery).filter(([key]) => !uriQueryKeys.has(key))
+      );
+
+      const request: NormalizedHttpRequest<RequestInit> = {
         method,
+        url: mergeQuery(
+          treatedUri,
+          { ...defaultQuery, ...query },
+          { arrayFormat: queryArrayFormat ?? this._queryArrayFormat }
+        ),
         headers: {
-          accept: '*/*',
-          ...this.#getNormalizedHeaders(headers),
-          ...(!!contentTypeToUse
-            ? {
-                'content-type': contentTypeToUse,
-                accept: `${contentTypeToUse}, */*;q=0.9`,
-              }
-            : undefined),
+          accept: this._codecs.getAccept(contentTypeToUse),
+          ...(this.#getNormalizedHeaders(headers) as Record<string, string>),
+          ...(!!contentTypeToUse ? { 'content-type': contentTypeToUse } : undefined),
+        },
+        body: encodedBody,
+        options: {
+          ...otherOptions,
+          ...(requestSignal ? { signal: requestSignal.signal } : undefined),
         },
-        body: isJsonRequest ? JSON.stringify(body as Record<string, any>) : (body as BodyInit),
       };
 
-      this.onSendRequest.trigger({
-        url: requestUri,
-        ...requestOptions,
-      } as Request);
+      const sendOptions: SendOptions = {
+        retryPolicy: resolveRetryPolicy(this._retryPolicy, retryPolicy),
+        priority,
+        queueKey,
+        onUploadProgress,
+        measurements,
+      };
 
-      const response = await fetch(`${this._getTreatedUri(uri)}`, requestOptions);
+      measurements.url = request.url;
 
-      this.onReceiveResponse.trigger(response);
+      const result = await this.#runMiddleware(request, async (request) => {
+        const authProvider = skipAuth ? undefined : this._authProvider;
+        const fetchResponse = (request: NormalizedHttpRequest<RequestInit>) =>
+          this.#fetchCached(
+            request,
+            sendOptions,
+            authProvider,
+            // Caching reads the whole body before the response is given back, which would defeat streaming it.
+            stream || onDownloadProgress ? 'no-store' : cacheMode ?? 'default'
+          );
 
-      let defaultBodyParser;
-      if (response?.headers?.get('content-type')?.includes('application/json')) {
-        defaultBodyParser = response?.json;
-      } else {
-        defaultBodyParser = response?.text;
-      }
+        const response = await (this._deduplicator && deduplicate !== false
+          ? this._deduplicator.run(request, fetchResponse, { authProvider })
+          : fetchResponse(request));
 
-      defaultBodyParser = defaultBodyParser?.bind(response);
+        measurements.headersAt = now();
+
+        // The body is read from a copy that reports progress, so the response keeps its URL and other properties.
+        const bodyResponse = onDownloadProgress
+          ? trackDownloadProgress(response, (progress) => {
+              measurements.receivedBytes = progress.loaded;
+
+              onDownloadProgress(progress);
+            })
+          : response;
+        const isHttpError = (failOnHttpError ?? this._failOnHttpError) && this.#isHttpErrorResponse(response);
+
+        let defaultBodyParser;
+        if (stream && !isHttpError) {
+          // The request isn't done until the stream is, so it can still time out or be aborted while it's read.
+          isStreaming = true;
+
+          defaultBodyParser = () =>
+            streamBody(bodyResponse?.body, stream, {
+              signal: requestSignal?.signal,
+              onDone: () => {
+                requestSignal?.dispose();
+
+                measurements.bodyAt = now();
+                this.#reportMetrics(method, uri, measurements);
+              },
+            });
+        } else if (bodyResponse) {
+          defaultBodyParser = () => this.#decodeBody(bodyResponse);
+        }
+
+        const parsedBody = await (!!responseBodyParser ? responseBodyParser(bodyResponse?.body) : defaultBodyParser?.());
+
+        if (!isStreaming) {
+          measurements.bodyAt = now();
+        }
+        // Bodies from a custom parser or streamed bodies can't be told apart from problem details documents.
+        const problem = !responseBodyParser && !isStreaming ? getProblemDetails(response, parsedBody) : undefined;
+
+        if (problem) {
+          this.onProblem.trigger({ problem, method: request.method, url: request.url, response });
+        }
+
+        if (isHttpError) {
+          throw createHttpError(request, response, parsedBody);
+        }
+
+        const validation = schema && !stream ? await validateResponseBody(schema, parsedBody) : undefined;
+
+        if (validation && 'issues' in validation) {
+          throw new ResponseValidationError(request, response, parsedBody, validation.issues);
+        }
+
+        return {
+          response,
+          body: validation && 'value' in validation ? validation.value : parsedBody,
+          ...(problem ? { problem } : undefined),
+        };
+      });
+
+      // Middleware may have replaced the response, or answered without sending the request at all.
+      measurements.response = result.response as Response | undefined;
+
+      return result as Partial<BasicHttpResponseData<ParsedBodyType>>;
+    } catch (caughtError) {
+      // Nothing will read a stream the request may have started, so nothing else will clean up after it.
+      isStreaming = false;
+
+      // Whatever the fetch API rejected with, prefer the typed reason the request was aborted with.
+      const error = requestSignal?.signal.aborted ? requestSignal.signal.reason : caughtError;
+
+      measurements.error = error as Error;
+
+      // A response that failed the request still tells how the request went.
+      if (error instanceof HttpError || error instanceof ResponseValidationError) {
+        measurements.response = error.response;
+      }
 
-      return {
-        response,
-        body: (await (!!responseBodyParser
-          ? responseBodyParser(response?.body)
-          : defaultBodyParser?.())) as ParsedBodyType,
-      };
-    } catch (error) {
       this.onError.trigger(error as Error);
 
       if (allowThrow) {
@@ -260,43 +772,442 @@ export class FetchHttpClient implements IHttpClient<RequestInit, Request, Respon
       return {
         response: undefined,
         body: undefined,
+        error: error as Error,
       };
+    } finally {
+      if (!isStreaming) {
+        requestSignal?.dispose();
+
+        this.#reportMetrics(method, uri, measurements);
+      }
     }
   }
 
-  get<ParsedBodyType = any>(
-    uri: string,
-    requestData?: Omit<BasicHttpRequestData<FetchRawResponseBody, ParsedBodyType, RequestInit>, 'body'>
+  /**
+   * Describes the requests waiting to be sent, either in the provided queue or in every queue. Requests are queued by
+   * host unless they specify a `queueKey`.
+   *
+   * @example
+   * ```ts
+   * const { length } = client.getQueueStats();
+   * console.log(`${length} requests pending`);
+   * ```
+   */
+  getQueueStats(queueKey?: string): RequestQueueStats {
+    return this._scheduler.getQueueStats(queueKey);
+  }
+
+  use(middleware: HttpMiddleware<RequestInit>): () => void {
+    this.#middleware.push(middleware);
+
+    return () => {
+      this.removeMiddleware(middleware);
+    };
+  }
+
+  removeMiddleware(middleware: HttpMiddleware<RequestInit>): void {
+    this.#middleware = this.#middleware.filter((existingMiddleware) => existingMiddleware !== middleware);
+  }
+
+  /**
+   * Runs the `request` through the middleware chain, with `send` at the end of it. The chain is captured when
+   * the request starts, so adding or removing middleware doesn't affect requests that are already running.
+   */
+  #runMiddleware(
+    request: NormalizedHttpRequest<RequestInit>,
+    send: (request: NormalizedHttpRequest<RequestInit>) => Promise<HttpMiddlewareResult>
+  ): Promise<HttpMiddlewareResult> {
+    const middleware = [...this.#middleware];
+
+    const dispatch = async (
+      index: number,
+      request: NormalizedHttpRequest<RequestInit>
+    ): Promise<HttpMiddlewareResult> => {
+      if (index >= middleware.length) {
+        return send(request);
+      }
+
+      return middleware[index](request, (nextRequest = request) => dispatch(index + 1, nextRequest));
+    };
+
+    return dispatch(0, request);
+  }
+
+  #getRequestInit(request: NormalizedHttpRequest<RequestInit>): RequestInit {
+    const { method, headers, body, options } = request;
+
+    return {
+      ...options,
+      method,
+      headers,
+      body,
+    };
+  }
+
+  async #fetchCached(
+    request: NormalizedHttpRequest<RequestInit>,
+    sendOptions: SendOptions,
+    authProvider: AuthProvider | undefined,
+    cacheMode: HttpCacheMode
+  ): Promise<Response> {
+    const cache = this._cache;
+
+    if (!cache || cacheMode === 'no-store') {
+      return this.#fetchAuthenticated(request, sendOptions, authProvider);
+    }
+
+    // The cache sees requests as they're sent, so entries are matched against the credentials the request carries.
+    const authenticatedRequest = authProvider ? await authProvider.authenticate(request) : request;
+
+    if (!cache.isCacheable(authenticatedRequest)) {
+      const response = await this.#fetchAuthenticated(request, sendOptions, authProvider, authenticatedRequest);
+
+      // A successful unsafe request likely changed the resource, so what's cached for it is outdated.
+      if (response?.ok && cache.isInvalidatedBy(authenticatedRequest)) {
+        await cache.invalidate((url) => url === authenticatedRequest.url);
+      }
+
+      return response;
+    }
+
+    const entry = await cache.match(authenticatedRequest);
+
+    if (entry) {
+      const isFresh = cache.isFresh(entry);
+
+      if (cacheMode === 'force-cache' || (isFresh && cacheMode === 'default')) {
+        return cache.toResponse(entry);
+      }
+
+      if (!isFresh && cacheMode === 'default' && cache.staleWhileRevalidate) {
+        this.#revalidate(cache, request, authenticatedRequest, sendOptions, authProvider).catch(() => {
+          // The stale entry stays in the cache, so a later request will try again.
+        });
+
+        return cache.toResponse(entry);
+      }
+    }
+
+    return this.#revalidate(cache, request, authenticatedRequest, sendOptions, authProvider);
+  }
+
+  /**
+   * Fetches the provided `request`, conditionally if there's an entry for it, and updates the cache with the result.
+   */
+  async #revalidate(
+    cache: HttpCache,
+    request: NormalizedHttpRequest<RequestInit>,
+    authenticatedRequest: NormalizedHttpRequest<RequestInit>,
+    sendOptions: SendOptions,
+    authProvider: AuthProvider | undefined
+  ): Promise<Response> {
+    const entry = await cache.match(authenticatedRequest);
+
+    const response = await this.#fetchAuthenticated(
+      request,
+      sendOptions,
+      authProvider,
+      entry ? cache.getConditionalRequest(authenticatedRequest, entry) : authenticatedRequest
+    );
+
+    if (entry && response?.status === HttpStatus.NotModified) {
+      return cache.toResponse(await cache.revalidate(authenticatedRequest, entry, response));
+    }
+
+    if (response) {
+      await cache.store(authenticatedRequest, response, { authenticated: !!authProvider });
+    }
+
+    return response;
+  }
+
+  /**
+   * Sends the provided `request` with the provider's credentials, and sends it once more with refreshed credentials if
+   * the server rejected them. Pass `authenticatedRequest` if the request was already authenticated.
+   */
+  async #fetchAuthenticated(
+    request: NormalizedHttpRequest<RequestInit>,
+    sendOptions: SendOptions,
+    authProvider: AuthProvider | undefined,
+    authenticatedRequest?: NormalizedHttpRequest<RequestInit>
+  ): Promise<Response> {
+    const sentRequest = authenticatedRequest ?? (authProvider ? await authProvider.authenticate(request) : request);
+
+    const response = await this.#fetchWithRetries(sentRequest.url, this.#getRequestInit(sentRequest), sendOptions);
+
+    if (
+      authProvider &&
+      response?.status === HttpStatus.Unauthorized &&
+      (await authProvider.refresh?.(sentRequest))
+    ) {
+      const reauthenticatedRequest = await authProvider.authenticate(request);
+
+      return this.#fetchWithRetries(
+        reauthenticatedRequest.url,
+        this.#getRequestInit(reauthenticatedRequest),
+        sendOptions
+      );
+    }
+
+    return response;
+  }
+
+  async #fetchWithRetries(url: string, requestOptions: RequestInit, sendOptions: SendOptions): Promise<Response> {
+    const { retryPolicy: policy } = sendOptions;
+    const method = requestOptions.method ?? 'GET';
+    const maxAttempts =
+      isRetryableMethod(policy, method) && isReplayableBody(requestOptions.body) ? Math.max(1, policy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts;
+
+      let response: Response;
+      try {
+        response = await this.#fetch(url, requestOptions, sendOptions);
+      } catch (error) {
+        if (isLastAttempt || requestOptions.signal?.aborted || !isRetryableError(policy, error as Error)) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelayMs(policy, attempt);
+
+        this.onRetry.trigger({ attempt, maxAttempts, delayMs, method, url, error: error as Error });
+
+        await sleep(delayMs, requestOptions.signal);
+
+        continue;
+      }
+
+      if (isLastAttempt || !isRetryableStatus(policy, response?.status)) {
+        return response;
+      }
+
+      const delayMs = getRetryDelayMs(policy, attempt, response);
+
+      this.onRetry.trigger({ attempt, maxAttempts, delayMs, method, url, response });
+
+      // Nobody reads the body of a response that's retried, so it's released instead of holding the connection open.
+      response?.body?.cancel().catch(() => undefined);
+
+      await sleep(delayMs, requestOptions.signal);
+    }
+  }
+
+  async #fetch(url: string, requestOptions: RequestInit, sendOptions: SendOptions): Promise<Response> {
+    const requestInfo: ScheduledRequestInfo = {
+      method: requestOptions.method,
+      url,
+      priority: sendOptions.priority,
+      queueKey: sendOptions.queueKey ?? this.#getQueueKey(url),
+    };
+
+    const { measurements } = sendOptions;
+    const queuedAt = now();
+
+    // Only wait when there's no slot available right away, so unlimited requests are sent synchronously.
+    const release =
+      this._scheduler.tryAcquire(requestInfo) ?? (await this._scheduler.acquire(requestOptions.signal, requestInfo));
+
+    measurements.queueWaitMs += now() - queuedAt;
+    measurements.attempts += 1;
+
+    const span = this.#startSpan(url, requestOptions.method ?? 'GET', measurements.attempts - 1);
+
+    try {
+      // Each attempt prepares the body anew, so progress starts over when a request is retried.
+      const preparedBody = needsPreparedBody(requestOptions, sendOptions.onUploadProgress)
+        ? await prepareRequestBody(requestOptions, sendOptions.onUploadProgress)
+        : undefined;
+      const preparedInit = preparedBody?.init ?? requestOptions;
+      const init = span
+        ? {
+            ...preparedInit,
+            headers: { ...(preparedInit.headers as Record<string, string>), ...getTraceHeaders(span) },
+          }
+        : preparedInit;
+
+      this.onSendRequest.trigger({
+        url,
+        ...init,
+      } as Request);
+
+      const response = await this._fetch(url, init);
+
+      preparedBody?.onSent();
+
+      this._scheduler.update(response);
+
+      span?.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 400) {
+        span?.setStatus({ code: SpanStatusCode.Error });
+      }
+
+      this.onReceiveResponse.trigger(response);
+
+      return response;
+    } catch (error) {
+      span?.recordException(error as Error);
+      span?.setAttribute('error.type', (error as Error)?.name ?? 'Error');
+      span?.setStatus({ code: SpanStatusCode.Error, message: (error as Error)?.message });
+
+      throw error;
+    } finally {
+      span?.end();
+      release();
+    }
+  }
+
+  /**
+   * Starts a client span for an attempt at a request, if the client has a tracer. The attributes follow OpenTelemetry's
+   * semantic conventions for HTTP clients.
+   */
+  #startSpan(url: string, method: string, resendCount: number): TracerSpan | undefined {
+    if (!this._tracer) {
+      return undefined;
+    }
+
+    let serverAddress: string | undefined;
+    try {
+      serverAddress = new URL(url).hostname;
+    } catch {
+      // The URL is relative, so there's no server address to tell.
+    }
+
+    return this._tracer.startSpan(method, {
+      kind: SpanKind.Client,
+      attributes: {
+        'http.request.method': method,
+        'url.full': url,
+        ...(serverAddress ? { 'server.address': serverAddress } : undefined),
+        ...(resendCount > 0 ? { 'http.request.resend_count': resendCount } : undefined),
+      },
+    });
+  }
+
+  #reportMetrics(method: string, uri: string, measurements: RequestMeasurements) {
+    const { startedAt, headersAt, bodyAt, response, error } = measurements;
+    const contentLength = response?.headers.get('content-length');
+
+    this.onMetrics.trigger({
+      method,
+      url: measurements.url ?? uri,
+      status: response?.status,
+      queueWaitMs: measurements.queueWaitMs,
+      timeToHeadersMs: headersAt !== undefined ? headersAt - startedAt : undefined,
+      timeToBodyMs: headersAt !== undefined && bodyAt !== undefined ? bodyAt - headersAt : undefined,
+      durationMs: now() - startedAt,
+      retries: Math.max(0, measurements.attempts - 1),
+      // An encoded body's length isn't the length of what was read.
+      bytes:
+        measurements.receivedBytes ??
+        (contentLength && /^\d+$/.test(contentLength) && !response?.headers.has('content-encoding')
+          ? Number(contentLength)
+          : undefined),
+      ...(error ? { error } : undefined),
+    });
+  }
+
+  get<ParsedBodyType = any, Uri extends string = string>(
+    uri: Uri,
+    ...requestData: RequestDataArgs<Uri, Omit<FetchRequestData<ParsedBodyType, Uri>, 'body'>>
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>> {
-    return this.makeRequest('GET', uri, requestData);
+    return this.makeRequest(
+      'GET',
+      uri,
+      ...(requestData as RequestDataArgs<Uri, FetchRequestData<ParsedBodyType, Uri>>)
+    );
   }
 
-  post<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<FetchRawResponseBody, ParsedBodyType, RequestInit>
+  post<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...requestData: RequestDataArgs<Uri, FetchRequestData<ParsedBodyType, Uri>>
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>> {
-    return this.makeRequest('POST', uri, requestData);
+    return this.makeRequest('POST', uri, ...requestData);
   }
 
-  put<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<FetchRawResponseBody, ParsedBodyType, RequestInit>
+  put<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...requestData: RequestDataArgs<Uri, FetchRequestData<ParsedBodyType, Uri>>
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>> {
-    return this.makeRequest('PUT', uri, requestData);
+    return this.makeRequest('PUT', uri, ...requestData);
   }
 
-  patch<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<FetchRawResponseBody, ParsedBodyType, RequestInit>
+  patch<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...requestData: RequestDataArgs<Uri, FetchRequestData<ParsedBodyType, Uri>>
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>> {
-    return this.makeRequest('PATCH', uri, requestData);
+    return this.makeRequest('PATCH', uri, ...requestData);
   }
 
-  delete<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<FetchRawResponseBody, ParsedBodyType, RequestInit>
+  delete<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...requestData: RequestDataArgs<Uri, FetchRequestData<ParsedBodyType, Uri>>
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>> {
-    return this.makeRequest('DELETE', uri, requestData);
+    return this.makeRequest('DELETE', uri, ...requestData);
+  }
+
+  /**
+   * Encodes the provided request `body` with the codec for the provided `contentType`, or with the codec that can
+   * encode it if there's no `contentType`.
+   *
+   * @returns The encoded body, and the `Content-Type` to send it with, if fetch shouldn't set it itself.
+   */
+  #encodeBody(body: unknown, contentType: string | null): { body: BodyInit | undefined; contentType?: string } {
+    if (!body) {
+      return { body: body as BodyInit | undefined, contentType: contentType ?? undefined };
+    }
+
+    const codec = contentType
+      ? this._codecs.find(contentType)
+      : this._codecs.findEncoder(body) ?? this._codecs.find('application/json');
+    const encodedBody = codec?.encode ? codec.encode(body) : (body as BodyInit);
+    const requiredContentType = codec?.getContentType?.(body);
+
+    if (requiredContentType) {
+      return { body: encodedBody, contentType: requiredContentType };
+    }
+
+    // fetch sets the Content-Type of forms (with their boundary) and typed blobs from the body itself.
+    const isForm = typeof FormData !== 'undefined' && encodedBody instanceof FormData;
+    const isTypedBlob = typeof Blob !== 'undefined' && encodedBody instanceof Blob && !!encodedBody.type;
+
+    if (isForm || (!contentType && isTypedBlob)) {
+      return { body: encodedBody };
+    }
+
+    return { body: encodedBody, contentType: contentType ?? codec?.mediaType };
+  }
+
+  #decodeBody(response: Response): Promise<unknown> {
+    const contentType = response.headers?.get('content-type');
+    const codec = contentType ? this._codecs.find(contentType) : undefined;
+
+    return codec?.decode ? codec.decode(response) : response.text();
+  }
+
+  #parseBaseUrl(baseUrl: string): UrlBase {
+    const urlBase = parseUrlBase(baseUrl);
+
+    if (!Object.values<string>(HttpProtocol).includes(urlBase.protocol)) {
+      throw new Error(
+        `Could not create FetchHttpClient. Provided base URL "${baseUrl}" does not use a supported protocol.`
+      );
+    }
+
+    return urlBase;
+  }
+
+  #getQueueKey(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      // Relative URLs have no host, so they all share a queue.
+      return '';
+    }
+  }
+
+  #isHttpErrorResponse(response: Response): boolean {
+    return !!response && (response.status < 200 || response.status >= 300);
   }
 
   #getNormalizedHeaders(headers?: HeadersInit): HeadersInit {
@@ -325,43 +1236,6 @@ export class FetchHttpClient implements IHttpClient<RequestInit, Request, Respon
   }
 }
 
-class RequestQueue {
-  #nextCallId = 0;
-  #queuedCalls: number[] = [];
-
-  get isEmpty(): boolean {
-    return this.#queuedCalls.length === 0;
-  }
-
-  enqueue(): number {
-    const id = this.#nextCallId;
-
-    this.#queuedCalls.push(id);
-
-    this.#nextCallId += 1;
-
-    return id;
-  }
-
-  dequeue(): number | undefined {
-    const el = this.#queuedCalls[0];
-
-    this.#queuedCalls = this.#queuedCalls.slice(1);
-
-    return el;
-  }
-
-  peek(): number | undefined {
-    return this.#queuedCalls[0];
-  }
-
-  remove(id: number): void {
-    const indexOfId = this.#queuedCalls.indexOf(id);
-
-    this.#queuedCalls = [...this.#queuedCalls.slice(0, indexOfId), ...this.#queuedCalls.slice(indexOfId + 1)];
-  }
-}
-
 /**
  * A default instance of {@link FetchHttpClient} for ease of use if you don't want to make an instance whenever you need
  * to make a request. This instance has no defaults specified.
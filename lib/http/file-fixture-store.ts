@@ -0,0 +1,31 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { FixtureStore } from './http-fixture';
+
+/**
+ * Stores a fixture as a JSON file. Only available in Node, via `@jtjs/networking/node`.
+ *
+ * @example
+ * ```ts
+ * const fixture = new HttpFixture(createFileFixtureStore('./fixtures/users.json'));
+ * ```
+ */
+export function createFileFixtureStore(path: string): FixtureStore {
+  return {
+    async read() {
+      try {
+        return JSON.parse(await readFile(path, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+
+        throw error;
+      }
+    },
+    async write(fixture) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    },
+  };
+}
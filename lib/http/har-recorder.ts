@@ -0,0 +1,552 @@
+import fetch, { Headers } from 'cross-fetch';
+import { getMediaType } from './body-codecs';
+import { FetchFunction } from './fetch-http-client.impl';
+import { iterateChunks } from './streaming';
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text?: string;
+    comment?: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: 'base64';
+    comment?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  /**
+   * How long the request took in total, in milliseconds.
+   */
+  time: number;
+  request: HarRequest;
+  /**
+   * The response. If the request failed without one, its status is `0` and `_error` describes the failure.
+   */
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  _error?: string;
+}
+
+/**
+ * A HAR 1.2 document, which browser developer tools and HAR viewers can open.
+ */
+export interface HarDocument {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarRecorderOptions {
+  /**
+   * Headers and query parameters whose values are replaced with `[REDACTED]`. Both are covered because credentials like
+   * API keys may be sent either way. Names aren't case-sensitive.
+   *
+   * Defaults to `['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'api-key', 'api_key',
+   * 'apikey', 'access_token']`.
+   */
+  redactHeaders?: string[];
+  /**
+   * Fields of JSON and form bodies whose values are replaced with `[REDACTED]`, at any depth. Names aren't
+   * case-sensitive. A body that has to be redacted but can't be parsed (e.g., because it was truncated) is left out.
+   *
+   * Defaults to no fields.
+   *
+   * @example
+   * ```ts
+   * redactBodyFields: ['password', 'accessToken']
+   * ```
+   */
+  redactBodyFields?: string[];
+  /**
+   * The most bytes of each request and response body that are kept. Longer bodies are truncated.
+   *
+   * Defaults to `65_536` (64 KiB).
+   */
+  maxBodySize?: number;
+  /**
+   * The most the recorded entries may add up to, in bytes of JSON. Once exceeded, the oldest entries are dropped.
+   *
+   * Defaults to `5_242_880` (5 MiB).
+   */
+  maxSize?: number;
+  /**
+   * The function requests are sent with.
+   *
+   * Defaults to `fetch` from `cross-fetch`.
+   */
+  fetch?: FetchFunction;
+}
+
+const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'api-key',
+  'api_key',
+  'apikey',
+  'access_token',
+];
+
+// A body that's streamed as it's produced may never end, so waiting to record it could wait forever.
+const STREAMED_MEDIA_TYPES = ['text/event-stream'];
+
+const TEXTUAL_MEDIA_TYPE_REGEX = /^text\/|[/+](json|xml|csv|javascript)$|^application\/x-www-form-urlencoded$/;
+
+const encoder = new TextEncoder();
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Reads up to `maxSize` bytes of the provided `stream`, then stops reading it.
+ */
+async function readBytes(
+  stream: ReadableStream<Uint8Array> | null,
+  maxSize: number
+): Promise<{ bytes: Uint8Array; size: number; isTruncated: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of iterateChunks(stream)) {
+    chunks.push(chunk);
+    size += chunk.byteLength;
+
+    if (size > maxSize) {
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.min(size, maxSize));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.byteLength - offset);
+
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+
+  return { bytes, size, isTruncated: size > maxSize };
+}
+
+/**
+ * Records the requests a `FetchHttpClient` sends and the responses they receive, to export them as a HAR (HTTP
+ * Archive) document. Useful for capturing exactly what happened when something goes wrong, e.g., to attach to a bug
+ * report.
+ *
+ * Pass the recorder's `fetch` to the client. Every attempt at a request is recorded as it was sent, including headers
+ * and query parameters the client added (like credentials), so sensitive headers, query parameters, and body fields
+ * are redacted. Bodies are truncated and the oldest entries dropped according to `maxBodySize` and `maxSize`, so the
+ * recorder can be left on.
+ *
+ * An entry is recorded once its response body was received, or the request failed. The bodies of streamed responses
+ * (`text/event-stream`) aren't recorded, since they may never end, so their entries are recorded once their headers
+ * were received.
+ *
+ * @example
+ * ```ts
+ * const recorder = new HarRecorder({ redactBodyFields: ['password'] });
+ * const client = new FetchHttpClient({ baseUrl: 'https://api.example.com', fetch: recorder.fetch });
+ *
+ * reportBugButton.onclick = () => attachToReport(JSON.stringify(recorder.export()));
+ * ```
+ */
+export class HarRecorder {
+  #entries: { entry: HarEntry; size: number }[] = [];
+  #size = 0;
+  #pending = new Set<Promise<void>>();
+
+  protected _redactHeaders: string[];
+  protected _redactBodyFields: string[];
+  protected _maxBodySize: number;
+  protected _maxSize: number;
+  protected _fetch: FetchFunction;
+
+  /**
+   * The recorded entries, oldest first.
+   */
+  get entries(): HarEntry[] {
+    return this.#entries.map(({ entry }) => entry);
+  }
+
+  constructor(options: HarRecorderOptions = {}) {
+    const { maxBodySize = 65_536, maxSize = 5_242_880 } = options;
+
+    if (!(maxBodySize >= 0)) {
+      throw new Error(`Could not create HarRecorder. Provided maxBodySize "${maxBodySize}" is not valid.`);
+    }
+
+    if (!(maxSize > 0)) {
+      throw new Error(`Could not create HarRecorder. Provided maxSize "${maxSize}" is not valid.`);
+    }
+
+    this._redactHeaders = (options.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map((name) => name.toLowerCase());
+    this._redactBodyFields = (options.redactBodyFields ?? []).map((name) => name.toLowerCase());
+    this._maxBodySize = maxBodySize;
+    this._maxSize = maxSize;
+    this._fetch = options.fetch ?? fetch;
+  }
+
+  /**
+   * Sends a request and records it. Pass it as the `fetch` of a `FetchHttpClient`.
+   */
+  fetch: FetchFunction = async (url, init) => {
+    const startedAt = Date.now();
+    const request = await this.#createRequest(url, init);
+
+    let response: Response;
+    try {
+      response = await this._fetch(url, init);
+    } catch (error) {
+      this.#add({
+        ...this.#createEntry(startedAt, Date.now() - startedAt, 0, request, this.#createEmptyResponse()),
+        _error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+      });
+
+      throw error;
+    }
+
+    const headersReceivedAt = Date.now();
+
+    if (STREAMED_MEDIA_TYPES.includes(getMediaType(response.headers.get('content-type') ?? ''))) {
+      this.#add(
+        this.#createEntry(startedAt, headersReceivedAt - startedAt, 0, request, this.#createStreamedResponse(response))
+      );
+
+      return response;
+    }
+
+    // The body is read from a copy, so the client can read the response as it's received.
+    const capture = this.#createResponse(response.clone()).then(
+      (harResponse) => {
+        const receiveMs = Date.now() - headersReceivedAt;
+
+        this.#add(this.#createEntry(startedAt, headersReceivedAt - startedAt, receiveMs, request, harResponse));
+      },
+      () => {
+        // The request was aborted or failed while its body was received, which the client reports.
+      }
+    );
+
+    this.#pending.add(capture);
+    capture.finally(() => this.#pending.delete(capture));
+
+    return response;
+  };
+
+  /**
+   * Waits for the entries of requests whose bodies are still being received to be recorded.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.#pending);
+  }
+
+  /**
+   * Removes every recorded entry.
+   */
+  clear(): void {
+    this.#entries = [];
+    this.#size = 0;
+  }
+
+  /**
+   * Exports the recorded entries as a HAR 1.2 document. Serialize it with `JSON.stringify` to save it as a `.har` file.
+   */
+  export(): HarDocument {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: '@jtjs/networking', version: __PACKAGE_VERSION__ },
+        entries: this.entries,
+      },
+    };
+  }
+
+  toJSON(): HarDocument {
+    return this.export();
+  }
+
+  #add(entry: HarEntry): void {
+    const size = encoder.encode(JSON.stringify(entry)).byteLength;
+
+    this.#entries.push({ entry, size });
+    this.#size += size;
+
+    while (this.#size > this._maxSize && this.#entries.length > 0) {
+      this.#size -= this.#entries.shift()!.size;
+    }
+  }
+
+  #createEntry(
+    startedAt: number,
+    waitMs: number,
+    receiveMs: number,
+    request: HarRequest,
+    response: HarResponse
+  ): HarEntry {
+    return {
+      startedDateTime: new Date(startedAt).toISOString(),
+      time: waitMs + receiveMs,
+      request,
+      response,
+      cache: {},
+      timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: waitMs, receive: receiveMs, ssl: -1 },
+    };
+  }
+
+  async #createRequest(url: string, init: RequestInit): Promise<HarRequest> {
+    const headers = new Headers(init.headers);
+    const mimeType = headers.get('content-type') ?? '';
+
+    let bodyText: string | undefined;
+    let bodySize = 0;
+    if (typeof init.body === 'string' || init.body instanceof URLSearchParams) {
+      bodyText = init.body.toString();
+      bodySize = encoder.encode(bodyText).byteLength;
+    } else if (typeof Blob !== 'undefined' && init.body instanceof Blob) {
+      bodySize = init.body.size;
+      bodyText = TEXTUAL_MEDIA_TYPE_REGEX.test(getMediaType(mimeType || init.body.type))
+        ? await init.body.slice(0, this._maxBodySize + 1).text()
+        : undefined;
+    } else if (init.body) {
+      bodySize = -1;
+    }
+
+    return {
+      method: (init.method ?? 'GET').toUpperCase(),
+      url: this.#redactUrl(url),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: this.#getHarHeaders(headers),
+      queryString: [...new URL(url, 'http://localhost').searchParams.entries()].map(([name, value]) => ({
+        name,
+        value: this.#isRedactedName(name) ? REDACTED : value,
+      })),
+      ...(init.body
+        ? {
+            postData: {
+              mimeType,
+              ...(bodyText !== undefined
+                ? this.#getBodyText(bodyText, mimeType, encoder.encode(bodyText).byteLength > this._maxBodySize)
+                : { comment: 'The body was not recorded.' }),
+            },
+          }
+        : undefined),
+      headersSize: -1,
+      bodySize,
+    };
+  }
+
+  async #createResponse(response: Response): Promise<HarResponse> {
+    const mimeType = response.headers.get('content-type') ?? '';
+    const { bytes, size, isTruncated } = await readBytes(response.body, this._maxBodySize);
+    const isTextual = TEXTUAL_MEDIA_TYPE_REGEX.test(getMediaType(mimeType));
+
+    let content: Omit<HarResponse['content'], 'size' | 'mimeType'>;
+    if (isTextual) {
+      content = this.#getBodyText(new TextDecoder().decode(bytes), mimeType, isTruncated);
+    } else {
+      content = {
+        text: encodeBase64(bytes),
+        encoding: 'base64',
+        ...(isTruncated ? { comment: `Truncated to ${this._maxBodySize} bytes.` } : undefined),
+      };
+    }
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: this.#getHarHeaders(response.headers),
+      content: { size: isTruncated ? -1 : size, mimeType, ...content },
+      redirectURL: response.headers.get('location') ?? '',
+      headersSize: -1,
+      bodySize: isTruncated ? -1 : size,
+    };
+  }
+
+  #createStreamedResponse(response: Response): HarResponse {
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: this.#getHarHeaders(response.headers),
+      content: {
+        size: -1,
+        mimeType: response.headers.get('content-type') ?? '',
+        comment: 'The body was not recorded because it is streamed.',
+      },
+      redirectURL: response.headers.get('location') ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    };
+  }
+
+  #createEmptyResponse(): HarResponse {
+    return {
+      status: 0,
+      statusText: '',
+      httpVersion: '',
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+    };
+  }
+
+  #getHarHeaders(headers: Headers): HarNameValue[] {
+    return [...headers.entries()].map(([name, value]) => ({
+      name,
+      value: this.#isRedactedName(name) ? REDACTED : value,
+    }));
+  }
+
+  #isRedactedName(name: string): boolean {
+    return this._redactHeaders.includes(name.toLowerCase());
+  }
+
+  /**
+   * Redacts the query parameters of the provided `url`. The URL is left as it is if none of them have to be redacted.
+   */
+  #redactUrl(url: string): string {
+    const [beforeFragment, ...fragment] = url.split('#');
+    const [path, ...query] = beforeFragment.split('?');
+    const searchParams = new URLSearchParams(query.join('?'));
+
+    if (![...searchParams.keys()].some((name) => this.#isRedactedName(name))) {
+      return url;
+    }
+
+    const redactedQuery = new URLSearchParams(
+      [...searchParams.entries()].map(([name, value]) => [name, this.#isRedactedName(name) ? REDACTED : value])
+    ).toString();
+
+    return [`${path}?${redactedQuery}`, ...fragment].join('#');
+  }
+
+  /**
+   * Truncates the provided body `text` and redacts its fields.
+   */
+  #getBodyText(text: string, mimeType: string, isTruncated: boolean): { text?: string; comment?: string } {
+    const truncatedText = isTruncated
+      ? new TextDecoder().decode(encoder.encode(text).subarray(0, this._maxBodySize))
+      : text;
+    const truncatedComment = isTruncated ? `Truncated to ${this._maxBodySize} bytes.` : undefined;
+    const redactedText = this.#redactBody(truncatedText, getMediaType(mimeType));
+
+    if (redactedText === undefined) {
+      return {
+        comment: ['The body was left out because it could not be redacted.', truncatedComment]
+          .filter(Boolean)
+          .join(' '),
+      };
+    }
+
+    return { text: redactedText, ...(truncatedComment ? { comment: truncatedComment } : undefined) };
+  }
+
+  /**
+   * Redacts the fields of a JSON or form body.
+   *
+   * @returns The redacted body, or `undefined` if it's JSON that can't be parsed.
+   */
+  #redactBody(text: string, mediaType: string): string | undefined {
+    if (this._redactBodyFields.length === 0) {
+      return text;
+    }
+
+    if (mediaType === 'application/x-www-form-urlencoded') {
+      const params = new URLSearchParams(text);
+
+      return new URLSearchParams(
+        [...params.entries()].map(([name, value]) => [
+          name,
+          this._redactBodyFields.includes(name.toLowerCase()) ? REDACTED : value,
+        ])
+      ).toString();
+    }
+
+    if (mediaType.endsWith('json')) {
+      try {
+        return JSON.stringify(this.#redactFields(JSON.parse(text)));
+      } catch {
+        return undefined;
+      }
+    }
+
+    return text;
+  }
+
+  #redactFields(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.#redactFields(item));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, fieldValue]) => [
+          name,
+          this._redactBodyFields.includes(name.toLowerCase()) ? REDACTED : this.#redactFields(fieldValue),
+        ])
+      );
+    }
+
+    return value;
+  }
+}
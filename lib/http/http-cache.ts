@@ -0,0 +1,390 @@
+import { Headers, Response } from 'cross-fetch';
+import { NormalizedHttpRequest } from './http-client.interface';
+import { HttpStatus } from './http-status.enum';
+
+/**
+ * How an individual request uses the client's cache.
+ *
+ * - `'default'`: Fresh responses come from the cache. Stale responses are revalidated with the server.
+ * - `'no-cache'`: Cached responses are always revalidated with the server, even if they're fresh.
+ * - `'force-cache'`: Cached responses are used even if they're stale. The server is only contacted if nothing is
+ *   cached.
+ * - `'no-store'`: The cache is bypassed entirely. Nothing is read from or written to it.
+ */
+export type HttpCacheMode = 'default' | 'no-cache' | 'force-cache' | 'no-store';
+
+/**
+ * A response as it's kept in an {@link HttpCacheStorage}. Entries only contain plain data, so they can be
+ * structured-cloned (e.g., into IndexedDB) or serialized.
+ */
+export interface HttpCacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  /**
+   * The raw response body.
+   */
+  body: ArrayBuffer;
+  /**
+   * When the entry was stored or last revalidated, in milliseconds since the epoch.
+   */
+  storedAt: number;
+  /**
+   * When the entry becomes stale, in milliseconds since the epoch.
+   */
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+  /**
+   * The values the request had for the headers the response's `Vary` header names. The entry is only used for
+   * requests with the same values.
+   */
+  varyHeaders: Record<string, string | null>;
+}
+
+/**
+ * Where an {@link HttpCache} keeps its entries. Implement this to back the cache with something like IndexedDB or
+ * the file system. Any method may be async.
+ */
+export interface HttpCacheStorage {
+  get(key: string): Promise<HttpCacheEntry | undefined> | HttpCacheEntry | undefined;
+  set(key: string, entry: HttpCacheEntry): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  keys(): Promise<string[]> | string[];
+}
+
+/**
+ * Keeps cache entries in memory. Once full, the least recently used entry is evicted to make room for a new one.
+ */
+export class MemoryCacheStorage implements HttpCacheStorage {
+  #entries = new Map<string, HttpCacheEntry>();
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  /**
+   * @param _maxEntries - The most entries the storage keeps at once. Defaults to `100`.
+   */
+  constructor(protected _maxEntries = 100) {}
+
+  get(key: string): HttpCacheEntry | undefined {
+    const entry = this.#entries.get(key);
+
+    if (entry) {
+      // Maps iterate in insertion order, so re-inserting marks the entry as the most recently used.
+      this.#entries.delete(key);
+      this.#entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  set(key: string, entry: HttpCacheEntry): void {
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+
+    while (this.#entries.size > this._maxEntries) {
+      this.#entries.delete(this.#entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.#entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.#entries.keys()];
+  }
+}
+
+export interface HttpCacheOptions {
+  /**
+   * Where the cache keeps its entries.
+   *
+   * Defaults to a {@link MemoryCacheStorage} with its default size.
+   */
+  storage?: HttpCacheStorage;
+  /**
+   * Whether stale responses are given back immediately while they're revalidated in the background. If revalidation
+   * fails, the stale response stays in the cache.
+   *
+   * Defaults to `false`.
+   */
+  staleWhileRevalidate?: boolean;
+}
+
+/**
+ * A URL, a glob where `*` matches anything (e.g., `'https://api.example.com/users/*'`), a regular expression, or
+ * a predicate.
+ */
+export type UrlPattern = string | RegExp | ((url: string) => boolean);
+
+interface CacheControl {
+  noStore: boolean;
+  noCache: boolean;
+  isPublic: boolean;
+  maxAge?: number;
+}
+
+const UNSAFE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+function parseCacheControl(value: string | null): CacheControl {
+  const directives = new Map(
+    (value ?? '')
+      .split(',')
+      .map((directive) => directive.trim().toLowerCase().split('='))
+      .filter(([name]) => !!name)
+      .map(([name, argument]) => [name, argument?.replace(/^"|"$/g, '')])
+  );
+
+  const maxAge = Number(directives.get('max-age'));
+
+  return {
+    noStore: directives.has('no-store'),
+    noCache: directives.has('no-cache'),
+    isPublic: directives.has('public'),
+    maxAge: directives.has('max-age') && !isNaN(maxAge) ? maxAge : undefined,
+  };
+}
+
+function urlPatternToPredicate(pattern: UrlPattern): (url: string) => boolean {
+  if (typeof pattern === 'function') {
+    return pattern;
+  }
+
+  if (pattern instanceof RegExp) {
+    return (url) => pattern.test(url);
+  }
+
+  const escapedParts = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  const regex = new RegExp(`^${escapedParts.join('.*')}$`);
+
+  return (url) => regex.test(url);
+}
+
+/**
+ * An HTTP cache for GET requests that honors `Cache-Control` and revalidates stale responses with `ETag` and
+ * `Last-Modified`.
+ */
+export class HttpCache {
+  #storage: HttpCacheStorage;
+
+  get storage(): HttpCacheStorage {
+    return this.#storage;
+  }
+
+  protected _staleWhileRevalidate: boolean;
+  get staleWhileRevalidate(): boolean {
+    return this._staleWhileRevalidate;
+  }
+
+  constructor(options: HttpCacheOptions = {}) {
+    this.#storage = options.storage ?? new MemoryCacheStorage();
+    this._staleWhileRevalidate = options.staleWhileRevalidate ?? false;
+  }
+
+  /**
+   * Whether the cache handles the provided `request` at all. Only GET requests are cached.
+   */
+  isCacheable(request: NormalizedHttpRequest<RequestInit>): boolean {
+    return request.method.toUpperCase() === 'GET';
+  }
+
+  /**
+   * Whether a successful `request` makes what's cached for its URL outdated. Only unsafe methods (POST, PUT, PATCH, and
+   * DELETE) do.
+   */
+  isInvalidatedBy(request: NormalizedHttpRequest<RequestInit>): boolean {
+    return UNSAFE_METHODS.includes(request.method.toUpperCase());
+  }
+
+  /**
+   * Gets the entry for the provided `request`, if there is one that matches it.
+   */
+  async match(request: NormalizedHttpRequest<RequestInit>): Promise<HttpCacheEntry | undefined> {
+    const entry = await this.#storage.get(this.#getKey(request));
+
+    const matchesVary = Object.entries(entry?.varyHeaders ?? {}).every(
+      ([name, value]) => (request.headers[name] ?? null) === value
+    );
+
+    return matchesVary ? entry : undefined;
+  }
+
+  isFresh(entry: HttpCacheEntry, now = Date.now()): boolean {
+    return now < entry.expiresAt;
+  }
+
+  /**
+   * Adds the headers that ask the server to only send the full response if the entry changed.
+   */
+  getConditionalRequest(
+    request: NormalizedHttpRequest<RequestInit>,
+    entry: HttpCacheEntry
+  ): NormalizedHttpRequest<RequestInit> {
+    return {
+      ...request,
+      headers: {
+        ...(entry.etag ? { 'if-none-match': entry.etag } : undefined),
+        ...(entry.lastModified ? { 'if-modified-since': entry.lastModified } : undefined),
+        ...request.headers,
+      },
+    };
+  }
+
+  /**
+   * Stores the provided `response` for the provided `request`, if the response allows it. Responses to authenticated
+   * requests are only stored if they're marked `public`, since one client may send requests on behalf of several users.
+   *
+   * @returns Whether the response was stored.
+   */
+  async store(
+    request: NormalizedHttpRequest<RequestInit>,
+    response: Response,
+    options: {
+      /**
+       * Whether the request carried credentials. Defaults to whether it has an `Authorization` header.
+       */
+      authenticated?: boolean;
+    } = {}
+  ): Promise<boolean> {
+    const { authenticated = !!request.headers.authorization } = options;
+    const cacheControl = parseCacheControl(response.headers.get('cache-control'));
+    const vary = response.headers.get('vary');
+    const etag = response.headers.get('etag') ?? undefined;
+    const lastModified = response.headers.get('last-modified') ?? undefined;
+    const freshnessMs = this.#getFreshnessMs(response, cacheControl);
+
+    const isStorable =
+      response.status === HttpStatus.OK &&
+      !cacheControl.noStore &&
+      vary?.trim() !== '*' &&
+      (!authenticated || cacheControl.isPublic) &&
+      (freshnessMs > 0 || !!etag || !!lastModified);
+
+    if (!isStorable) {
+      return false;
+    }
+
+    const now = Date.now();
+    const varyHeaderNames = (vary ?? '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    await this.#storage.set(this.#getKey(request), {
+      url: request.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers.entries()],
+      body: await response.clone().arrayBuffer(),
+      storedAt: now,
+      expiresAt: now + freshnessMs,
+      etag,
+      lastModified,
+      varyHeaders: Object.fromEntries(varyHeaderNames.map((name) => [name, request.headers[name] ?? null])),
+    });
+
+    return true;
+  }
+
+  /**
+   * Updates the provided `entry` with the headers of a `304` response, which confirmed the entry is still valid.
+   *
+   * @returns The updated entry.
+   */
+  async revalidate(
+    request: NormalizedHttpRequest<RequestInit>,
+    entry: HttpCacheEntry,
+    notModifiedResponse: Response
+  ): Promise<HttpCacheEntry> {
+    const headers = new Headers(entry.headers);
+    notModifiedResponse.headers.forEach((value, name) => {
+      headers.set(name, value);
+    });
+
+    const cacheControl = parseCacheControl(headers.get('cache-control'));
+    const now = Date.now();
+
+    const revalidatedEntry: HttpCacheEntry = {
+      ...entry,
+      headers: [...headers.entries()],
+      storedAt: now,
+      expiresAt: now + this.#getFreshnessMs(notModifiedResponse, cacheControl),
+      etag: headers.get('etag') ?? undefined,
+      lastModified: headers.get('last-modified') ?? undefined,
+    };
+
+    await this.#storage.set(this.#getKey(request), revalidatedEntry);
+
+    return revalidatedEntry;
+  }
+
+  /**
+   * Creates a new response from the provided `entry`. Every call creates a new response, so each one has an unread
+   * body.
+   */
+  toResponse(entry: HttpCacheEntry): Response {
+    return new Response(entry.body.slice(0), {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    });
+  }
+
+  /**
+   * Removes every entry whose URL matches the provided `pattern`.
+   *
+   * @example
+   * ```ts
+   * await client.cache?.invalidate('https://api.example.com/users/*');
+   * ```
+   */
+  async invalidate(pattern: UrlPattern): Promise<void> {
+    const matches = urlPatternToPredicate(pattern);
+
+    const keys = await this.#storage.keys();
+
+    await Promise.all(
+      keys.filter((key) => matches(this.#getUrlFromKey(key))).map((key) => this.#storage.delete(key))
+    );
+  }
+
+  /**
+   * Removes every entry.
+   */
+  async clear(): Promise<void> {
+    await this.invalidate(() => true);
+  }
+
+  #getFreshnessMs(response: Response, cacheControl: CacheControl): number {
+    if (cacheControl.noCache) {
+      return 0;
+    }
+
+    const ageMs = (Number(response.headers.get('age')) || 0) * 1000;
+
+    if (cacheControl.maxAge !== undefined) {
+      return Math.max(0, cacheControl.maxAge * 1000 - ageMs);
+    }
+
+    const expires = Date.parse(response.headers.get('expires') ?? '');
+    if (!isNaN(expires)) {
+      const date = Date.parse(response.headers.get('date') ?? '');
+
+      return Math.max(0, expires - (isNaN(date) ? Date.now() : date) - ageMs);
+    }
+
+    return 0;
+  }
+
+  #getKey(request: NormalizedHttpRequest<RequestInit>): string {
+    return `${request.method.toUpperCase()} ${request.url}`;
+  }
+
+  #getUrlFromKey(key: string): string {
+    return key.slice(key.indexOf(' ') + 1);
+  }
+}
@@ -1,26 +1,165 @@
 import { Event } from '@jtjs/event';
+import { HttpCacheMode } from './http-cache';
+import { PathParamNames, PathParams, PathParamValue } from './path-params';
+import { ProblemDetails } from './problem-details';
+import { QueryArrayFormat, QueryParams } from './query-string';
+import { ResponseSchema } from './response-validation';
+import { RetryPolicy } from './retry-policy';
+import { DownloadProgressHandler, ResponseStreamMode } from './streaming';
+import { UploadProgressHandler } from './upload-progress';
 
 export enum HttpProtocol {
   Http = 'http',
   Https = 'https',
 }
 
+/**
+ * The arguments a request's data is passed as, after its URI. When the URI is a string literal with placeholders, the
+ * request data and its `params` are required.
+ */
+export type RequestDataArgs<Uri extends string, RequestData> = string extends Uri
+  ? [requestData?: RequestData]
+  : [PathParamNames<Uri>] extends [never]
+  ? [requestData?: RequestData]
+  : [requestData: RequestData & { params: PathParams<Uri> }];
+
 export interface BasicHttpRequestData<
   RawResponseBodyType,
   ParsedResponseBodyType,
-  HttpRequestOptions
+  HttpRequestOptions,
+  PathParamsType = Record<string, PathParamValue>
 > {
   body?: any;
+  /**
+   * Values for the placeholders in a templated URI. Placeholders may be written as `:name` at the start of a path
+   * segment, or as `{name}` anywhere in the path. Values are percent-encoded. Every placeholder must have a value and
+   * every value must have a placeholder, otherwise the request fails with a `PathParamsError`.
+   *
+   * When the URI is a string literal, the expected parameters are inferred from its placeholders, and they're required
+   * if it has any.
+   *
+   * @example
+   * ```ts
+   * client.get('/users/:id/posts/{postId}', { params: { id: 'jo', postId: 5 } });
+   * ```
+   */
+  params?: PathParamsType;
+  /**
+   * Query parameters to add to the URI. They're merged with any query already in the URI, with these parameters taking
+   * precedence. Values may be nested objects, arrays, dates, and booleans.
+   *
+   * @example
+   * ```ts
+   * query: { search: 'cats', tags: ['cute', 'fluffy'], filter: { since: new Date() } }
+   * ```
+   */
+  query?: QueryParams;
+  /**
+   * How arrays in `query` are serialized. Overrides the client's setting, if it has one.
+   */
+  queryArrayFormat?: QueryArrayFormat;
   options?: Omit<HttpRequestOptions, 'method' | 'body'>;
   responseBodyParser?: (
     body: RawResponseBodyType
   ) => Promise<ParsedResponseBodyType> | ParsedResponseBodyType;
+  /**
+   * Validates the parsed body at runtime. The type of the body is inferred from the schema. If the body doesn't match,
+   * the request fails with a `ResponseValidationError` that carries the path to the invalid value. Like any other
+   * error, it's passed to listeners of the `onError` event and is only thrown if `allowThrow` is `true`.
+   *
+   * Accepts any Standard Schema (e.g., a Zod or Valibot schema), a `ResponseValidator`, or a type guard. Streamed bodies
+   * and the bodies of responses that fail because of `failOnHttpError` aren't validated.
+   *
+   * @example
+   * ```ts
+   * const { body } = await client.get('/users/:id', { params: { id: 5 }, schema: UserSchema, allowThrow: true });
+   * ```
+   */
+  schema?: ResponseSchema<ParsedResponseBodyType>;
+  /**
+   * Streams the response body instead of parsing it. The body is an async iterator over the raw chunks, the decoded
+   * text, its lines, or its newline-delimited JSON values, depending on the mode. The iterator throws if the request
+   * times out or is aborted while the body is read.
+   *
+   * If the request fails because of `failOnHttpError`, the body is parsed as usual instead, so the error carries it.
+   *
+   * @example
+   * ```ts
+   * const { body } = await client.get<ResponseStream<'ndjson', Row>>('/export', { stream: 'ndjson' });
+   *
+   * for await (const row of body!) {
+   *   // ...
+   * }
+   * ```
+   */
+  stream?: ResponseStreamMode;
+  /**
+   * Invoked as the response body is received, with the number of bytes received so far and the total from the
+   * `Content-Length` header, if known.
+   */
+  onDownloadProgress?: DownloadProgressHandler;
+  /**
+   * Invoked as the request body is sent, with the number of bytes sent so far and the size of the body, if known.
+   *
+   * Where the runtime supports streamed request bodies, progress is reported as the body is sent. Elsewhere, it's only
+   * reported when sending starts and once the response was received.
+   */
+  onUploadProgress?: UploadProgressHandler;
   /**
    * Whether the network operation is allowed to throw. By default, all network errors are caught and passed to
    * listeners of the `onError` event of the HTTP client implementation. If this is `true`, the implementation should
    * still catch errors to invoke the `onError` event, but afterwards should throw the error back.
    */
   allowThrow?: boolean;
+  /**
+   * Whether a response whose status isn't in the 200 series should be treated as an error. When `true`, such a response
+   * results in an `HttpError` (or one of its more specific subclasses, like `NotFoundError`) that carries the request,
+   * the response, and the parsed body. Like any other error, it's passed to listeners of the `onError` event and is only
+   * thrown if `allowThrow` is `true`.
+   *
+   * Overrides the client's setting, if it has one.
+   */
+  failOnHttpError?: boolean;
+  /**
+   * Whether to skip applying the client's credentials to this request. Useful for requests to public endpoints, or for
+   * the request that refreshes the client's credentials.
+   */
+  skipAuth?: boolean;
+  /**
+   * How this request uses the client's cache, if it has one. Defaults to `'default'`.
+   */
+  cache?: HttpCacheMode;
+  /**
+   * Whether this request may share a fetch with identical requests that are in flight, if the client deduplicates
+   * requests. Set to `false` to always make a fetch of its own. Defaults to `true`.
+   */
+  deduplicate?: boolean;
+  /**
+   * How important this request is compared to others waiting to be sent. Requests with a higher priority are sent
+   * first. Requests that have been waiting a while catch up, so lower priorities are never starved. Defaults to `0`.
+   */
+  priority?: number;
+  /**
+   * The queue this request waits in to be sent. Queues take turns, so requests in one queue aren't stuck behind a long
+   * backlog in another. Defaults to the host the request is sent to.
+   */
+  queueKey?: string;
+  /**
+   * Overrides for the client's retry policy that only apply to this request. Any properties that aren't
+   * specified fall back to the client's policy.
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+  /**
+   * The maximum amount of time the request may take, in milliseconds. Overrides the client's timeout, if it has one.
+   * When exceeded, the request is aborted and fails with a `RequestTimeoutError`.
+   */
+  timeoutMs?: number;
+  /**
+   * A signal that cancels the request when aborted. The signal is respected while the request is waiting to be sent
+   * (e.g., because of rate limiting), while it's in flight, and while its response body is being parsed. When aborted,
+   * the request fails with a `RequestAbortedError`.
+   */
+  signal?: AbortSignal;
 }
 
 export interface BasicHttpResponseData<ParsedResponseBodyType> {
@@ -36,8 +175,65 @@ export interface BasicHttpResponseData<ParsedResponseBodyType> {
    * Can be undefined if a network error prevented the request from being fulfilled.
    */
   body?: ParsedResponseBodyType;
+  /**
+   * The error that prevented the request from being fulfilled, if any. Only present if the error wasn't thrown.
+   */
+  error?: Error;
+  /**
+   * The problem details (RFC 7807) the response described, if its status isn't in the 200 series and its body is a
+   * problem details document. If the request failed because of the response's status, see the error's `problem`
+   * instead.
+   */
+  problem?: ProblemDetails;
+}
+
+/**
+ * A request as it's seen by middleware. By the time middleware sees the request, the client has already applied its
+ * defaults, resolved the URL, and serialized the body.
+ */
+export interface NormalizedHttpRequest<HttpRequestOptionsType> {
+  method: string;
+  /**
+   * The fully-resolved URL the request will be sent to.
+   */
+  url: string;
+  /**
+   * The headers that will be sent with the request. Header names are always lowercase.
+   */
+  headers: Record<string, string>;
+  /**
+   * The serialized body that will be sent with the request.
+   */
+  body?: any;
+  /**
+   * Any other options for the request.
+   */
+  options: Omit<HttpRequestOptionsType, 'method' | 'body' | 'headers'>;
 }
 
+export type HttpMiddlewareResult = Partial<BasicHttpResponseData<any>>;
+
+/**
+ * Passes the request on to the next middleware in the chain. After the last middleware, the request is actually sent.
+ *
+ * @param request - The request to pass on. Defaults to the request the calling middleware received.
+ *
+ * @returns A promise that resolves to the result of the rest of the chain.
+ */
+export type HttpMiddlewareNext<HttpRequestOptionsType> = (
+  request?: NormalizedHttpRequest<HttpRequestOptionsType>
+) => Promise<HttpMiddlewareResult>;
+
+/**
+ * Intercepts a request made by an HTTP client. Middleware can change the request before passing it to `next`, change
+ * the result `next` resolves to, handle errors `next` throws, or short-circuit the request entirely by returning a
+ * result without calling `next`.
+ */
+export type HttpMiddleware<HttpRequestOptionsType> = (
+  request: NormalizedHttpRequest<HttpRequestOptionsType>,
+  next: HttpMiddlewareNext<HttpRequestOptionsType>
+) => Promise<HttpMiddlewareResult> | HttpMiddlewareResult;
+
 export type SendRequestHandler<T> = (request: T) => void;
 export type ReceiveResponseHandler<T> = (response: T) => void;
 export type NetworkErrorHandler = (error: Error) => void;
@@ -57,7 +253,8 @@ export interface IHttpClient<
    */
   onReceiveResponse: Event<ReceiveResponseHandler<ResponseType>>;
   /**
-   * Triggered on a general network error. Does not occur on non-200 series responses.
+   * Triggered on a general network error. Does not occur on non-200 series responses unless the request was configured
+   * to fail on them via `failOnHttpError`.
    */
   onError: Event<NetworkErrorHandler>;
 
@@ -78,24 +275,46 @@ export interface IHttpClient<
    */
   defaultRequestOptions?: Partial<HttpRequestOptionsType>;
 
+  /**
+   * Adds middleware to the end of the client's middleware chain. Middleware runs in the order it was added, once per
+   * request. Errors thrown by the chain are handled like any other network error (i.e., they're passed to `onError` and
+   * respect `allowThrow`).
+   *
+   * @param middleware - The middleware to add.
+   *
+   * @returns A function that removes the middleware from the chain.
+   */
+  use(middleware: HttpMiddleware<HttpRequestOptionsType>): () => void;
+  /**
+   * Removes the provided `middleware` from the client's middleware chain. This is an alternative to calling the function
+   * returned by `use`.
+   *
+   * @param middleware - The middleware reference you passed to `use`.
+   */
+  removeMiddleware(middleware: HttpMiddleware<HttpRequestOptionsType>): void;
+
   /**
    * Perform a request with the specified method. Useful if the convenience functions don't provide the HTTP verb you need.
    *
    * @param method - The HTTP method to use.
    * @param uri - The URI to send the request to.
-   * @param requestData - Additional information to put on the request.
+   * @param requestData - Additional information to put on the request. Required if the URI has placeholders.
    *
    * @returns A promise that resolves to response data. The properties of the returned object may be undefined if a fetch
    * error occurred during processing. To globally address fetch errors made by this client, use the `onFetchError` event.
    * To address errors for individual requests, use the `allowThrow` option on the request and handle it via try/catch.
    */
-  makeRequest<ParsedBodyType = undefined>(
+  makeRequest<ParsedBodyType = undefined, Uri extends string = string>(
     method: string,
-    uri: string,
-    requestData?: BasicHttpRequestData<
-      RawResponseBodyType,
-      ParsedBodyType,
-      HttpRequestOptionsType
+    uri: Uri,
+    ...[requestData]: RequestDataArgs<
+      Uri,
+      BasicHttpRequestData<
+        RawResponseBodyType,
+        ParsedBodyType,
+        HttpRequestOptionsType,
+        PathParams<Uri>
+      >
     >
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>>;
 
@@ -103,21 +322,25 @@ export interface IHttpClient<
    * Convenience function for sending a GET request.
    *
    * @param uri - The URI to send the request to.
-   * @param requestData - Additional information to put on the request.
+   * @param requestData - Additional information to put on the request. Required if the URI has placeholders.
    *
    * @returns A promise that resolves to response data. The properties of the returned object may be undefined if a fetch
    * error occurred during processing. To globally address fetch errors made by this client, use the `onFetchError` event.
    * To address errors for individual requests, use the `allowThrow` option on the request and handle it via try/catch.
    */
-  get<ParsedBodyType = any>(
-    uri: string,
-    requestData?: Omit<
-      BasicHttpRequestData<
-        RawResponseBodyType,
-        ParsedBodyType,
-        HttpRequestOptionsType
-      >,
-      'body'
+  get<ParsedBodyType = any, Uri extends string = string>(
+    uri: Uri,
+    ...[requestData]: RequestDataArgs<
+      Uri,
+      Omit<
+        BasicHttpRequestData<
+          RawResponseBodyType,
+          ParsedBodyType,
+          HttpRequestOptionsType,
+          PathParams<Uri>
+        >,
+        'body'
+      >
     >
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>>;
 
@@ -125,18 +348,22 @@ export interface IHttpClient<
    * Convenience function for sending a POST request.
    *
    * @param uri - The URI to send the request to.
-   * @param requestData - Additional information to put on the request.
+   * @param requestData - Additional information to put on the request. Required if the URI has placeholders.
    *
    * @returns A promise that resolves to response data. The properties of the returned object may be undefined if a fetch
    * error occurred during processing. To globally address fetch errors made by this client, use the `onFetchError` event.
    * To address errors for individual requests, use the `allowThrow` option on the request and handle it via try/catch.
    */
-  post<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<
-      RawResponseBodyType,
-      ParsedBodyType,
-      HttpRequestOptionsType
+  post<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...[requestData]: RequestDataArgs<
+      Uri,
+      BasicHttpRequestData<
+        RawResponseBodyType,
+        ParsedBodyType,
+        HttpRequestOptionsType,
+        PathParams<Uri>
+      >
     >
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>>;
 
@@ -144,18 +371,22 @@ export interface IHttpClient<
    * Convenience function for sending a PUT request.
    *
    * @param uri - The URI to send the request to.
-   * @param requestData - Additional information to put on the request.
+   * @param requestData - Additional information to put on the request. Required if the URI has placeholders.
    *
    * @returns A promise that resolves to response data. The properties of the returned object may be undefined if a fetch
    * error occurred during processing. To globally address fetch errors made by this client, use the `onFetchError` event.
    * To address errors for individual requests, use the `allowThrow` option on the request and handle it via try/catch.
    */
-  put<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<
-      RawResponseBodyType,
-      ParsedBodyType,
-      HttpRequestOptionsType
+  put<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...[requestData]: RequestDataArgs<
+      Uri,
+      BasicHttpRequestData<
+        RawResponseBodyType,
+        ParsedBodyType,
+        HttpRequestOptionsType,
+        PathParams<Uri>
+      >
     >
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>>;
 
@@ -163,18 +394,22 @@ export interface IHttpClient<
    * Convenience function for sending a PATCH request.
    *
    * @param uri - The URI to send the request to.
-   * @param requestData - Additional information to put on the request.
+   * @param requestData - Additional information to put on the request. Required if the URI has placeholders.
    *
    * @returns A promise that resolves to response data. The properties of the returned object may be undefined if a fetch
    * error occurred during processing. To globally address fetch errors made by this client, use the `onFetchError` event.
    * To address errors for individual requests, use the `allowThrow` option on the request and handle it via try/catch.
    */
-  patch<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<
-      RawResponseBodyType,
-      ParsedBodyType,
-      HttpRequestOptionsType
+  patch<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...[requestData]: RequestDataArgs<
+      Uri,
+      BasicHttpRequestData<
+        RawResponseBodyType,
+        ParsedBodyType,
+        HttpRequestOptionsType,
+        PathParams<Uri>
+      >
     >
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>>;
 
@@ -182,18 +417,22 @@ export interface IHttpClient<
    * Convenience function for sending a DELETE request.
    *
    * @param uri - The URI to send the request to.
-   * @param requestData - Additional information to put on the request.
+   * @param requestData - Additional information to put on the request. Required if the URI has placeholders.
    *
    * @returns A promise that resolves to response data. The properties of the returned object may be undefined if a fetch
    * error occurred during processing. To globally address fetch errors made by this client, use the `onFetchError` event.
    * To address errors for individual requests, use the `allowThrow` option on the request and handle it via try/catch.
    */
-  delete<ParsedBodyType = undefined>(
-    uri: string,
-    requestData?: BasicHttpRequestData<
-      RawResponseBodyType,
-      ParsedBodyType,
-      HttpRequestOptionsType
+  delete<ParsedBodyType = undefined, Uri extends string = string>(
+    uri: Uri,
+    ...[requestData]: RequestDataArgs<
+      Uri,
+      BasicHttpRequestData<
+        RawResponseBodyType,
+        ParsedBodyType,
+        HttpRequestOptionsType,
+        PathParams<Uri>
+      >
     >
   ): Promise<Partial<BasicHttpResponseData<ParsedBodyType>>>;
 }
@@ -0,0 +1,252 @@
+import fetch, { Headers } from 'cross-fetch';
+import { getMediaType } from './body-codecs';
+import { UnmatchedRequestError } from './errors';
+import { FetchFunction } from './fetch-http-client.impl';
+
+/**
+ * A request and the response it received, as they're stored in a fixture.
+ */
+export interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    /**
+     * The body of the request, if it was sent as text.
+     */
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    /**
+     * How `body` is encoded. Textual bodies are stored as they are, and anything else as base64.
+     */
+    bodyEncoding: 'utf8' | 'base64';
+  };
+}
+
+export interface HttpFixtureData {
+  version: 1;
+  exchanges: RecordedExchange[];
+}
+
+/**
+ * Where a fixture is stored.
+ */
+export interface FixtureStore {
+  /**
+   * @returns The stored fixture, or `undefined` if there's none yet.
+   */
+  read(): Promise<HttpFixtureData | undefined>;
+  write(fixture: HttpFixtureData): Promise<void>;
+}
+
+/**
+ * - `'record'` sends requests for real, and records each request and its response.
+ * - `'replay'` answers requests with the recorded responses, without sending them.
+ */
+export type HttpFixtureMode = 'record' | 'replay';
+
+export interface HttpFixtureOptions {
+  /**
+   * Defaults to `'replay'`.
+   */
+  mode?: HttpFixtureMode;
+  /**
+   * Whether a request only replays a recorded response if it has the same body as the recorded request. Only bodies
+   * sent as text are compared.
+   *
+   * Defaults to `true`.
+   */
+  matchBody?: boolean;
+  /**
+   * Headers that are left out of recordings, so secrets don't end up in fixtures. Names aren't case-sensitive.
+   *
+   * Defaults to `['authorization', 'proxy-authorization', 'cookie', 'set-cookie']`.
+   */
+  omitHeaders?: string[];
+  /**
+   * The function requests are sent with when recording.
+   *
+   * Defaults to `fetch` from `cross-fetch`.
+   */
+  fetch?: FetchFunction;
+}
+
+const TEXTUAL_MEDIA_TYPE_REGEX = /^text\/|[/+](json|xml|csv|javascript)$|^application\/x-www-form-urlencoded$/;
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (character) => character.charCodeAt(0));
+}
+
+/**
+ * Records the requests a `FetchHttpClient` sends and the responses they receive, and later replays them, so tests
+ * against a real API can run offline and deterministically.
+ *
+ * Pass the fixture's `fetch` to the client. In `'record'` mode, call `save` once the requests are done.
+ *
+ * Requests are matched to recorded exchanges by their method, URL, and (unless `matchBody` is `false`) body. If a
+ * request was recorded several times, its responses are replayed in the order they were recorded, and the last one is
+ * repeated after that. A request that wasn't recorded fails with an {@link UnmatchedRequestError}.
+ *
+ * Fixtures can be stored anywhere via a {@link FixtureStore}. In Node, `createFileFixtureStore` from
+ * `@jtjs/networking/node` stores them as JSON files.
+ *
+ * @example
+ * ```ts
+ * import { createFileFixtureStore } from '@jtjs/networking/node';
+ *
+ * const fixture = new HttpFixture(createFileFixtureStore('./fixtures/users.json'), {
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ * });
+ * const client = new FetchHttpClient({ baseUrl: 'https://api.example.com', fetch: fixture.fetch });
+ *
+ * afterAll(() => fixture.save());
+ * ```
+ */
+export class HttpFixture {
+  #exchanges: RecordedExchange[] | undefined;
+  #loading: Promise<RecordedExchange[]> | undefined;
+  #replayCounts = new Map<string, number>();
+
+  protected _store: FixtureStore;
+  protected _mode: HttpFixtureMode;
+  get mode(): HttpFixtureMode {
+    return this._mode;
+  }
+
+  protected _matchBody: boolean;
+  protected _omitHeaders: string[];
+  protected _fetch: FetchFunction;
+
+  /**
+   * The exchanges that were recorded, or loaded to be replayed.
+   */
+  get exchanges(): RecordedExchange[] {
+    return [...(this.#exchanges ?? [])];
+  }
+
+  /**
+   * @param store - Where the fixture is stored.
+   */
+  constructor(store: FixtureStore, options: HttpFixtureOptions = {}) {
+    this._store = store;
+    this._mode = options.mode ?? 'replay';
+    this._matchBody = options.matchBody ?? true;
+    this._omitHeaders = (options.omitHeaders ?? ['authorization', 'proxy-authorization', 'cookie', 'set-cookie']).map(
+      (name) => name.toLowerCase()
+    );
+    this._fetch = options.fetch ?? fetch;
+
+    if (this._mode === 'record') {
+      this.#exchanges = [];
+    }
+  }
+
+  /**
+   * Sends a request, recording it or replaying its recorded response depending on the mode. Pass it as the `fetch` of
+   * a `FetchHttpClient`.
+   */
+  fetch: FetchFunction = async (url, init) =>
+    this._mode === 'record' ? this.#record(url, init) : this.#replay(url, init);
+
+  /**
+   * Writes the recorded exchanges to the store. Does nothing when replaying.
+   */
+  async save(): Promise<void> {
+    if (this._mode === 'record') {
+      await this._store.write({ version: 1, exchanges: this.#exchanges ?? [] });
+    }
+  }
+
+  async #record(url: string, init: RequestInit): Promise<Response> {
+    const response = await this._fetch(url, init);
+    const bytes = new Uint8Array(await response.clone().arrayBuffer());
+    const isTextual = TEXTUAL_MEDIA_TYPE_REGEX.test(getMediaType(response.headers.get('content-type') ?? ''));
+    const body = this.#getRequestBody(init);
+
+    this.#exchanges!.push({
+      request: {
+        method: (init.method ?? 'GET').toUpperCase(),
+        url,
+        headers: this.#getRecordedHeaders(init.headers),
+        ...(body !== undefined ? { body } : undefined),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.#getRecordedHeaders(response.headers),
+        body: isTextual ? new TextDecoder().decode(bytes) : encodeBase64(bytes),
+        bodyEncoding: isTextual ? 'utf8' : 'base64',
+      },
+    });
+
+    return response;
+  }
+
+  async #replay(url: string, init: RequestInit): Promise<Response> {
+    const exchanges = await this.#load();
+    const method = (init.method ?? 'GET').toUpperCase();
+    const body = this.#getRequestBody(init);
+
+    const matches = exchanges.filter(
+      ({ request }) =>
+        request.method === method &&
+        request.url === url &&
+        (!this._matchBody || request.body === undefined || request.body === body)
+    );
+
+    if (matches.length === 0) {
+      throw new UnmatchedRequestError(method, url);
+    }
+
+    const key = `${method} ${url} ${body ?? ''}`;
+    const replayCount = this.#replayCounts.get(key) ?? 0;
+    this.#replayCounts.set(key, replayCount + 1);
+
+    const { response } = matches[Math.min(replayCount, matches.length - 1)];
+    const responseBody = response.bodyEncoding === 'base64' ? decodeBase64(response.body) : response.body;
+
+    return new Response(response.body ? responseBody : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  async #load(): Promise<RecordedExchange[]> {
+    if (this.#exchanges) {
+      return this.#exchanges;
+    }
+
+    this.#loading ??= this._store.read().then((fixture) => (this.#exchanges = fixture?.exchanges ?? []));
+
+    return this.#loading;
+  }
+
+  #getRequestBody({ body }: RequestInit): string | undefined {
+    if (typeof body === 'string') {
+      return body;
+    }
+
+    return body instanceof URLSearchParams ? body.toString() : undefined;
+  }
+
+  #getRecordedHeaders(headers: HeadersInit | undefined): Record<string, string> {
+    return Object.fromEntries(
+      [...new Headers(headers).entries()].filter(([name]) => !this._omitHeaders.includes(name.toLowerCase()))
+    );
+  }
+}
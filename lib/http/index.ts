@@ -1,3 +1,26 @@
 export * from './http-client.interface';
+export * from './auth-providers';
+export * from './body-codecs';
+export * from './define-api';
+export * from './errors';
 export * from './fetch-http-client.impl';
-export * from './http-status.enum';
\ No newline at end of file
+export * from './har-recorder';
+export * from './http-cache';
+export * from './http-fixture';
+export * from './http-status.enum';
+export * from './mock-http-client';
+export * from './multipart';
+export * from './path-params';
+export * from './problem-details';
+export * from './query-string';
+export * from './request-deduplicator';
+export * from './request-metrics';
+export * from './request-scheduler';
+export * from './response-validation';
+export * from './resumable-download';
+export * from './retry-policy';
+export * from './sse-client';
+export * from './streaming';
+export * from './tracing';
+export * from './upload-progress';
+export * from './url';
\ No newline at end of file
@@ -0,0 +1,456 @@
+import { Headers } from 'cross-fetch';
+import { getMediaType } from './body-codecs';
+import { UnmatchedRequestError } from './errors';
+import { FetchHttpClient, FetchHttpClientOptions } from './fetch-http-client.impl';
+import { QueryParams, serializeQuery } from './query-string';
+import { joinUrlPaths } from './url';
+
+/**
+ * A request received by a {@link MockHttpClient}, as it would have been sent.
+ */
+export interface MockRequest {
+  method: string;
+  url: string;
+  /**
+   * The headers of the request. Header names are always lowercase.
+   */
+  headers: Record<string, string>;
+  query: URLSearchParams;
+  /**
+   * The body of the request as it would have been sent. JSON bodies are parsed.
+   */
+  body: unknown;
+}
+
+/**
+ * What a request must have, in addition to its method and path, to match.
+ */
+export interface MockRequestMatchers {
+  /**
+   * Query parameters the request must have. Parameters that aren't listed may have any value. Arrays must match
+   * exactly, in order.
+   */
+  query?: QueryParams | ((query: URLSearchParams) => boolean);
+  /**
+   * The body the request must have. Objects are compared by value.
+   */
+  body?: ((body: any) => boolean) | Record<string, unknown> | unknown[] | string | number | boolean | null;
+  /**
+   * Headers the request must have. Header names aren't case-sensitive.
+   */
+  headers?: Record<string, string>;
+}
+
+export interface MockReplyOptions {
+  /**
+   * Headers of the response. A body that's serialized as JSON gets `Content-Type: application/json` unless a
+   * `Content-Type` is provided.
+   */
+  headers?: HeadersInit;
+  /**
+   * How long to wait before responding. Aborting the request while it waits fails it as usual.
+   *
+   * Defaults to `0`.
+   */
+  delayMs?: number;
+}
+
+/**
+ * The method and path of a route. Paths are relative to the client's path, and may have placeholders, written as
+ * `:name` at the start of a segment or as `{name}` anywhere, and `*` wildcards. An absolute URL also matches the
+ * host. A regular expression is tested against the whole URL, including its query.
+ */
+export type MockPathPattern = string | RegExp;
+
+type MockReply = ({ status: number; body?: unknown } | { error: Error }) & MockReplyOptions;
+
+type MockExpectation = MockRequestMatchers & {
+  /**
+   * How many times the request must have been made. Defaults to at least once.
+   */
+  times?: number;
+};
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compiles a path pattern into a regular expression. Placeholders match a single segment, and `*` matches anything.
+ */
+function compilePathPattern(pattern: string): RegExp {
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(/(?<=^|\/):[A-Za-z_]\w*|\{[^{}/]+\}|\*/g)) {
+    source += `${escapeRegExp(pattern.slice(lastIndex, match.index))}${match[0] === '*' ? '.*' : '[^/]+'}`;
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return new RegExp(`^${source}${escapeRegExp(pattern.slice(lastIndex))}/?$`);
+}
+
+function formatTimes(times: number): string {
+  return times === 1 ? 'once' : `${times} times`;
+}
+
+/**
+ * Creates the response for a reply. Bodies that the fetch API can't send as they are, like plain objects, are sent as
+ * JSON.
+ */
+function createResponse({ status, body, headers }: Extract<MockReply, { status: number }>): Response {
+  const responseHeaders = new Headers(headers);
+
+  const isSendable =
+    typeof body === 'string' ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof URLSearchParams ||
+    body instanceof FormData ||
+    (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream);
+
+  if (body !== undefined && !isSendable && !responseHeaders.has('content-type')) {
+    responseHeaders.set('content-type', 'application/json');
+  }
+
+  return new Response(body === undefined ? null : isSendable ? (body as BodyInit) : JSON.stringify(body), {
+    status,
+    headers: Object.fromEntries(responseHeaders.entries()),
+  });
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeout);
+
+      reject(signal?.reason);
+    };
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/**
+ * A route of a {@link MockHttpClient}, and how it replies to the requests that match it.
+ *
+ * Replies added via `replyOnce` and `networkErrorOnce` are used once each, in the order they were added. After that,
+ * the reply added via `reply` or `networkError` is used for every request. A route with no replies left doesn't match.
+ */
+export class MockRoute {
+  #onceReplies: MockReply[] = [];
+  #reply: MockReply | undefined;
+
+  protected _method: string;
+  get method(): string {
+    return this._method;
+  }
+
+  protected _pattern: MockPathPattern;
+  get pattern(): MockPathPattern {
+    return this._pattern;
+  }
+
+  protected _matchers: MockRequestMatchers;
+  get matchers(): MockRequestMatchers {
+    return this._matchers;
+  }
+
+  protected _calls: MockRequest[] = [];
+  /**
+   * The requests this route replied to.
+   */
+  get calls(): MockRequest[] {
+    return [...this._calls];
+  }
+
+  /**
+   * Whether the route has a reply for the next request that matches it.
+   */
+  get hasReply(): boolean {
+    return this.#onceReplies.length > 0 || !!this.#reply;
+  }
+
+  /**
+   * @param method - The method of the requests to match, or `'*'` to match any method.
+   */
+  constructor(method: string, pattern: MockPathPattern, matchers: MockRequestMatchers = {}) {
+    this._method = method.toUpperCase();
+    this._pattern = pattern;
+    this._matchers = matchers;
+  }
+
+  /**
+   * Replies to every request with the provided status and body.
+   */
+  reply(status: number, body?: unknown, options: MockReplyOptions = {}): this {
+    this.#reply = { status, body, ...options };
+
+    return this;
+  }
+
+  /**
+   * Replies to the next request with the provided status and body.
+   */
+  replyOnce(status: number, body?: unknown, options: MockReplyOptions = {}): this {
+    this.#onceReplies.push({ status, body, ...options });
+
+    return this;
+  }
+
+  /**
+   * Fails every request as if the network failed.
+   *
+   * @param error - The error fetch fails with. Defaults to the `TypeError` browsers fail with.
+   */
+  networkError(error: Error = new TypeError('Failed to fetch'), options: Omit<MockReplyOptions, 'headers'> = {}): this {
+    this.#reply = { error, ...options };
+
+    return this;
+  }
+
+  /**
+   * Fails the next request as if the network failed.
+   *
+   * @param error - The error fetch fails with. Defaults to the `TypeError` browsers fail with.
+   */
+  networkErrorOnce(
+    error: Error = new TypeError('Failed to fetch'),
+    options: Omit<MockReplyOptions, 'headers'> = {}
+  ): this {
+    this.#onceReplies.push({ error, ...options });
+
+    return this;
+  }
+
+  /**
+   * Replies to the provided `request`. Used by the client that owns the route.
+   *
+   * @returns The response, or `undefined` if the route has no replies left.
+   */
+  async respond(request: MockRequest, signal?: AbortSignal | null): Promise<Response | undefined> {
+    const reply = this.#onceReplies.shift() ?? this.#reply;
+
+    if (!reply) {
+      return undefined;
+    }
+
+    this._calls.push(request);
+
+    if (reply.delayMs) {
+      await wait(reply.delayMs, signal);
+    }
+
+    if ('error' in reply) {
+      throw reply.error;
+    }
+
+    return createResponse(reply);
+  }
+}
+
+/**
+ * A `FetchHttpClient` whose requests never reach the network. Instead, they're answered by routes set up via `on`.
+ * Requests still go through everything else the client does, like encoding and decoding bodies, middleware, retries,
+ * and errors, so they behave as they would in production.
+ *
+ * A request that no route matches fails with an {@link UnmatchedRequestError}.
+ *
+ * @example
+ * ```ts
+ * const client = new MockHttpClient({ baseUrl: 'https://api.example.com' });
+ *
+ * client.on('GET', '/users/:id').reply(200, { id: 1, name: 'Jo' });
+ * client.on('POST', '/users', { body: { name: 'Bo' } }).replyOnce(201, { id: 2 }).replyOnce(409);
+ * client.on('GET', '/reports').networkErrorOnce();
+ *
+ * await createUser(client, 'Bo');
+ *
+ * client.assertCalled('POST', '/users', { times: 1 });
+ * ```
+ */
+export class MockHttpClient extends FetchHttpClient {
+  #routes: MockRoute[] = [];
+
+  protected _calls: MockRequest[] = [];
+  /**
+   * Every request the client received, including those no route matched.
+   */
+  get calls(): MockRequest[] {
+    return [...this._calls];
+  }
+
+  constructor(options: Omit<FetchHttpClientOptions, 'fetch'> = {}) {
+    super(options);
+
+    this._fetch = (url, init) => this.#respond(url, init);
+  }
+
+  /**
+   * Adds a route. Requests are answered by the first route that matches them and has a reply left.
+   *
+   * @param method - The method of the requests to match, or `'*'` to match any method.
+   * @param pattern - The path (or URL) of the requests to match. See {@link MockPathPattern}.
+   * @param matchers - What else a request must have to match.
+   *
+   * @returns The route, to set up its replies.
+   */
+  on(method: string, pattern: MockPathPattern, matchers?: MockRequestMatchers): MockRoute {
+    const route = new MockRoute(method, pattern, matchers);
+
+    this.#routes.push(route);
+
+    return route;
+  }
+
+  /**
+   * Removes every route and forgets every request.
+   */
+  reset(): void {
+    this.#routes = [];
+    this._calls = [];
+  }
+
+  /**
+   * Asserts that requests that match the provided method, pattern, and matchers were made.
+   *
+   * @throws {Error} When there were no such requests, or not as many as expected.
+   *
+   * @example
+   * ```ts
+   * client.assertCalled('POST', '/users', { body: { name: 'Bo' }, times: 1 });
+   * client.assertCalled('DELETE', '/users/:id', { times: 0 });
+   * ```
+   */
+  assertCalled(method: string, pattern: MockPathPattern, expectation: MockExpectation = {}): void {
+    const { times, ...matchers } = expectation;
+    const route = new MockRoute(method, pattern, matchers);
+    const callCount = this._calls.filter((request) => this.#matches(route, request)).length;
+
+    if (times === undefined ? callCount > 0 : callCount === times) {
+      return;
+    }
+
+    const description = `${route.method} ${pattern}`;
+    const actual = callCount === 0 ? 'it was never called' : `it was called ${formatTimes(callCount)}`;
+
+    let expected = `to be called ${formatTimes(times ?? 0)}`;
+    if (times === undefined) {
+      expected = 'to be called';
+    } else if (times === 0) {
+      expected = 'not to be called';
+    }
+
+    throw new Error(`Expected ${description} ${expected}, but ${actual}.`);
+  }
+
+  async #respond(url: string, init: RequestInit): Promise<Response> {
+    const request = this.#createRequest(url, init);
+
+    this._calls.push(request);
+
+    for (const route of this.#routes) {
+      if (route.hasReply && this.#matches(route, request)) {
+        const response = await route.respond(request, init.signal);
+
+        if (response) {
+          return response;
+        }
+      }
+    }
+
+    throw new UnmatchedRequestError(request.method, url);
+  }
+
+  #createRequest(url: string, init: RequestInit): MockRequest {
+    const headers = Object.fromEntries(new Headers(init.headers).entries());
+
+    let body: unknown = init.body ?? undefined;
+    if (typeof body === 'string' && getMediaType(headers['content-type'] ?? '').endsWith('json')) {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // The body is kept as it was sent.
+      }
+    }
+
+    return {
+      method: (init.method ?? 'GET').toUpperCase(),
+      url,
+      headers,
+      query: new URL(url, 'http://localhost').searchParams,
+      body,
+    };
+  }
+
+  #matches(route: MockRoute, request: MockRequest): boolean {
+    const { query, body, headers } = route.matchers;
+
+    return (
+      (route.method === '*' || route.method === request.method) &&
+      this.#matchesPath(route.pattern, request.url) &&
+      (query === undefined || this.#matchesQuery(query, request.query)) &&
+      (body === undefined || (typeof body === 'function' ? body(request.body) : isDeepEqual(body, request.body))) &&
+      Object.entries(headers ?? {}).every(([name, value]) => request.headers[name.toLowerCase()] === value)
+    );
+  }
+
+  #matchesPath(pattern: MockPathPattern, url: string): boolean {
+    if (pattern instanceof RegExp) {
+      return pattern.test(url);
+    }
+
+    const { origin, pathname } = new URL(url, 'http://localhost');
+
+    if (/^[a-z][a-z\d+.-]*:\/\//i.test(pattern)) {
+      return compilePathPattern(pattern).test(`${origin}${pathname}`);
+    }
+
+    return compilePathPattern(joinUrlPaths(this._path, pattern)).test(pathname);
+  }
+
+  #matchesQuery(query: NonNullable<MockRequestMatchers['query']>, actual: URLSearchParams): boolean {
+    if (typeof query === 'function') {
+      return query(actual);
+    }
+
+    const expected = new URLSearchParams(serializeQuery(query, { arrayFormat: this._queryArrayFormat }));
+
+    return [...new Set(expected.keys())].every((name) => isDeepEqual(expected.getAll(name), actual.getAll(name)));
+  }
+}
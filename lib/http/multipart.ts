@@ -0,0 +1,218 @@
+import { iterateChunks } from './streaming';
+
+/**
+ * Content that's read as it's sent, like a web `ReadableStream` or a Node readable stream (e.g., from
+ * `fs.createReadStream`).
+ */
+export type MultipartStream = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>;
+
+/**
+ * A value for a part of a multipart form. Strings, numbers, and booleans are sent as plain fields. Everything else is
+ * sent as a file. Node `Buffer`s are `Uint8Array`s, so they're supported too.
+ */
+export type MultipartValue = string | number | boolean | Blob | ArrayBuffer | ArrayBufferView | MultipartStream;
+
+export interface MultipartPartOptions {
+  /**
+   * The name of the file the part is sent as. Ignored for plain fields unless provided.
+   *
+   * Defaults to the name of a `File`, or else `'blob'`.
+   */
+  filename?: string;
+  /**
+   * The media type of the part's content.
+   *
+   * Defaults to the type of a `Blob`, or else `application/octet-stream` for files and no type for plain fields.
+   */
+  contentType?: string;
+}
+
+interface MultipartPart {
+  headers: string;
+  content: string | Blob | Uint8Array | MultipartStream;
+}
+
+const encoder = new TextEncoder();
+
+function isStream(value: unknown): value is MultipartStream {
+  return (
+    (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream) ||
+    (typeof value === 'object' && value !== null && Symbol.asyncIterator in value)
+  );
+}
+
+/**
+ * Escapes a name for a `Content-Disposition` header the way browsers do for forms.
+ */
+function escapeDispositionValue(value: string): string {
+  return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function createBoundary(): string {
+  const bytes = new Uint8Array(12);
+
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => (bytes[index] = Math.floor(Math.random() * 256)));
+  }
+
+  return `----JtjsFormBoundary${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Builds a `multipart/form-data` body from fields, blobs, binary data, and streams. Unlike `FormData`, the parts can
+ * be streams, which are read as the body is sent rather than all at once beforehand.
+ *
+ * A builder can be sent as a request's body directly, in which case its `Content-Type` (with its boundary) is set
+ * automatically.
+ *
+ * @example
+ * ```ts
+ * const form = new MultipartBuilder()
+ *   .append('title', 'Holiday')
+ *   .append('photo', fs.createReadStream('./photo.jpg'), { filename: 'photo.jpg', contentType: 'image/jpeg' });
+ *
+ * await client.post('/photos', { body: form, onUploadProgress: ({ loaded }) => console.log(loaded) });
+ * ```
+ */
+export class MultipartBuilder {
+  #parts: MultipartPart[] = [];
+
+  protected _boundary: string;
+  get boundary(): string {
+    return this._boundary;
+  }
+
+  /**
+   * The `Content-Type` the body must be sent with.
+   */
+  get contentType(): string {
+    return `multipart/form-data; boundary=${this._boundary}`;
+  }
+
+  /**
+   * Whether any part is a stream, in which case the body is built as a stream.
+   */
+  get isStreamed(): boolean {
+    return this.#parts.some(({ content }) => isStream(content));
+  }
+
+  /**
+   * The length of the body in bytes, or `undefined` if a part is a stream.
+   */
+  get length(): number | undefined {
+    if (this.isStreamed) {
+      return undefined;
+    }
+
+    return this.#getChunks().reduce(
+      (length: number, chunk) => length + (chunk instanceof Uint8Array ? chunk.byteLength : (chunk as Blob).size),
+      0
+    );
+  }
+
+  /**
+   * @param boundary - The boundary between parts. Defaults to a random boundary.
+   */
+  constructor(boundary = createBoundary()) {
+    if (!/^[\w'()+,./:=?-]{1,70}$/.test(boundary)) {
+      throw new Error(`Could not create MultipartBuilder. Provided boundary "${boundary}" is not valid.`);
+    }
+
+    this._boundary = boundary;
+  }
+
+  /**
+   * Adds a part to the form. Parts are sent in the order they're added, and several may have the same name.
+   */
+  append(name: string, value: MultipartValue, options: MultipartPartOptions = {}): this {
+    const isField = typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+    let { filename, contentType } = options;
+    if (!isField) {
+      filename ??= typeof File !== 'undefined' && value instanceof File ? value.name : 'blob';
+      contentType ??= (typeof Blob !== 'undefined' && value instanceof Blob && value.type) || 'application/octet-stream';
+    }
+
+    const disposition = `form-data; name="${escapeDispositionValue(name)}"${
+      filename !== undefined ? `; filename="${escapeDispositionValue(filename)}"` : ''
+    }`;
+
+    let content: MultipartPart['content'];
+    if (isField) {
+      content = String(value);
+    } else if (value instanceof ArrayBuffer) {
+      content = new Uint8Array(value);
+    } else if (ArrayBuffer.isView(value)) {
+      content = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    } else {
+      content = value;
+    }
+
+    this.#parts.push({
+      headers: `Content-Disposition: ${disposition}\r\n${contentType ? `Content-Type: ${contentType}\r\n` : ''}`,
+      content,
+    });
+
+    return this;
+  }
+
+  /**
+   * Builds the body. It's a `Blob` whose type is the `Content-Type`, unless a part is a stream, in which case it's a
+   * `ReadableStream` that reads the parts as it's read. A streamed body can only be sent once.
+   */
+  build(): Blob | ReadableStream<Uint8Array> {
+    const chunks = this.#getChunks();
+
+    if (!this.isStreamed) {
+      return new Blob(chunks as BlobPart[], { type: this.contentType });
+    }
+
+    const iterator = this.#iterateChunks(chunks);
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await iterator.next();
+
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel(reason) {
+        await iterator.return?.(reason);
+      },
+    });
+  }
+
+  #getChunks(): MultipartPart['content'][] {
+    return [
+      ...this.#parts.flatMap(({ headers, content }) => [
+        encoder.encode(`--${this._boundary}\r\n${headers}\r\n`),
+        typeof content === 'string' ? encoder.encode(content) : content,
+        encoder.encode('\r\n'),
+      ]),
+      encoder.encode(`--${this._boundary}--\r\n`),
+    ];
+  }
+
+  async *#iterateChunks(chunks: MultipartPart['content'][]): AsyncGenerator<Uint8Array> {
+    for (const chunk of chunks) {
+      if (chunk instanceof Uint8Array) {
+        yield chunk;
+      } else if (typeof Blob !== 'undefined' && chunk instanceof Blob) {
+        yield* iterateChunks(chunk.stream());
+      } else {
+        for await (const streamChunk of iterateChunks(chunk as ReadableStream<Uint8Array>)) {
+          yield typeof streamChunk === 'string' ? encoder.encode(streamChunk) : streamChunk;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { PathParamsError } from './errors';
+
+export type PathParamValue = string | number | boolean | bigint;
+
+type StripQueryAndFragment<Template extends string> = Template extends `${infer Path}?${string}`
+  ? StripQueryAndFragment<Path>
+  : Template extends `${infer Path}#${string}`
+  ? Path
+  : Template;
+
+type Segments<Path extends string> = Path extends `${infer Head}/${infer Tail}` ? Head | Segments<Tail> : Path;
+
+type TrimParamName<Name extends string> = Name extends `${infer Trimmed}.${string}`
+  ? TrimParamName<Trimmed>
+  : Name extends `${infer Trimmed}-${string}`
+  ? TrimParamName<Trimmed>
+  : Name;
+
+type ColonParamName<Segment extends string> = Segment extends `:${infer Name}` ? TrimParamName<Name> : never;
+
+type BraceParamNames<Segment extends string> = Segment extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | BraceParamNames<Rest>
+  : never;
+
+/**
+ * The names of the placeholders in a URI template. Placeholders may be written as `:name` at the start of a path
+ * segment, or as `{name}` anywhere in the path.
+ *
+ * @example
+ * ```ts
+ * PathParamNames<'/users/:id/posts/{postId}'> // 'id' | 'postId'
+ * ```
+ */
+export type PathParamNames<Template extends string> = Segments<StripQueryAndFragment<Template>> extends infer Segment
+  ? Segment extends string
+    ? ColonParamName<Segment> | BraceParamNames<Segment>
+    : never
+  : never;
+
+/**
+ * The parameters required to fill in the placeholders of a URI template. If the template isn't known at compile time,
+ * any parameters are allowed.
+ */
+export type PathParams<Template extends string> = string extends Template
+  ? Record<string, PathParamValue>
+  : [PathParamNames<Template>] extends [never]
+  ? Record<string, never>
+  : { [Name in PathParamNames<Template>]: PathParamValue };
+
+const PLACEHOLDER_REGEX = /(?<=^|\/):([A-Za-z_][\w]*)|\{([^{}/]+)\}/g;
+
+/**
+ * Fills in the placeholders of a URI template with the provided `params`. Values are percent-encoded, so they're
+ * always placed in a single path segment. Only the path is treated as a template; the query and fragment are left
+ * as they are.
+ *
+ * @throws {PathParamsError} When a placeholder has no parameter, or a parameter has no placeholder.
+ *
+ * @example
+ * ```ts
+ * interpolatePath('/users/:id/posts/{postId}', { id: 'jo smith', postId: 5 }); // '/users/jo%20smith/posts/5'
+ * ```
+ */
+export function interpolatePath<Template extends string>(template: Template, params: PathParams<Template>): string {
+  const paramValues = params as Record<string, PathParamValue | undefined>;
+
+  const pathEndIndex = template.search(/[?#]/);
+  const path = pathEndIndex === -1 ? template : template.slice(0, pathEndIndex);
+  const rest = pathEndIndex === -1 ? '' : template.slice(pathEndIndex);
+
+  const missingParams: string[] = [];
+  const usedParams = new Set<string>();
+
+  const interpolatedPath = path.replace(PLACEHOLDER_REGEX, (placeholder, colonName?: string, braceName?: string) => {
+    const name = (colonName ?? braceName)!;
+    const value = paramValues[name];
+
+    if (value === undefined || value === null) {
+      missingParams.push(name);
+
+      return placeholder;
+    }
+
+    usedParams.add(name);
+
+    return encodeURIComponent(String(value));
+  });
+
+  const extraParams = Object.keys(paramValues).filter((name) => !usedParams.has(name) && !missingParams.includes(name));
+
+  if (missingParams.length > 0 || extraParams.length > 0) {
+    throw new PathParamsError(template, missingParams, extraParams);
+  }
+
+  return `${interpolatedPath}${rest}`;
+}
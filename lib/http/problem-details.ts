@@ -0,0 +1,94 @@
+import { getMediaType } from './body-codecs';
+
+export const PROBLEM_DETAILS_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * A description of an error returned by an HTTP API, as defined by RFC 7807. Members the API added beyond the
+ * standard ones (extension members) are kept as they are. Type them via `Extensions`.
+ *
+ * @example
+ * ```ts
+ * const problem = error.problem as ProblemDetails<{ errors: { field: string; message: string }[] }>;
+ * ```
+ */
+export type ProblemDetails<Extensions extends object = Record<string, unknown>> = {
+  /**
+   * A URI reference that identifies the type of problem. Defaults to `about:blank`, meaning the problem has no more
+   * meaning than its status.
+   */
+  type: string;
+  /**
+   * A short, human-readable summary of the type of problem.
+   */
+  title?: string;
+  /**
+   * The HTTP status the server generated for this occurrence of the problem.
+   */
+  status?: number;
+  /**
+   * A human-readable explanation specific to this occurrence of the problem.
+   */
+  detail?: string;
+  /**
+   * A URI reference that identifies this occurrence of the problem.
+   */
+  instance?: string;
+} & Partial<Extensions>;
+
+export interface ProblemInfo {
+  problem: ProblemDetails;
+  method: string;
+  url: string;
+  response: Response;
+}
+
+export type ProblemHandler = (info: ProblemInfo) => void;
+
+const STRING_MEMBERS = ['type', 'title', 'detail', 'instance'] as const;
+
+/**
+ * Whether the provided `contentType` is that of a problem details document.
+ */
+export function isProblemDetailsContentType(contentType: string | null | undefined): boolean {
+  return !!contentType && getMediaType(contentType) === PROBLEM_DETAILS_MEDIA_TYPE;
+}
+
+/**
+ * Parses the provided problem details document. Standard members with the wrong type are ignored, as RFC 7807
+ * requires, and `type` defaults to `about:blank`.
+ *
+ * @returns The problem details, or `undefined` if the document isn't an object.
+ */
+export function parseProblemDetails(document: unknown): ProblemDetails | undefined {
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    return undefined;
+  }
+
+  const problem: Record<string, unknown> = { ...document };
+
+  for (const member of STRING_MEMBERS) {
+    if (member in problem && typeof problem[member] !== 'string') {
+      delete problem[member];
+    }
+  }
+
+  if ('status' in problem && !Number.isInteger(problem.status)) {
+    delete problem.status;
+  }
+
+  return { ...problem, type: (problem.type as string | undefined) ?? 'about:blank' } as ProblemDetails;
+}
+
+/**
+ * Gets the problem details a response describes, if it failed (i.e., its status isn't in the 200 series) and its body
+ * is a problem details document.
+ *
+ * @param body - The parsed body of the response.
+ */
+export function getProblemDetails(response: Response | undefined, body: unknown): ProblemDetails | undefined {
+  if (!response || (response.status >= 200 && response.status < 300)) {
+    return undefined;
+  }
+
+  return isProblemDetailsContentType(response.headers?.get('content-type')) ? parseProblemDetails(body) : undefined;
+}
@@ -0,0 +1,158 @@
+export type QueryPrimitive = string | number | boolean | bigint | Date | null | undefined;
+export type QueryValue = QueryPrimitive | QueryValue[] | QueryParams;
+
+/**
+ * Parameters to serialize into a query string. Values may be nested objects, arrays, dates, and booleans.
+ * Properties whose value is `null` or `undefined` are left out.
+ */
+export interface QueryParams {
+  [key: string]: QueryValue;
+}
+
+/**
+ * How arrays of primitives are serialized.
+ *
+ * - `'repeat'`: `ids=1&ids=2`
+ * - `'comma'`: `ids=1,2`
+ * - `'brackets'`: `ids[]=1&ids[]=2`
+ *
+ * Arrays of objects are always serialized with their index (e.g., `users[0][name]=Jo`) so their properties
+ * can be told apart.
+ */
+export type QueryArrayFormat = 'repeat' | 'comma' | 'brackets';
+
+export interface QuerySerializationOptions {
+  /**
+   * Defaults to `'repeat'`.
+   */
+  arrayFormat?: QueryArrayFormat;
+}
+
+function isNil(value: QueryValue): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function isPrimitive(value: QueryValue): value is QueryPrimitive {
+  return value === null || value === undefined || value instanceof Date || typeof value !== 'object';
+}
+
+function stringifyPrimitive(value: Exclude<QueryPrimitive, null | undefined>): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function serializeValue(key: string, value: QueryValue, arrayFormat: QueryArrayFormat): string[] {
+  if (isNil(value)) {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    if (arrayFormat === 'comma' && value.every(isPrimitive)) {
+      const definedValues = value.filter((item) => !isNil(item));
+
+      if (definedValues.length === 0) {
+        return [];
+      }
+
+      const encodedValues = definedValues.map((item) => encodeURIComponent(stringifyPrimitive(item!)));
+
+      return [`${encodeURIComponent(key)}=${encodedValues.join(',')}`];
+    }
+
+    return value.flatMap((item, index) => {
+      let itemKey = key;
+      if (!isPrimitive(item)) {
+        itemKey = `${key}[${index}]`;
+      } else if (arrayFormat === 'brackets') {
+        itemKey = `${key}[]`;
+      }
+
+      return serializeValue(itemKey, item, arrayFormat);
+    });
+  }
+
+  if (isPrimitive(value)) {
+    return [`${encodeURIComponent(key)}=${encodeURIComponent(stringifyPrimitive(value))}`];
+  }
+
+  return Object.entries(value).flatMap(([childKey, childValue]) =>
+    serializeValue(`${key}[${childKey}]`, childValue, arrayFormat)
+  );
+}
+
+/**
+ * Serializes the provided `params` into a query string, without a leading `?`. Keys and values are percent-encoded,
+ * so unicode and reserved characters are safe to use.
+ *
+ * @example
+ * ```ts
+ * serializeQuery({ q: 'cats & dogs', page: 2, filter: { tags: ['a', 'b'] } });
+ * // 'q=cats%20%26%20dogs&page=2&filter%5Btags%5D=a&filter%5Btags%5D=b'
+ * ```
+ */
+export function serializeQuery(params: QueryParams, options: QuerySerializationOptions = {}): string {
+  const { arrayFormat = 'repeat' } = options;
+
+  return Object.entries(params)
+    .flatMap(([key, value]) => serializeValue(key, value, arrayFormat))
+    .join('&');
+}
+
+/**
+ * Gets the top-level key of an already-encoded query parameter (e.g., `filter` for `filter%5Bname%5D=x`).
+ */
+function getTopLevelKey(encodedParam: string): string {
+  const [encodedKey] = encodedParam.split('=');
+
+  let key = encodedKey;
+  try {
+    key = decodeURIComponent(encodedKey.replace(/\+/g, ' '));
+  } catch {
+    // Leave malformed keys as they are.
+  }
+
+  return key.split('[')[0];
+}
+
+/**
+ * Gets the top-level keys of the parameters in the query of the provided `url`.
+ *
+ * @example
+ * ```ts
+ * getQueryKeys('/search?q=cats&filter%5Bname%5D=x#results');
+ * // Set { 'q', 'filter' }
+ * ```
+ */
+export function getQueryKeys(url: string): Set<string> {
+  const [urlWithoutFragment] = url.split('#');
+  const [, query = ''] = urlWithoutFragment.split(/\?(.*)/s);
+
+  return new Set(query.split('&').filter((param) => !!param).map(getTopLevelKey));
+}
+
+/**
+ * Merges the provided `params` into the query of the provided `url`. Parameters already in the URL are kept unless
+ * `params` has a value for the same top-level key, in which case `params` wins. Any fragment is preserved.
+ *
+ * @example
+ * ```ts
+ * mergeQuery('/search?q=old&page=1#results', { q: 'new' });
+ * // '/search?page=1&q=new#results'
+ * ```
+ */
+export function mergeQuery(url: string, params: QueryParams, options: QuerySerializationOptions = {}): string {
+  const serializedParams = serializeQuery(params, options);
+
+  if (!serializedParams) {
+    return url;
+  }
+
+  const [urlWithoutFragment, fragment] = url.split(/#(.*)/s);
+  const [base, existingQuery = ''] = urlWithoutFragment.split(/\?(.*)/s);
+
+  const overriddenKeys = new Set(Object.keys(params).filter((key) => !isNil(params[key])));
+  const keptParams = existingQuery
+    .split('&')
+    .filter((param) => !!param && !overriddenKeys.has(getTopLevelKey(param)));
+
+  return `${base}?${[...keptParams, serializedParams].join('&')}${fragment !== undefined ? `#${fragment}` : ''}`;
+}
@@ -0,0 +1,208 @@
+import { AuthProvider } from './auth-providers';
+import { NormalizedHttpRequest } from './http-client.interface';
+
+export interface RequestDeduplicationOptions {
+  /**
+   * The headers whose values must match for two requests to share a fetch. Header names are case-insensitive.
+   *
+   * Defaults to `['accept', 'accept-language', 'authorization', 'cookie']`.
+   */
+  varyHeaders?: string[];
+}
+
+export const DEFAULT_DEDUPLICATION_VARY_HEADERS = ['accept', 'accept-language', 'authorization', 'cookie'];
+
+export interface RequestDeduplicationRunOptions {
+  /**
+   * The auth provider `send` authenticates the request with, or `undefined` if it's sent without authentication. Only
+   * requests authenticated by the same provider share a fetch.
+   */
+  authProvider?: AuthProvider;
+}
+
+interface InFlightRequest {
+  promise: Promise<Response>;
+  controller: AbortController;
+  callers: InFlightCaller[];
+}
+
+interface InFlightCaller {
+  resolve: (response: Response) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Shares a single fetch between concurrent GET requests for the same URL. Every caller gets its own copy of the
+ * response, so each one can read the body. Only as many copies are made as there are callers left waiting, so no copy
+ * is left buffering a body that nobody reads.
+ *
+ * Callers can cancel independently via their request's signal. A cancelled caller stops waiting immediately, and the
+ * shared fetch is only aborted once every caller has cancelled.
+ */
+export class RequestDeduplicator {
+  #inFlightRequests = new Map<string, InFlightRequest>();
+  #authProviderIds = new WeakMap<AuthProvider, number>();
+  #nextAuthProviderId = 1;
+
+  protected _varyHeaders: string[];
+  get varyHeaders(): string[] {
+    return this._varyHeaders;
+  }
+
+  /**
+   * The number of distinct fetches that are currently shared.
+   */
+  get inFlightCount(): number {
+    return this.#inFlightRequests.size;
+  }
+
+  constructor(options: RequestDeduplicationOptions = {}) {
+    this._varyHeaders = (options.varyHeaders ?? DEFAULT_DEDUPLICATION_VARY_HEADERS).map((name) => name.toLowerCase());
+  }
+
+  /**
+   * Whether the provided `request` may share a fetch with others. Only GET requests without a body are shared.
+   */
+  isDeduplicable(request: NormalizedHttpRequest<RequestInit>): boolean {
+    return request.method.toUpperCase() === 'GET' && (request.body === undefined || request.body === null);
+  }
+
+  /**
+   * Sends the provided `request` via `send`, unless an identical request is already in flight, in which case the
+   * request joins it instead.
+   *
+   * The request passed to `send` has its own signal, which aborts once every caller sharing the fetch has cancelled.
+   */
+  run(
+    request: NormalizedHttpRequest<RequestInit>,
+    send: (request: NormalizedHttpRequest<RequestInit>) => Promise<Response>,
+    options: RequestDeduplicationRunOptions = {}
+  ): Promise<Response> {
+    if (!this.isDeduplicable(request)) {
+      return send(request);
+    }
+
+    const key = this.#getKey(request, options.authProvider);
+
+    let inFlightRequest = this.#inFlightRequests.get(key);
+
+    if (!inFlightRequest) {
+      const controller = new AbortController();
+
+      const sharedRequest = send({
+        ...request,
+        options: {
+          ...request.options,
+          signal: controller.signal,
+        },
+      });
+
+      const newInFlightRequest: InFlightRequest = {
+        promise: sharedRequest,
+        controller,
+        callers: [],
+      };
+
+      // Once settled, later requests should make a fetch of their own.
+      sharedRequest.then(
+        (response) => {
+          this.#remove(key, newInFlightRequest);
+          this.#settle(newInFlightRequest, response);
+        },
+        (error) => {
+          this.#remove(key, newInFlightRequest);
+
+          newInFlightRequest.callers.forEach((caller) => caller.reject(error));
+        }
+      );
+
+      this.#inFlightRequests.set(key, newInFlightRequest);
+
+      inFlightRequest = newInFlightRequest;
+    }
+
+    return this.#join(key, inFlightRequest, request.options.signal);
+  }
+
+  #join(key: string, inFlightRequest: InFlightRequest, signal?: AbortSignal | null): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      const caller: InFlightCaller = {
+        resolve: (response) => {
+          signal?.removeEventListener('abort', handleAbort);
+
+          resolve(response);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener('abort', handleAbort);
+
+          reject(reason);
+        },
+      };
+
+      const handleAbort = () => {
+        reject(signal?.reason);
+
+        inFlightRequest.callers = inFlightRequest.callers.filter((other) => other !== caller);
+
+        if (inFlightRequest.callers.length === 0) {
+          this.#remove(key, inFlightRequest);
+
+          inFlightRequest.controller.abort(signal?.reason);
+        }
+      };
+
+      inFlightRequest.callers.push(caller);
+
+      if (signal?.aborted) {
+        handleAbort();
+
+        return;
+      }
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+  }
+
+  #settle(inFlightRequest: InFlightRequest, response: Response): void {
+    const { callers } = inFlightRequest;
+
+    if (callers.length === 0) {
+      // Everyone cancelled while the response was on its way, so nobody will read its body.
+      response?.body?.cancel().catch(() => undefined);
+
+      return;
+    }
+
+    // Every other caller clones before the last one gets the shared response, so no body is read before it's copied.
+    callers.slice(0, -1).forEach((caller) => caller.resolve(response?.clone()));
+    callers[callers.length - 1].resolve(response);
+  }
+
+  #remove(key: string, inFlightRequest: InFlightRequest): void {
+    if (this.#inFlightRequests.get(key) === inFlightRequest) {
+      this.#inFlightRequests.delete(key);
+    }
+  }
+
+  #getKey(request: NormalizedHttpRequest<RequestInit>, authProvider?: AuthProvider): string {
+    const headerValues = this._varyHeaders.map((name) => `${name}:${request.headers[name] ?? ''}`);
+
+    return [
+      `${request.method.toUpperCase()} ${request.url}`,
+      `auth:${authProvider ? this.#getAuthProviderId(authProvider) : ''}`,
+      ...headerValues,
+    ].join('\n');
+  }
+
+  #getAuthProviderId(authProvider: AuthProvider): number {
+    let id = this.#authProviderIds.get(authProvider);
+
+    if (id === undefined) {
+      id = this.#nextAuthProviderId++;
+
+      this.#authProviderIds.set(authProvider, id);
+    }
+
+    return id;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * How a request went, as reported by `onMetrics` once the request is done. Durations are in milliseconds.
+ */
+export interface RequestMetrics {
+  method: string;
+  /**
+   * The URL the request was sent to, or the URI it was made with if it couldn't be resolved.
+   */
+  url: string;
+  /**
+   * The status of the response, or `undefined` if the request failed without one.
+   */
+  status?: number;
+  /**
+   * How long the request waited to be sent because of the client's rate limits and concurrency limits, across every
+   * attempt.
+   */
+  queueWaitMs: number;
+  /**
+   * How long it took from making the request to receiving the response's headers, including any retries. `undefined`
+   * if no response was received.
+   */
+  timeToHeadersMs?: number;
+  /**
+   * How long it took to receive and parse the response's body once the headers were received. For a streamed body, this
+   * is how long it took to read the stream. `undefined` if the body wasn't received.
+   */
+  timeToBodyMs?: number;
+  /**
+   * How long the request took in total.
+   */
+  durationMs: number;
+  /**
+   * How many times the request was retried.
+   */
+  retries: number;
+  /**
+   * The size of the response's body in bytes, as counted while it was received if it's tracked via
+   * `onDownloadProgress`, or otherwise as reported by its `Content-Length`. `undefined` if unknown.
+   */
+  bytes?: number;
+  /**
+   * The error the request failed with, if any.
+   */
+  error?: Error;
+}
+
+export type RequestMetricsHandler = (metrics: RequestMetrics) => void;
@@ -0,0 +1,570 @@
+import { HttpStatus } from './http-status.enum';
+import { parseRetryAfterMs } from './retry-policy';
+
+/**
+ * A token-bucket limit on how often requests are sent. The bucket holds up to `burst` tokens and refills at a rate of
+ * `limit` tokens per `intervalMs`. Every request takes a token, and waits for one if the bucket is empty.
+ *
+ * @example
+ * ```ts
+ * // 100 requests per minute, with bursts of up to 10 requests at once.
+ * { limit: 100, intervalMs: 60_000, burst: 10 }
+ * ```
+ */
+export interface RateLimit {
+  limit: number;
+  intervalMs: number;
+  /**
+   * The most requests that may be sent at once after a quiet period.
+   *
+   * Defaults to `limit`.
+   */
+  burst?: number;
+}
+
+export interface RequestSchedulerOptions {
+  /**
+   * Limits on how often requests are sent. A request is only sent once every limit allows it.
+   *
+   * Defaults to no limits.
+   */
+  rateLimits?: RateLimit[];
+  /**
+   * The most requests that may be in flight at once. A request stops counting toward this once its response was
+   * received, before its body is read.
+   *
+   * Defaults to no cap.
+   */
+  maxConcurrency?: number;
+  /**
+   * Whether the scheduler adapts to the rate limits the server reports. When `true`, a `Retry-After` header on a `429`
+   * or `503` response pauses every request until it has passed. `X-RateLimit-Remaining` (together with
+   * `X-RateLimit-Reset`, in seconds or as a Unix timestamp) stops requests from being sent once the server's budget
+   * is spent, until it resets.
+   *
+   * Defaults to `false`.
+   */
+  adaptive?: boolean;
+  /**
+   * The most requests from a single queue that may be in flight at once, so one slow host (or one bulk job with its
+   * own queue key) can't take every slot.
+   *
+   * Defaults to no cap.
+   */
+  maxConcurrencyPerQueue?: number;
+  /**
+   * How long a request has to wait for its priority to go up by `1`. Waiting requests gradually catch up with
+   * requests of higher priority, so they're never starved. Aging doesn't change the order of requests with the same
+   * priority.
+   *
+   * Defaults to `1000`.
+   */
+  priorityAgingMs?: number;
+}
+
+/**
+ * Describes a request that's being scheduled.
+ */
+export interface ScheduledRequestInfo {
+  method?: string;
+  url?: string;
+  /**
+   * Requests with a higher priority are sent first. Defaults to `0`.
+   */
+  priority?: number;
+  /**
+   * The queue the request waits in. Queues take turns sending requests. Defaults to `''`.
+   */
+  queueKey?: string;
+}
+
+export interface PendingRequestInfo extends Required<ScheduledRequestInfo> {
+  /**
+   * When the request started waiting, in milliseconds since the epoch.
+   */
+  enqueuedAt: number;
+  /**
+   * How long the request has been waiting, in milliseconds.
+   */
+  waitMs: number;
+}
+
+export interface RequestQueueStats {
+  /**
+   * The number of requests waiting to be sent.
+   */
+  length: number;
+  /**
+   * The number of requests that were sent and haven't completed yet.
+   */
+  activeCount: number;
+  /**
+   * How long the request that's been waiting the longest has been waiting, in milliseconds. `0` if nothing is waiting.
+   */
+  oldestWaitMs: number;
+  /**
+   * The requests waiting to be sent, in the order they'd be sent if nothing else was scheduled.
+   */
+  pending: PendingRequestInfo[];
+}
+
+/**
+ * Frees the slot a request held. Must be called once the request completes.
+ */
+export type ReleaseRequestSlot = () => void;
+
+/**
+ * `X-RateLimit-Reset` values larger than this are Unix timestamps rather than a number of seconds.
+ */
+const MIN_RESET_TIMESTAMP = 1_000_000_000;
+
+class TokenBucket {
+  /**
+   * Tokens are tracked in units of `1 / intervalMs` so refilling never accumulates rounding errors.
+   */
+  #level: number;
+  #lastRefillAt: number;
+  #capacity: number;
+
+  constructor(protected _limit: RateLimit, now: number) {
+    this.#capacity = (_limit.burst ?? _limit.limit) * _limit.intervalMs;
+    this.#level = this.#capacity;
+    this.#lastRefillAt = now;
+  }
+
+  getWaitMs(now: number): number {
+    this.#refill(now);
+
+    const missingLevel = this._limit.intervalMs - this.#level;
+
+    return missingLevel > 0 ? Math.ceil(missingLevel / this._limit.limit) : 0;
+  }
+
+  take(now: number): void {
+    this.#refill(now);
+
+    this.#level -= this._limit.intervalMs;
+  }
+
+  #refill(now: number): void {
+    this.#level = Math.min(this.#capacity, this.#level + (now - this.#lastRefillAt) * this._limit.limit);
+    this.#lastRefillAt = now;
+  }
+}
+
+interface QueuedRequest {
+  info: Required<ScheduledRequestInfo>;
+  enqueuedAt: number;
+  sequence: number;
+  resolve: (release: ReleaseRequestSlot) => void;
+}
+
+interface RequestQueue {
+  key: string;
+  requests: QueuedRequest[];
+  activeCount: number;
+  /**
+   * When the queue last sent a request, as a sequence number. Used to let queues take turns.
+   */
+  lastServed: number;
+}
+
+function resolveRequestInfo(info: ScheduledRequestInfo): Required<ScheduledRequestInfo> {
+  return {
+    method: info.method ?? '',
+    url: info.url ?? '',
+    priority: info.priority ?? 0,
+    queueKey: info.queueKey ?? '',
+  };
+}
+
+/**
+ * Decides when requests may be sent, according to token-bucket rate limits, concurrency caps, and (optionally) the
+ * limits the server reports. Requests that can't be sent right away wait in a queue.
+ *
+ * Each queue key has a queue of its own. Whenever a request may be sent, the waiting request with the highest priority
+ * goes first. A request's priority goes up the longer it waits, so lower priority requests are never starved. Among
+ * requests with the same priority, queues take turns regardless of how long their requests have waited, and requests
+ * within a queue go in the order they were scheduled.
+ *
+ * The scheduler is driven by timers rather than polling, so it's idle while nothing is waiting.
+ */
+export class RequestScheduler {
+  #buckets: TokenBucket[];
+  #queues = new Map<string, RequestQueue>();
+  #sequence = 0;
+  #timeout: ReturnType<typeof setTimeout> | undefined;
+  #activeCount = 0;
+  #pausedUntil = 0;
+  #serverRemaining: number | undefined;
+  #serverResetAt = 0;
+
+  protected _maxConcurrency: number;
+  get maxConcurrency(): number {
+    return this._maxConcurrency;
+  }
+
+  protected _adaptive: boolean;
+  get adaptive(): boolean {
+    return this._adaptive;
+  }
+
+  protected _maxConcurrencyPerQueue: number;
+  get maxConcurrencyPerQueue(): number {
+    return this._maxConcurrencyPerQueue;
+  }
+
+  protected _priorityAgingMs: number;
+  get priorityAgingMs(): number {
+    return this._priorityAgingMs;
+  }
+
+  /**
+   * The number of requests that were sent and haven't completed yet.
+   */
+  get activeCount(): number {
+    return this.#activeCount;
+  }
+
+  /**
+   * The number of requests waiting to be sent.
+   */
+  get queueLength(): number {
+    return [...this.#queues.values()].reduce((length, queue) => length + queue.requests.length, 0);
+  }
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    const {
+      rateLimits = [],
+      maxConcurrency = Infinity,
+      maxConcurrencyPerQueue = Infinity,
+      adaptive = false,
+      priorityAgingMs = 1_000,
+    } = options;
+
+    for (const { limit, intervalMs, burst } of rateLimits) {
+      if (!(limit > 0) || !(intervalMs > 0) || (burst !== undefined && !(burst >= 1))) {
+        throw new Error(
+          `Could not create RequestScheduler. Rate limits need a positive limit and interval, and a burst of at least 1.`
+        );
+      }
+    }
+
+    if (!(maxConcurrency >= 1) || !(maxConcurrencyPerQueue >= 1)) {
+      throw new Error(`Could not create RequestScheduler. Provided max concurrency is less than 1.`);
+    }
+
+    if (!(priorityAgingMs > 0)) {
+      throw new Error(`Could not create RequestScheduler. Provided priority aging "${priorityAgingMs}" is not positive.`);
+    }
+
+    const now = Date.now();
+
+    this.#buckets = rateLimits.map((limit) => new TokenBucket(limit, now));
+    this._maxConcurrency = maxConcurrency;
+    this._adaptive = adaptive;
+    this._maxConcurrencyPerQueue = maxConcurrencyPerQueue;
+    this._priorityAgingMs = priorityAgingMs;
+  }
+
+  /**
+   * Takes a slot for a request if one is available right now and no waiting request could take it instead, in any
+   * queue.
+   *
+   * @returns A function that frees the slot, or `undefined` if the request has to wait.
+   */
+  tryAcquire(info: ScheduledRequestInfo = {}): ReleaseRequestSlot | undefined {
+    const now = Date.now();
+    const queue = this.#queues.get(info.queueKey ?? '');
+
+    // A waiting request may be more important, so the request waits its turn behind it instead of taking its slot.
+    if (
+      (queue && (queue.requests.length > 0 || !this.#canSendFrom(queue))) ||
+      this.#getNextRequest(now) ||
+      this.#getWaitMs(now) > 0
+    ) {
+      return undefined;
+    }
+
+    return this.#take(this.#getQueue(info.queueKey ?? ''), now);
+  }
+
+  /**
+   * Waits for a slot for a request.
+   *
+   * @param signal - Stops waiting when aborted. The promise rejects with the signal's reason.
+   *
+   * @returns A promise that resolves to a function that frees the slot.
+   */
+  acquire(signal?: AbortSignal | null, info: ScheduledRequestInfo = {}): Promise<ReleaseRequestSlot> {
+    const release = this.tryAcquire(info);
+
+    if (release) {
+      return Promise.resolve(release);
+    }
+
+    return new Promise((resolve, reject) => {
+      const queue = this.#getQueue(info.queueKey ?? '');
+
+      const queuedRequest: QueuedRequest = {
+        info: resolveRequestInfo(info),
+        enqueuedAt: Date.now(),
+        sequence: this.#sequence++,
+        resolve: (release) => {
+          signal?.removeEventListener('abort', handleAbort);
+
+          resolve(release);
+        },
+      };
+
+      const handleAbort = () => {
+        queue.requests = queue.requests.filter((otherRequest) => otherRequest !== queuedRequest);
+        this.#removeIfIdle(queue);
+
+        reject(signal?.reason);
+
+        this.#drain();
+      };
+
+      if (signal?.aborted) {
+        reject(signal.reason);
+
+        return;
+      }
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      queue.requests.push(queuedRequest);
+
+      this.#drain();
+    });
+  }
+
+  /**
+   * Describes the requests waiting in the provided queue, or in every queue if no `queueKey` is provided.
+   */
+  getQueueStats(queueKey?: string): RequestQueueStats {
+    const now = Date.now();
+    const queues = [...this.#queues.values()].filter((queue) => queueKey === undefined || queue.key === queueKey);
+
+    const pending = this.#getSendOrder(queues, now).map(({ info, enqueuedAt }) => ({
+      ...info,
+      enqueuedAt,
+      waitMs: now - enqueuedAt,
+    }));
+
+    return {
+      length: pending.length,
+      activeCount: queueKey === undefined ? this.#activeCount : this.#queues.get(queueKey)?.activeCount ?? 0,
+      oldestWaitMs: Math.max(0, ...pending.map(({ waitMs }) => waitMs)),
+      pending,
+    };
+  }
+
+  /**
+   * Adapts to the limits the provided `response` reports, if the scheduler is adaptive.
+   */
+  update(response: Response): void {
+    if (!this._adaptive || !response?.headers) {
+      return;
+    }
+
+    const now = Date.now();
+
+    if (response.status === HttpStatus.TooManyRequests || response.status === HttpStatus.ServiceUnavailable) {
+      const retryAfterMs = parseRetryAfterMs(response.headers.get('retry-after'), now);
+
+      if (retryAfterMs !== undefined) {
+        this.#pausedUntil = Math.max(this.#pausedUntil, now + retryAfterMs);
+      }
+    }
+
+    const remaining = parseInt(response.headers.get('x-ratelimit-remaining') ?? '', 10);
+    const reset = Number(response.headers.get('x-ratelimit-reset') || NaN);
+
+    if (!isNaN(remaining) && !isNaN(reset)) {
+      this.#serverRemaining = remaining;
+      this.#serverResetAt = reset > MIN_RESET_TIMESTAMP ? reset * 1000 : now + reset * 1000;
+    }
+
+    this.#drain();
+  }
+
+  /**
+   * How long until a request may be sent, or `Infinity` if it has to wait for another request to complete.
+   */
+  #getWaitMs(now: number): number {
+    if (this.#activeCount >= this._maxConcurrency) {
+      return Infinity;
+    }
+
+    if (this.#serverRemaining !== undefined && now >= this.#serverResetAt) {
+      this.#serverRemaining = undefined;
+    }
+
+    const serverWaitMs = this.#serverRemaining !== undefined && this.#serverRemaining <= 0 ? this.#serverResetAt - now : 0;
+
+    return Math.max(
+      0,
+      this.#pausedUntil - now,
+      serverWaitMs,
+      ...this.#buckets.map((bucket) => bucket.getWaitMs(now))
+    );
+  }
+
+  #take(queue: RequestQueue, now: number): ReleaseRequestSlot {
+    this.#buckets.forEach((bucket) => bucket.take(now));
+
+    if (this.#serverRemaining !== undefined) {
+      this.#serverRemaining -= 1;
+    }
+
+    this.#activeCount += 1;
+    queue.activeCount += 1;
+    queue.lastServed = this.#sequence++;
+
+    let isReleased = false;
+
+    return () => {
+      if (isReleased) {
+        return;
+      }
+
+      isReleased = true;
+      this.#activeCount -= 1;
+      queue.activeCount -= 1;
+      this.#removeIfIdle(queue);
+
+      this.#drain();
+    };
+  }
+
+  #getQueue(queueKey: string): RequestQueue {
+    let queue = this.#queues.get(queueKey);
+
+    if (!queue) {
+      queue = { key: queueKey, requests: [], activeCount: 0, lastServed: -1 };
+
+      this.#queues.set(queueKey, queue);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Forgets queues that have nothing waiting or in flight, so queues for hosts that are no longer used don't linger.
+   */
+  #removeIfIdle(queue: RequestQueue): void {
+    if (queue.requests.length === 0 && queue.activeCount === 0 && this.#queues.get(queue.key) === queue) {
+      this.#queues.delete(queue.key);
+    }
+  }
+
+  #canSendFrom(queue: RequestQueue): boolean {
+    return queue.activeCount < this._maxConcurrencyPerQueue;
+  }
+
+  #getEffectivePriority(request: QueuedRequest, now: number): number {
+    return request.info.priority + (now - request.enqueuedAt) / this._priorityAgingMs;
+  }
+
+  /**
+   * Orders requests by their effective priority, then by the order they were scheduled.
+   */
+  #compare(a: QueuedRequest, b: QueuedRequest, now: number): number {
+    return this.#getEffectivePriority(b, now) - this.#getEffectivePriority(a, now) || a.sequence - b.sequence;
+  }
+
+  /**
+   * Finds the request that should be sent next, among the queues that may send one.
+   */
+  #getNextRequest(
+    now: number,
+    queues: Map<string, RequestQueue> = this.#queues
+  ): [RequestQueue, QueuedRequest] | undefined {
+    let next: [RequestQueue, QueuedRequest] | undefined;
+
+    for (const queue of queues.values()) {
+      if (queue.requests.length === 0 || !this.#canSendFrom(queue)) {
+        continue;
+      }
+
+      const head = queue.requests.reduce((best, request) => (this.#compare(request, best, now) < 0 ? request : best));
+
+      if (!next) {
+        next = [queue, head];
+
+        continue;
+      }
+
+      const [nextQueue, nextRequest] = next;
+      // Queues take turns when their requests are equally important. Aging only lets a request catch up with more
+      // important ones, or the queue with the oldest requests would always go first.
+      const priorityDifference =
+        head.info.priority === nextRequest.info.priority
+          ? 0
+          : this.#getEffectivePriority(head, now) - this.#getEffectivePriority(nextRequest, now);
+
+      if (priorityDifference > 0 || (priorityDifference === 0 && queue.lastServed < nextQueue.lastServed)) {
+        next = [queue, head];
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Orders the requests waiting in the provided queues as they'd be sent if nothing else was scheduled.
+   */
+  #getSendOrder(queues: RequestQueue[], now: number): QueuedRequest[] {
+    // Requests in flight are left out, so every waiting request is listed even if its queue is at its cap.
+    const remaining = new Map(
+      queues.map((queue) => [queue.key, { ...queue, requests: [...queue.requests], activeCount: 0 }])
+    );
+    const order: QueuedRequest[] = [];
+    let sequence = this.#sequence;
+
+    for (let next = this.#getNextRequest(now, remaining); next; next = this.#getNextRequest(now, remaining)) {
+      const [queue, request] = next;
+
+      queue.requests = queue.requests.filter((otherRequest) => otherRequest !== request);
+      queue.lastServed = sequence++;
+      order.push(request);
+    }
+
+    return order;
+  }
+
+  /**
+   * Sends as many queued requests as allowed, then sets a timer for when the next one may be sent.
+   */
+  #drain(): void {
+    clearTimeout(this.#timeout);
+    this.#timeout = undefined;
+
+    while (true) {
+      const now = Date.now();
+      const next = this.#getNextRequest(now);
+
+      if (!next) {
+        return;
+      }
+
+      const waitMs = this.#getWaitMs(now);
+
+      if (waitMs > 0) {
+        if (waitMs !== Infinity) {
+          this.#timeout = setTimeout(() => this.#drain(), waitMs);
+        }
+
+        return;
+      }
+
+      const [queue, request] = next;
+
+      queue.requests = queue.requests.filter((otherRequest) => otherRequest !== request);
+
+      request.resolve(this.#take(queue, now));
+    }
+  }
+}
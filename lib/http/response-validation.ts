@@ -0,0 +1,130 @@
+/**
+ * The location of a value within a response body, as the property names and array indices that lead to it. Empty for
+ * the body itself.
+ */
+export type ValidationPath = (string | number)[];
+
+export interface ResponseValidationIssue {
+  path: ValidationPath;
+  message: string;
+}
+
+export type ResponseValidationResult<T> = { valid: true; value: T } | { valid: false; issues: ResponseValidationIssue[] };
+
+/**
+ * Validates a response body. Implement this to plug in a validation library that doesn't support Standard Schema.
+ *
+ * @example
+ * ```ts
+ * // For versions of Zod before 3.24.
+ * const zodValidator = <T>(schema: ZodType<T>): ResponseValidator<T> => ({
+ *   validate(body) {
+ *     const result = schema.safeParse(body);
+ *
+ *     return result.success
+ *       ? { valid: true, value: result.data }
+ *       : { valid: false, issues: result.error.issues.map(({ path, message }) => ({ path, message })) };
+ *   },
+ * });
+ * ```
+ */
+export interface ResponseValidator<T> {
+  /**
+   * Validates the provided `body`. The value a valid result carries becomes the request's body, so validators may
+   * transform the body (e.g., to parse dates).
+   */
+  validate(body: unknown): ResponseValidationResult<T> | Promise<ResponseValidationResult<T>>;
+}
+
+/**
+ * The parts of the Standard Schema interface (https://standardschema.dev) that are used to validate response bodies.
+ * Zod (3.24 and up), Valibot (1.0 and up), ArkType, and other libraries implement it.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+      }>;
+    };
+
+/**
+ * Something that can validate a response body: a Standard Schema (e.g., a Zod or Valibot schema), a
+ * {@link ResponseValidator}, or a type guard.
+ */
+export type ResponseSchema<T> = StandardSchemaV1<unknown, T> | ResponseValidator<T> | ((body: unknown) => body is T);
+
+function isStandardSchema<T>(schema: ResponseSchema<T>): schema is StandardSchemaV1<unknown, T> {
+  return typeof schema === 'object' && schema !== null && '~standard' in schema;
+}
+
+// Written as a type guard so the result narrows even without `strictNullChecks`, as the declarations are built.
+function isStandardSchemaSuccess<T>(
+  result: StandardSchemaV1Result<T>
+): result is Extract<StandardSchemaV1Result<T>, { readonly value: T }> {
+  return !result.issues;
+}
+
+function toPathSegment(segment: PropertyKey | { readonly key: PropertyKey }): string | number {
+  const key = typeof segment === 'object' ? segment.key : segment;
+
+  return typeof key === 'number' ? key : String(key);
+}
+
+/**
+ * Formats the provided `path` like a property access, e.g., `users[0].email`. The body itself is `(root)`.
+ */
+export function formatValidationPath(path: ValidationPath): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+
+  return path
+    .map((segment, index) => {
+      if (typeof segment === 'number') {
+        return `[${segment}]`;
+      }
+
+      return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${index === 0 ? '' : '.'}${segment}` : `[${JSON.stringify(segment)}]`;
+    })
+    .join('');
+}
+
+/**
+ * Validates the provided `body` against the provided `schema`, whatever kind of schema it is.
+ */
+export async function validateResponseBody<T>(
+  schema: ResponseSchema<T>,
+  body: unknown
+): Promise<ResponseValidationResult<T>> {
+  if (typeof schema === 'function') {
+    return schema(body)
+      ? { valid: true, value: body }
+      : { valid: false, issues: [{ path: [], message: 'The body did not pass its type guard.' }] };
+  }
+
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(body);
+
+    if (isStandardSchemaSuccess(result)) {
+      return { valid: true, value: result.value };
+    }
+
+    return {
+      valid: false,
+      issues: result.issues.map(({ message, path = [] }) => ({ message, path: path.map(toPathSegment) })),
+    };
+  }
+
+  return schema.validate(body);
+}
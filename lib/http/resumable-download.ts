@@ -0,0 +1,519 @@
+import { Event } from '@jtjs/event';
+import { Headers } from 'cross-fetch';
+import { HttpError, RangeNotSupportedError, ResourceChangedError } from './errors';
+import { FetchHttpClient, FetchService } from './fetch-http-client.impl';
+import { BasicHttpRequestData, NetworkErrorHandler } from './http-client.interface';
+import { HttpStatus } from './http-status.enum';
+import { isRetryableStatus } from './retry-policy';
+import { DownloadProgressHandler, ResponseStream } from './streaming';
+
+/**
+ * Where a download's bytes are written. With parallel ranges, chunks are written out of order, each with the offset
+ * it belongs at.
+ *
+ * @example
+ * ```ts
+ * // Writes straight to a file in Node, so the download doesn't have to fit in memory.
+ * const file = await fs.promises.open('./export.csv', 'w');
+ * const sink: DownloadSink<void> = {
+ *   write: async (chunk, offset) => void (await file.write(chunk, 0, chunk.byteLength, offset)),
+ *   close: () => file.close(),
+ * };
+ * ```
+ */
+export interface DownloadSink<Result> {
+  write(chunk: Uint8Array, offset: number): void | Promise<void>;
+  /**
+   * Invoked once every byte was written. Its result is what the download resolves to.
+   */
+  close(): Result | Promise<Result>;
+}
+
+/**
+ * Keeps a download in memory, and stitches its chunks together in order into a `Blob` once it's complete.
+ */
+export class MemoryDownloadSink implements DownloadSink<Blob> {
+  #chunks: { chunk: Uint8Array; offset: number }[] = [];
+
+  protected _type: string;
+  get type(): string {
+    return this._type;
+  }
+
+  /**
+   * @param type - The type of the resulting blob. Defaults to no type.
+   */
+  constructor(type = '') {
+    this._type = type;
+  }
+
+  write(chunk: Uint8Array, offset: number): void {
+    this.#chunks.push({ chunk, offset });
+  }
+
+  close(): Blob {
+    const chunks = [...this.#chunks].sort((a, b) => a.offset - b.offset).map(({ chunk }) => chunk);
+
+    return new Blob(chunks, { type: this._type });
+  }
+}
+
+export type ResumableDownloadState = 'idle' | 'downloading' | 'paused' | 'completed' | 'failed';
+
+export interface ResumableDownloadOptions<Result> {
+  /**
+   * The client the download's requests are made with, so they get the client's host, path, default options,
+   * credentials, and middleware.
+   *
+   * Defaults to {@link FetchService}.
+   */
+  client?: FetchHttpClient;
+  /**
+   * Any other data for the download's requests, like a `query` or headers via `options`.
+   */
+  requestData?: Omit<
+    BasicHttpRequestData<any, any, RequestInit>,
+    'body' | 'stream' | 'signal' | 'allowThrow' | 'failOnHttpError' | 'responseBodyParser' | 'schema'
+  >;
+  /**
+   * Where the downloaded bytes are written.
+   *
+   * Defaults to a {@link MemoryDownloadSink}, so the download resolves to a `Blob`.
+   */
+  sink?: DownloadSink<Result>;
+  /**
+   * How many byte ranges to download at once. Only used when the server accepts ranges and the size of the download is
+   * known.
+   *
+   * Defaults to `1`.
+   */
+  parallelRanges?: number;
+  /**
+   * How many times in a row a range may fail before the download fails. Each retry resumes from the last byte
+   * received.
+   *
+   * Defaults to `3`.
+   */
+  maxRetries?: number;
+  /**
+   * How long to wait before the first retry of a range. Consecutive retries double the wait.
+   *
+   * Defaults to `1000`.
+   */
+  retryDelayMs?: number;
+}
+
+interface DownloadRange {
+  start: number;
+  /**
+   * The last byte of the range, inclusive. `undefined` if the range runs to the end of the download.
+   */
+  end: number | undefined;
+  /**
+   * The next byte to download.
+   */
+  position: number;
+  isComplete: boolean;
+}
+
+const RANGE_UNSUPPORTED_STATUSES: number[] = [HttpStatus.MethodNotAllowed, HttpStatus.NotImplemented];
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timeout);
+
+      reject(signal.reason);
+    };
+
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', handleAbort);
+
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/**
+ * Downloads a resource in a way that survives dropped connections. If the server advertises `Accept-Ranges`, the rest
+ * of the resource is requested via `Range` from the last byte received, with `If-Range` (and the `ETag`) making sure
+ * it's still the same resource. The download can also be split into byte ranges that are downloaded in parallel, and
+ * paused and resumed.
+ *
+ * If the server doesn't accept ranges, the resource is downloaded in full, and a dropped connection fails the download.
+ *
+ * @example
+ * ```ts
+ * const download = new ResumableDownload('/exports/2024.csv', { client: apiClient, parallelRanges: 4 });
+ *
+ * download.onProgress.subscribe(({ loaded, total }) => updateProgressBar(loaded, total));
+ *
+ * const blob = await download.start();
+ * ```
+ */
+export class ResumableDownload<Result = Blob> {
+  /**
+   * Triggered as bytes are received, with the number of bytes received so far and the size of the download, if known.
+   */
+  onProgress = new Event<DownloadProgressHandler>();
+  /**
+   * Triggered when a request for a range failed and is about to be retried, or when the download failed.
+   */
+  onError = new Event<NetworkErrorHandler>();
+
+  #ranges: DownloadRange[] | undefined;
+  #controller: AbortController | undefined;
+  #pausedController: AbortController | undefined;
+  #result: Promise<Result> | undefined;
+  #resume: (() => void) | undefined;
+
+  protected _uri: string;
+  get uri(): string {
+    return this._uri;
+  }
+
+  protected _state: ResumableDownloadState = 'idle';
+  get state(): ResumableDownloadState {
+    return this._state;
+  }
+
+  /**
+   * The number of bytes received so far.
+   */
+  get loaded(): number {
+    return (this.#ranges ?? []).reduce((loaded, range) => loaded + range.position - range.start, 0);
+  }
+
+  protected _total: number | undefined;
+  /**
+   * The size of the download in bytes, if the server reported it.
+   */
+  get total(): number | undefined {
+    return this._total;
+  }
+
+  protected _acceptsRanges = false;
+  /**
+   * Whether the server accepts range requests, so the download can be resumed.
+   */
+  get acceptsRanges(): boolean {
+    return this._acceptsRanges;
+  }
+
+  protected _etag: string | undefined;
+  /**
+   * The `ETag` of the resource when the download started. Every range must have the same one.
+   */
+  get etag(): string | undefined {
+    return this._etag;
+  }
+
+  protected _validator: string | undefined;
+  protected _sink: DownloadSink<Result>;
+  protected _options: ResumableDownloadOptions<Result>;
+
+  constructor(uri: string, options: ResumableDownloadOptions<Result> = {}) {
+    const { parallelRanges = 1, maxRetries = 3 } = options;
+
+    if (!Number.isInteger(parallelRanges) || parallelRanges < 1) {
+      throw new Error(`Could not create ResumableDownload. Provided parallelRanges "${parallelRanges}" is not valid.`);
+    }
+
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error(`Could not create ResumableDownload. Provided maxRetries "${maxRetries}" is not valid.`);
+    }
+
+    this._uri = uri;
+    this._options = options;
+    this._sink = options.sink ?? (new MemoryDownloadSink() as unknown as DownloadSink<Result>);
+  }
+
+  /**
+   * Starts the download. Calling it again returns the same download.
+   *
+   * @returns A promise that resolves to the result of the sink (a `Blob`, by default) once the download is complete.
+   */
+  start(): Promise<Result> {
+    if (!this.#result) {
+      this._state = 'downloading';
+      this.#result = this.#run();
+    }
+
+    return this.#result;
+  }
+
+  /**
+   * Stops downloading until {@link resume} is called. Requests in flight are aborted, and the bytes received so far are
+   * kept.
+   */
+  pause(): void {
+    if (this._state !== 'downloading') {
+      return;
+    }
+
+    this._state = 'paused';
+    this.#pausedController = this.#controller;
+    this.#controller?.abort();
+  }
+
+  /**
+   * Continues a paused download from the last byte received.
+   */
+  resume(): void {
+    if (this._state !== 'paused') {
+      return;
+    }
+
+    this._state = 'downloading';
+    this.#resume?.();
+  }
+
+  async #run(): Promise<Result> {
+    try {
+      while (true) {
+        const controller = new AbortController();
+        this.#controller = controller;
+
+        try {
+          if (!this.#ranges) {
+            this.#ranges = await this.#probe(controller.signal);
+          }
+
+          await this.#downloadRanges(this.#ranges, controller);
+
+          break;
+        } catch (error) {
+          if (this.#pausedController !== controller) {
+            throw error;
+          }
+
+          // The download may have been resumed before its requests were done aborting.
+          if (this._state === 'paused') {
+            await new Promise<void>((resolve) => (this.#resume = resolve));
+          }
+        }
+      }
+
+      const result = await this._sink.close();
+
+      this._state = 'completed';
+
+      return result;
+    } catch (error) {
+      this._state = 'failed';
+      this.onError.trigger(error as Error);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Asks the server whether it accepts ranges, how large the resource is, and what its `ETag` is, then splits the
+   * download into ranges accordingly.
+   */
+  async #probe(signal: AbortSignal): Promise<DownloadRange[]> {
+    const { client = FetchService, requestData = {}, parallelRanges = 1 } = this._options;
+
+    let response: Response | undefined;
+    try {
+      ({ response } = await client.makeRequest('HEAD', this._uri, {
+        ...requestData,
+        responseBodyParser: async () => undefined,
+        signal,
+        allowThrow: true,
+        failOnHttpError: true,
+      }));
+    } catch (error) {
+      // Without a HEAD response, nothing is known about the resource, so it's downloaded in full.
+      if (error instanceof HttpError && RANGE_UNSUPPORTED_STATUSES.includes(error.status)) {
+        return [{ start: 0, end: undefined, position: 0, isComplete: false }];
+      }
+
+      throw error;
+    }
+
+    const headers = response!.headers;
+    const contentLength = headers.get('content-length');
+    const etag = headers.get('etag') ?? undefined;
+
+    this._acceptsRanges = !!headers
+      .get('accept-ranges')
+      ?.split(',')
+      .some((unit) => unit.trim().toLowerCase() === 'bytes');
+    this._total =
+      contentLength !== null && !headers.get('content-encoding') && /^\d+$/.test(contentLength)
+        ? Number(contentLength)
+        : undefined;
+    this._etag = etag;
+    // Weak ETags can't be used with If-Range.
+    this._validator = etag && !etag.startsWith('W/') ? etag : headers.get('last-modified') ?? undefined;
+
+    if (!this._acceptsRanges || this._total === undefined) {
+      return [{ start: 0, end: undefined, position: 0, isComplete: false }];
+    }
+
+    const total = this._total;
+    const rangeCount = Math.max(1, Math.min(parallelRanges, total));
+    const rangeSize = Math.ceil(total / rangeCount);
+
+    return Array.from({ length: rangeCount }, (_, index) => {
+      const start = index * rangeSize;
+
+      return { start, end: Math.min(total, start + rangeSize) - 1, position: start, isComplete: total === 0 };
+    });
+  }
+
+  /**
+   * Downloads what's left of the provided `ranges`. If one fails, the others are stopped.
+   */
+  async #downloadRanges(ranges: DownloadRange[], controller: AbortController): Promise<void> {
+    const downloads = ranges
+      .filter((range) => !range.isComplete)
+      .map((range) =>
+        this.#downloadRange(range, controller.signal).catch((error) => {
+          controller.abort();
+
+          throw error;
+        })
+      );
+
+    const results = await Promise.allSettled(downloads);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Downloads what's left of the provided `range`, retrying from the last byte received when the connection drops.
+   */
+  async #downloadRange(range: DownloadRange, signal: AbortSignal): Promise<void> {
+    const { maxRetries = 3, retryDelayMs = 1_000 } = this._options;
+
+    let failedAttempts = 0;
+
+    while (!range.isComplete) {
+      const startPosition = range.position;
+
+      try {
+        await this.#requestRange(range, signal);
+      } catch (error) {
+        if (range.position > startPosition) {
+          failedAttempts = 0;
+        }
+
+        if (signal.aborted || !this.#isRecoverable(error as Error, range) || failedAttempts >= maxRetries) {
+          throw error;
+        }
+
+        failedAttempts += 1;
+
+        this.onError.trigger(error as Error);
+
+        await wait(retryDelayMs * 2 ** (failedAttempts - 1), signal);
+      }
+    }
+  }
+
+  async #requestRange(range: DownloadRange, signal: AbortSignal): Promise<void> {
+    const { client = FetchService, requestData = {} } = this._options;
+
+    const headers = new Headers(requestData.options?.headers);
+
+    if (this._acceptsRanges) {
+      headers.set('range', `bytes=${range.position}-${range.end ?? ''}`);
+
+      if (this._validator) {
+        headers.set('if-range', this._validator);
+      }
+    }
+
+    const { response, body } = await client.makeRequest<ResponseStream<'bytes'>>('GET', this._uri, {
+      // Ranges are retried by the download itself, from where they left off.
+      retryPolicy: { maxAttempts: 1 },
+      cache: 'no-store',
+      deduplicate: false,
+      ...requestData,
+      options: {
+        ...requestData.options,
+        headers,
+      },
+      stream: 'bytes',
+      signal,
+      allowThrow: true,
+      failOnHttpError: true,
+    });
+
+    if (this._acceptsRanges) {
+      try {
+        this.#verifyRangeResponse(response!, range);
+      } catch (error) {
+        await body?.return?.();
+
+        throw error;
+      }
+    }
+
+    for await (const chunk of body!) {
+      // Never write past the end of the range, in case the server sends more than was asked for.
+      const remaining = range.end === undefined ? chunk.byteLength : range.end + 1 - range.position;
+      const rangeChunk = chunk.byteLength > remaining ? chunk.subarray(0, remaining) : chunk;
+
+      await this._sink.write(rangeChunk, range.position);
+
+      range.position += rangeChunk.byteLength;
+
+      this.onProgress.trigger({ loaded: this.loaded, total: this._total });
+
+      if (range.end !== undefined && range.position > range.end) {
+        await body!.return?.();
+
+        break;
+      }
+    }
+
+    // A range without an end is complete once its response ends, while one with an end may have been cut short.
+    range.isComplete = range.end === undefined || range.position > range.end;
+  }
+
+  #verifyRangeResponse(response: Response, range: DownloadRange): void {
+    const etag = response.headers.get('etag') ?? undefined;
+
+    if (response.status !== HttpStatus.PartialContent) {
+      // If-Range makes the server send the whole resource when it's no longer the same.
+      throw this._validator
+        ? new ResourceChangedError(this._uri, this._etag, etag)
+        : new RangeNotSupportedError(this._uri);
+    }
+
+    if (this._etag && etag && etag !== this._etag) {
+      throw new ResourceChangedError(this._uri, this._etag, etag);
+    }
+
+    const [, rangeStart] = /^bytes (\d+)-/.exec(response.headers.get('content-range') ?? '') ?? [];
+
+    if (Number(rangeStart) !== range.position) {
+      throw new RangeNotSupportedError(this._uri);
+    }
+  }
+
+  #isRecoverable(error: Error, range: DownloadRange): boolean {
+    if (error instanceof ResourceChangedError || error instanceof RangeNotSupportedError) {
+      return false;
+    }
+
+    // Without ranges, the download can't pick up where it left off.
+    if (!this._acceptsRanges && range.position > range.start) {
+      return false;
+    }
+
+    if (error instanceof HttpError) {
+      return isRetryableStatus(this._options.client?.retryPolicy ?? FetchService.retryPolicy, error.status);
+    }
+
+    return true;
+  }
+}
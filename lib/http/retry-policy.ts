@@ -0,0 +1,191 @@
+import { HttpStatus } from './http-status.enum';
+
+export interface RetryPolicy {
+  /**
+   * The maximum number of attempts that will be made for a single request, including the first one. Requests with a
+   * streamed body are only attempted once, since a stream can only be sent once.
+   *
+   * Defaults to `1` (i.e., no retries).
+   */
+  maxAttempts: number;
+  /**
+   * The delay before the first retry. Each subsequent retry doubles the previous delay
+   * (exponential backoff), up to `maxDelayMs`.
+   *
+   * Defaults to `300`.
+   */
+  baseDelayMs: number;
+  /**
+   * The maximum amount of time to wait between two attempts. This also caps delays requested by
+   * a server via the `Retry-After` header.
+   *
+   * Defaults to `30_000`.
+   */
+  maxDelayMs: number;
+  /**
+   * Whether to randomize the backoff delay. When enabled, the actual delay is a random value between
+   * `0` and the computed backoff delay ("full jitter"). This prevents many clients that failed at the
+   * same time from retrying at the same time.
+   *
+   * Delays requested by a server via the `Retry-After` header are never randomized.
+   *
+   * Defaults to `true`.
+   */
+  jitter: boolean;
+  /**
+   * Response statuses that should be retried.
+   *
+   * Defaults to `408`, `429`, `500`, `502`, `503`, and `504`.
+   */
+  retryableStatuses: HttpStatus[];
+  /**
+   * Whether a request that failed with a network error should be retried. Can be a function if
+   * only some errors should be retried.
+   *
+   * Defaults to `true`.
+   */
+  retryOnNetworkError: boolean | ((error: Error) => boolean);
+  /**
+   * The HTTP methods that are allowed to be retried. Retrying a non-idempotent method like `POST`
+   * may cause the server to perform the operation more than once, so only do so if you know the
+   * endpoint can handle it.
+   *
+   * Defaults to the idempotent methods: `GET`, `HEAD`, `OPTIONS`, `PUT`, `DELETE`, and `TRACE`.
+   */
+  retryableMethods: string[];
+  /**
+   * Whether to honor the `Retry-After` header on `429` and `503` responses. When honored and present,
+   * the delay the server asks for is used instead of the computed backoff delay.
+   *
+   * Defaults to `true`.
+   */
+  respectRetryAfter: boolean;
+}
+
+export interface RetryAttemptInfo {
+  /**
+   * The attempt that failed. The first attempt is `1`.
+   */
+  attempt: number;
+  /**
+   * The total number of attempts that may be made for the request.
+   */
+  maxAttempts: number;
+  /**
+   * How long the client will wait before making the next attempt.
+   */
+  delayMs: number;
+  method: string;
+  url: string;
+  /**
+   * The response that caused the retry, if the attempt received one.
+   */
+  response?: Response;
+  /**
+   * The network error that caused the retry, if the attempt failed without a response.
+   */
+  error?: Error;
+}
+
+export type RetryHandler = (info: RetryAttemptInfo) => void;
+
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = {
+  maxAttempts: 1,
+  baseDelayMs: 300,
+  maxDelayMs: 30_000,
+  jitter: true,
+  retryableStatuses: [
+    HttpStatus.RequestTimeout,
+    HttpStatus.TooManyRequests,
+    HttpStatus.InternalServerError,
+    HttpStatus.BadGateway,
+    HttpStatus.ServiceUnavailable,
+    HttpStatus.GatewayTimeout,
+  ],
+  retryOnNetworkError: true,
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'],
+  respectRetryAfter: true,
+};
+
+/**
+ * Merges the provided policies on top of {@link DEFAULT_RETRY_POLICY}. Later policies take precedence.
+ */
+export function resolveRetryPolicy(...policies: (Partial<RetryPolicy> | undefined)[]): RetryPolicy {
+  return policies.reduce<RetryPolicy>(
+    (resolved, policy) => ({
+      ...resolved,
+      ...Object.fromEntries(Object.entries(policy ?? {}).filter(([, value]) => value !== undefined)),
+    }),
+    { ...DEFAULT_RETRY_POLICY }
+  );
+}
+
+export function isRetryableMethod(policy: RetryPolicy, method: string): boolean {
+  return policy.retryableMethods.some((retryableMethod) => retryableMethod.toUpperCase() === method.toUpperCase());
+}
+
+export function isRetryableStatus(policy: RetryPolicy, status: number): boolean {
+  return policy.retryableStatuses.includes(status);
+}
+
+/**
+ * Whether a request with the provided `body` can be sent again. A stream (e.g., a `ReadableStream`, or a
+ * `MultipartBuilder` with streamed parts) is consumed by the first attempt, so it can't be.
+ */
+export function isReplayableBody(body: unknown): boolean {
+  return !(
+    (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream) ||
+    (typeof body === 'object' && body !== null && Symbol.asyncIterator in body)
+  );
+}
+
+export function isRetryableError(policy: RetryPolicy, error: Error): boolean {
+  const { retryOnNetworkError } = policy;
+
+  return typeof retryOnNetworkError === 'function' ? retryOnNetworkError(error) : retryOnNetworkError;
+}
+
+/**
+ * Parses the value of a `Retry-After` header, which may either be a number of seconds or an HTTP date.
+ *
+ * @returns The number of milliseconds to wait, or `undefined` if the value couldn't be parsed.
+ */
+export function parseRetryAfterMs(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmedValue = value.trim();
+
+  if (/^\d+$/.test(trimmedValue)) {
+    return Number(trimmedValue) * 1000;
+  }
+
+  const date = Date.parse(trimmedValue);
+
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Determines how long to wait after the provided failed `attempt` before trying again.
+ *
+ * @param policy - The policy in effect for the request.
+ * @param attempt - The attempt that failed. The first attempt is `1`.
+ * @param response - The response the failed attempt received, if any.
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attempt: number, response?: Response): number {
+  if (
+    policy.respectRetryAfter &&
+    (response?.status === HttpStatus.TooManyRequests || response?.status === HttpStatus.ServiceUnavailable)
+  ) {
+    const retryAfterMs = parseRetryAfterMs(response.headers?.get('retry-after'));
+
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, policy.maxDelayMs);
+    }
+  }
+
+  const backoffMs = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+
+  return policy.jitter ? Math.round(Math.random() * backoffMs) : backoffMs;
+}
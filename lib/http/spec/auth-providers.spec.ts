@@ -0,0 +1,116 @@
+import { describe, expect, test, vi } from 'vitest';
+import {
+  ApiKeyAuthProvider,
+  BasicAuthProvider,
+  BearerAuthProvider,
+  OAuth2AuthProvider,
+} from '../auth-providers';
+import { NormalizedHttpRequest } from '../http-client.interface';
+
+const request: NormalizedHttpRequest<RequestInit> = {
+  method: 'GET',
+  url: 'http://google.com/things',
+  headers: {
+    accept: '*/*',
+  },
+  options: {},
+};
+
+describe('auth providers', () => {
+  describe('BearerAuthProvider', () => {
+    test('adds the token to the Authorization header', async () => {
+      const authenticatedRequest = await new BearerAuthProvider('abc').authenticate(request);
+
+      expect(authenticatedRequest.headers).toEqual({ accept: '*/*', authorization: 'Bearer abc' });
+      expect(request.headers.authorization).toBeUndefined();
+    });
+    test('gets the current token when given a function', async () => {
+      let token = 'abc';
+      const provider = new BearerAuthProvider(() => token);
+
+      expect((await provider.authenticate(request)).headers.authorization).toBe('Bearer abc');
+
+      token = 'def';
+
+      expect((await provider.authenticate(request)).headers.authorization).toBe('Bearer def');
+    });
+  });
+
+  describe('BasicAuthProvider', () => {
+    test('adds the encoded credentials to the Authorization header', async () => {
+      const authenticatedRequest = await new BasicAuthProvider('user', 'pässword').authenticate(request);
+
+      expect(authenticatedRequest.headers.authorization).toBe('Basic dXNlcjpww6Rzc3dvcmQ=');
+    });
+  });
+
+  describe('ApiKeyAuthProvider', () => {
+    test('adds the key to a header by default', async () => {
+      const authenticatedRequest = await new ApiKeyAuthProvider({ name: 'X-Api-Key', key: 'abc' }).authenticate(
+        request
+      );
+
+      expect(authenticatedRequest.headers['x-api-key']).toBe('abc');
+    });
+    test('can add the key to the query', async () => {
+      const provider = new ApiKeyAuthProvider({ name: 'api_key', key: 'a&b', in: 'query' });
+
+      expect((await provider.authenticate(request)).url).toBe('http://google.com/things?api_key=a%26b');
+      expect((await provider.authenticate({ ...request, url: '/things?page=1#top' })).url).toBe(
+        '/things?page=1&api_key=a%26b#top'
+      );
+    });
+  });
+
+  describe('OAuth2AuthProvider', () => {
+    test('uses the initial access token', async () => {
+      const refreshAccessToken = vi.fn(() => Promise.resolve('new'));
+      const provider = new OAuth2AuthProvider({ accessToken: 'initial', refreshAccessToken });
+
+      expect((await provider.authenticate(request)).headers.authorization).toBe('Bearer initial');
+      expect(refreshAccessToken).not.toHaveBeenCalled();
+    });
+    test('gets an access token before the first request when there is no initial token', async () => {
+      const refreshAccessToken = vi.fn(() => Promise.resolve('new'));
+      const provider = new OAuth2AuthProvider({ refreshAccessToken });
+
+      expect((await provider.authenticate(request)).headers.authorization).toBe('Bearer new');
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+    test('concurrent refreshes share a single refresh', async () => {
+      const refreshAccessToken = vi.fn(() => Promise.resolve('new'));
+      const provider = new OAuth2AuthProvider({ accessToken: 'initial', refreshAccessToken });
+
+      const failedRequest = await provider.authenticate(request);
+
+      const results = await Promise.all([
+        provider.refresh(failedRequest),
+        provider.refresh(failedRequest),
+        provider.refresh(failedRequest),
+      ]);
+
+      expect(results).toEqual([true, true, true]);
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(provider.accessToken).toBe('new');
+    });
+    test('does not refresh again for a request that was sent with an older token', async () => {
+      const refreshAccessToken = vi.fn(() => Promise.resolve('new'));
+      const provider = new OAuth2AuthProvider({ accessToken: 'initial', refreshAccessToken });
+
+      const failedRequest = await provider.authenticate(request);
+
+      await provider.refresh(failedRequest);
+      await provider.refresh(failedRequest);
+
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+    test('a failed refresh rejects', async () => {
+      const provider = new OAuth2AuthProvider({
+        accessToken: 'initial',
+        refreshAccessToken: () => Promise.reject(new Error('Refresh token expired')),
+      });
+
+      await expect(provider.refresh(await provider.authenticate(request))).rejects.toThrow('Refresh token expired');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'vitest';
+import {
+  BodyCodec,
+  BodyCodecRegistry,
+  CsvBodyCodec,
+  FormUrlEncodedBodyCodec,
+  getMediaType,
+  JsonBodyCodec,
+  MultipartBodyCodec,
+  OctetStreamBodyCodec,
+  ProblemJsonBodyCodec,
+} from '../body-codecs';
+import { MultipartBuilder } from '../multipart';
+
+const textCodec: BodyCodec = { mediaType: 'text/*', decode: (response) => response.text() };
+
+describe('getMediaType', () => {
+  test('it removes parameters and lowercases the media type', () => {
+    expect(getMediaType(' Application/JSON ; charset=utf-8')).toBe('application/json');
+  });
+});
+
+describe('BodyCodecRegistry', () => {
+  test('it starts with the built-in codecs', () => {
+    const registry = new BodyCodecRegistry();
+
+    expect(registry.find('application/json')).toBeInstanceOf(JsonBodyCodec);
+    expect(registry.find('application/problem+json')).toBeInstanceOf(ProblemJsonBodyCodec);
+    expect(registry.find('application/x-www-form-urlencoded')).toBeInstanceOf(FormUrlEncodedBodyCodec);
+    expect(registry.find('multipart/form-data; boundary=abc')).toBeInstanceOf(MultipartBodyCodec);
+    expect(registry.find('application/octet-stream')).toBeInstanceOf(OctetStreamBodyCodec);
+    expect(registry.find('text/csv')).toBeInstanceOf(CsvBodyCodec);
+  });
+
+  test('it finds the most specific codec for a media type', () => {
+    const suffixCodec: BodyCodec = { mediaType: 'application/*+json' };
+    const anyCodec: BodyCodec = { mediaType: '*/*' };
+    const registry = new BodyCodecRegistry([textCodec]);
+
+    expect(registry.find('application/vnd.api+json')).toBeInstanceOf(JsonBodyCodec);
+    expect(registry.find('text/html')).toBe(textCodec);
+    expect(registry.find('text/csv')).toBeInstanceOf(CsvBodyCodec);
+    expect(registry.find('image/png')).toBeUndefined();
+
+    registry.register(suffixCodec);
+    registry.register(anyCodec);
+
+    expect(registry.find('application/vnd.api+json')).toBe(suffixCodec);
+    expect(registry.find('application/json')).toBeInstanceOf(JsonBodyCodec);
+    expect(registry.find('image/png')).toBe(anyCodec);
+  });
+
+  test('registering a codec for a media type replaces the existing one', () => {
+    const jsonCodec: BodyCodec = { mediaType: 'Application/JSON' };
+    const registry = new BodyCodecRegistry([jsonCodec]);
+
+    expect(registry.find('application/json')).toBe(jsonCodec);
+
+    registry.unregister('application/json');
+
+    expect(registry.find('application/json')).toBeUndefined();
+  });
+
+  test('it finds the most recently registered codec that can encode a body', () => {
+    const formCodec: BodyCodec = { mediaType: 'application/x-custom-form', canEncode: (body) => body instanceof FormData };
+    const registry = new BodyCodecRegistry();
+
+    expect(registry.findEncoder(new FormData())).toBeInstanceOf(MultipartBodyCodec);
+    expect(registry.findEncoder(new MultipartBuilder())).toBeInstanceOf(MultipartBodyCodec);
+    expect(registry.findEncoder(new URLSearchParams())).toBeInstanceOf(FormUrlEncodedBodyCodec);
+    expect(registry.findEncoder(new Blob())).toBeInstanceOf(OctetStreamBodyCodec);
+    expect(registry.findEncoder({ name: 'Bob' })).toBeUndefined();
+
+    registry.register(formCodec);
+
+    expect(registry.findEncoder(new FormData())).toBe(formCodec);
+  });
+
+  test('it generates the Accept header from the codecs that decode', () => {
+    const registry = new BodyCodecRegistry([{ ...textCodec, quality: 0.7 }, { mediaType: 'application/xml' }]);
+
+    expect(registry.getAccept()).toBe(
+      'application/json, application/problem+json, text/csv;q=0.9, text/*;q=0.7, application/octet-stream;q=0.5, */*;q=0.1'
+    );
+    expect(registry.getAccept('Text/CSV')).toBe(
+      'text/csv, application/json, application/problem+json, text/*;q=0.7, application/octet-stream;q=0.5, */*;q=0.1'
+    );
+  });
+});
+
+describe('FormUrlEncodedBodyCodec', () => {
+  const codec = new FormUrlEncodedBodyCodec();
+
+  test('it encodes params and decodes forms', async () => {
+    expect(codec.encode({ name: 'Jo Smith', tags: ['a', 'b'] })).toBe('name=Jo%20Smith&tags=a&tags=b');
+    expect(codec.encode(new URLSearchParams({ q: 'a&b' }))).toBe('q=a%26b');
+    expect((await codec.decode(new Response('a=1&a=2&b=x+y'))).getAll('a')).toEqual(['1', '2']);
+  });
+});
+
+describe('MultipartBodyCodec', () => {
+  const codec = new MultipartBodyCodec();
+
+  test('it encodes objects into FormData', () => {
+    const file = new Blob(['hi'], { type: 'text/plain' });
+    const formData = codec.encode({ name: 'Jo', tags: ['a', 'b'], file, missing: undefined }) as FormData;
+
+    expect(formData.get('name')).toBe('Jo');
+    expect(formData.getAll('tags')).toEqual(['a', 'b']);
+    expect(formData.get('file')).toBeInstanceOf(Blob);
+    expect(formData.has('missing')).toBe(false);
+  });
+});
+
+describe('OctetStreamBodyCodec', () => {
+  test('it decodes into an ArrayBuffer or a Blob', async () => {
+    const arrayBuffer = await new OctetStreamBodyCodec().decode(new Response(new Uint8Array([1, 2, 3])));
+    const blob = await new OctetStreamBodyCodec({ decodeAs: 'blob' }).decode(new Response(new Uint8Array([1, 2, 3])));
+
+    expect(arrayBuffer).toBeInstanceOf(ArrayBuffer);
+    expect((arrayBuffer as ArrayBuffer).byteLength).toBe(3);
+    expect(blob).toBeInstanceOf(Blob);
+  });
+});
+
+describe('CsvBodyCodec', () => {
+  const codec = new CsvBodyCodec();
+
+  test('it encodes rows, quoting fields where needed', () => {
+    expect(
+      codec.encode([
+        ['id', 'note'],
+        [1, 'Says "hi", then\nleaves'],
+        [2, null],
+      ])
+    ).toBe('id,note\r\n1,"Says ""hi"", then\nleaves"\r\n2,');
+    expect(codec.encode('a,b')).toBe('a,b');
+  });
+
+  test('it decodes rows, including quoted fields and line breaks', async () => {
+    const rows = await codec.decode(new Response('id,note\r\n1,"Says ""hi"", then\nleaves"\r\n2,\n'));
+
+    expect(rows).toEqual([
+      ['id', 'note'],
+      ['1', 'Says "hi", then\nleaves'],
+      ['2', ''],
+    ]);
+  });
+
+  test('it uses the provided delimiter', async () => {
+    const semicolonCodec = new CsvBodyCodec({ delimiter: ';' });
+
+    expect(semicolonCodec.encode([['a;b', 'c']])).toBe('"a;b";c');
+    expect(await semicolonCodec.decode(new Response('"a;b";c'))).toEqual([['a;b', 'c']]);
+    expect(() => new CsvBodyCodec({ delimiter: '' })).toThrowError(
+      'Could not create CsvBodyCodec. Provided delimiter "" is not a single, valid character.'
+    );
+  });
+});
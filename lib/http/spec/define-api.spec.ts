@@ -0,0 +1,179 @@
+import fetch from 'cross-fetch';
+import { afterEach, describe, expect, expectTypeOf, Mock, test, vi } from 'vitest';
+import { apiType, defineApi } from '../define-api';
+import { NotFoundError, ResponseValidationError } from '../errors';
+import { FetchHttpClient } from '../fetch-http-client.impl';
+import { PathParamValue } from '../path-params';
+
+const mockFetch = fetch as Mock;
+
+vi.mock(import('cross-fetch'), async (importOriginal) => {
+  const original = await importOriginal();
+
+  return {
+    ...original,
+    default: vi.fn(() => Promise.resolve(new Response())),
+  };
+});
+
+interface User {
+  id: number;
+  name: string;
+}
+
+interface NewUser {
+  name: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+const createApi = (client: FetchHttpClient) =>
+  defineApi(
+    {
+      getUser: { method: 'GET', path: '/users/:id', response: apiType<User>() },
+      createUser: { method: 'POST', path: '/users', body: apiType<NewUser>(), response: apiType<User>() },
+      searchUsers: {
+        method: 'GET',
+        path: '/users',
+        query: apiType<{ name: string; limit?: number }>(),
+        response: apiType<User[]>(),
+      },
+      countUsers: {
+        method: 'GET',
+        path: '/users/count',
+        responseBodyParser: async (body) => Number(await new Response(body).text()),
+      },
+      getUserName: {
+        method: 'GET',
+        path: '/users/:id/name',
+        schema: (body: unknown): body is string => typeof body === 'string',
+      },
+      deleteUser: {
+        method: 'DELETE',
+        path: '/users/{id}',
+        defaults: { allowThrow: true, failOnHttpError: true, options: { headers: { 'x-reason': 'cleanup' } } },
+      },
+    },
+    { client }
+  );
+
+describe('defineApi', () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(() => Promise.resolve(new Response()));
+  });
+
+  test('it sends requests for a route via the client', async () => {
+    const client = new FetchHttpClient({ baseUrl: 'https://somecoolsite.com/api' });
+    const api = createApi(client);
+    mockFetch.mockImplementation(() => Promise.resolve(jsonResponse({ id: 5, name: 'Bob' })));
+
+    const { body } = await api.getUser({ params: { id: 5 } });
+
+    expect(body).toEqual({ id: 5, name: 'Bob' });
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://somecoolsite.com/api/users/5',
+      expect.objectContaining({ method: 'GET' })
+    );
+  });
+
+  test('it sends the body and query', async () => {
+    const api = createApi(new FetchHttpClient({ host: 'somecoolsite.com' }));
+
+    await api.createUser({ body: { name: 'Bob' } });
+    await api.searchUsers({ query: { name: 'Bob', limit: 2 } });
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'http://somecoolsite.com/users',
+      expect.objectContaining({ method: 'POST', body: '{"name":"Bob"}' })
+    );
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      'http://somecoolsite.com/users?name=Bob&limit=2',
+      expect.objectContaining({ method: 'GET' })
+    );
+  });
+
+  test("it uses the route's parser", async () => {
+    const api = createApi(new FetchHttpClient());
+    mockFetch.mockImplementation(() => Promise.resolve(new Response('42')));
+
+    const { body } = await api.countUsers();
+
+    expect(body).toBe(42);
+  });
+
+  test("it validates the response with the route's schema", async () => {
+    const api = createApi(new FetchHttpClient());
+    mockFetch.mockImplementation(() => Promise.resolve(jsonResponse(5)));
+
+    const { error } = await api.getUserName({ params: { id: 5 } });
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+  });
+
+  test("it uses the route's defaults, merging headers with the request's", async () => {
+    const client = new FetchHttpClient();
+    const api = createApi(client);
+    const handleError = vi.fn();
+    client.onError.subscribe(handleError);
+    mockFetch.mockImplementation(() => Promise.resolve(new Response(null, { status: 404 })));
+
+    await expect(
+      api.deleteUser({ params: { id: 5 }, options: { headers: { authorization: 'Bearer token' } } })
+    ).rejects.toThrowError(NotFoundError);
+
+    expect(handleError).toHaveBeenCalledWith(expect.any(NotFoundError));
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/users/5',
+      expect.objectContaining({
+        headers: expect.objectContaining({ authorization: 'Bearer token', 'x-reason': 'cleanup' }),
+      })
+    );
+  });
+
+  test("data provided when calling a route overrides the route's defaults", async () => {
+    const api = createApi(new FetchHttpClient());
+    mockFetch.mockImplementation(() => Promise.resolve(new Response(null, { status: 404 })));
+
+    const { error } = await api.deleteUser({ params: { id: 5 }, allowThrow: false });
+
+    expect(error).toBeInstanceOf(NotFoundError);
+  });
+
+  describe('types', () => {
+    const api = createApi(new FetchHttpClient());
+
+    test('it infers the response type', () => {
+      expectTypeOf(api.getUser).returns.resolves.toHaveProperty('body').toEqualTypeOf<User | undefined>();
+      expectTypeOf(api.countUsers).returns.resolves.toHaveProperty('body').toEqualTypeOf<number | undefined>();
+      expectTypeOf(api.getUserName).returns.resolves.toHaveProperty('body').toEqualTypeOf<string | undefined>();
+    });
+
+    test('it requires the params, query, and body the route needs', () => {
+      expectTypeOf(api.getUser).parameter(0).toHaveProperty('params').toEqualTypeOf<{ id: PathParamValue }>();
+      expectTypeOf(api.createUser).parameter(0).toHaveProperty('body').toEqualTypeOf<NewUser>();
+      expectTypeOf(api.searchUsers)
+        .parameter(0)
+        .toHaveProperty('query')
+        .toEqualTypeOf<{ name: string; limit?: number }>();
+
+      const assertTypes = () => {
+        // @ts-expect-error
+        api.getUser();
+        // @ts-expect-error
+        api.createUser({ body: { id: 5 } });
+        // @ts-expect-error
+        api.countUsers({ body: { name: 'Bob' } });
+      };
+
+      expect(assertTypes).toBeDefined();
+    });
+
+    test('it makes the request data optional when nothing is required', () => {
+      expectTypeOf(api.countUsers).parameters.toEqualTypeOf<[request?: Parameters<typeof api.countUsers>[0]]>();
+    });
+  });
+});
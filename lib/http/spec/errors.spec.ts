@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest';
+import {
+  BadRequestError,
+  ClientError,
+  ConflictError,
+  createHttpError,
+  ForbiddenError,
+  HttpError,
+  NotFoundError,
+  ServerError,
+  ServiceUnavailableError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from '../errors';
+import { NormalizedHttpRequest } from '../http-client.interface';
+import { HttpStatus } from '../http-status.enum';
+
+const request: NormalizedHttpRequest<RequestInit> = {
+  method: 'GET',
+  url: 'http://google.com/things',
+  headers: {},
+  options: {},
+};
+
+describe('createHttpError', () => {
+  test.each([
+    [HttpStatus.BadRequest, BadRequestError],
+    [HttpStatus.Unauthorized, UnauthorizedError],
+    [HttpStatus.Forbidden, ForbiddenError],
+    [HttpStatus.NotFound, NotFoundError],
+    [HttpStatus.Conflict, ConflictError],
+    [HttpStatus.TooManyRequests, TooManyRequestsError],
+    [HttpStatus.ImATeapot, ClientError],
+    [HttpStatus.ServiceUnavailable, ServiceUnavailableError],
+    [HttpStatus.InternalServerError, ServerError],
+    [HttpStatus.NotModified, HttpError],
+  ])('creates the right error for status %i', (status, ErrorClass) => {
+    const error = createHttpError(request, new Response(null, { status }), undefined);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.name).toBe(ErrorClass.name);
+  });
+  test('4xx errors are client errors and 5xx errors are server errors', () => {
+    expect(createHttpError(request, new Response(null, { status: 404 }), undefined)).toBeInstanceOf(ClientError);
+    expect(createHttpError(request, new Response(null, { status: 503 }), undefined)).toBeInstanceOf(ServerError);
+    expect(createHttpError(request, new Response(null, { status: 503 }), undefined)).not.toBeInstanceOf(ClientError);
+  });
+  test('describes the failed request in its message', () => {
+    const error = createHttpError(request, new Response(null, { status: 404, statusText: 'Not Found' }), undefined);
+
+    expect(error.message).toBe('GET http://google.com/things failed with status 404 (Not Found).');
+  });
+  test('includes the problem details the response described', () => {
+    const problem = { type: 'https://example.com/probs/out-of-credit', title: 'You do not have enough credit.' };
+    const response = new Response(null, { status: 403, headers: { 'content-type': 'application/problem+json' } });
+
+    const error = createHttpError(request, response, { ...problem, balance: 30 });
+
+    expect(error.problem).toEqual({ ...problem, balance: 30 });
+    expect(error.message).toBe('GET http://google.com/things failed with status 403: You do not have enough credit.');
+    expect(createHttpError(request, new Response(null, { status: 403 }), problem).problem).toBeUndefined();
+  });
+});
@@ -1,13 +1,31 @@
 import fetch from 'cross-fetch';
-import { afterEach, beforeEach, describe, expect, Mock, test, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, Mock, test, vi } from 'vitest';
+import { BearerAuthProvider, OAuth2AuthProvider } from '../auth-providers';
+import { BodyCodec } from '../body-codecs';
+import {
+  ClientError,
+  HttpError,
+  InvalidUrlError,
+  NotFoundError,
+  PathParamsError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  ResponseValidationError,
+  ServerError,
+  UnauthorizedError,
+} from '../errors';
 import { FetchHttpClient, FetchService } from '../fetch-http-client.impl';
 import { HttpProtocol } from '../http-client.interface';
+import { MultipartBuilder } from '../multipart';
+import { ResponseValidator } from '../response-validation';
+import { ResponseStream } from '../streaming';
 
 const mockFetch = fetch as Mock;
 
 const protocol = HttpProtocol.Http;
 const host = 'google.com';
 const uri = `${protocol}://${host}`;
+const defaultAccept = 'application/json, application/problem+json, text/csv;q=0.9, application/octet-stream;q=0.5, */*;q=0.1';
 
 vi.mock(import('cross-fetch'), async (importOriginal) => {
   const original = await importOriginal();
@@ -43,6 +61,36 @@ describe('FetchHttpClient', () => {
     }).toThrow();
   });
 
+  test('throws error when trying to create a client with an invalid host', () => {
+    expect(() => {
+      new FetchHttpClient({
+        host: 'exa mple.com',
+      });
+    }).toThrow();
+  });
+
+  describe('baseUrl', () => {
+    test('sets the protocol, host, and path', () => {
+      const httpClient = new FetchHttpClient({ baseUrl: 'https://my-api.example.com:8443/v2' });
+
+      expect(httpClient.protocol).toBe(HttpProtocol.Https);
+      expect(httpClient.host).toBe('my-api.example.com:8443');
+      expect(httpClient.path).toBe('/v2');
+      // @ts-ignore
+      expect(httpClient._getTreatedUri('/users')).toBe('https://my-api.example.com:8443/v2/users');
+    });
+    test('the protocol, host, and path options take precedence', () => {
+      const httpClient = new FetchHttpClient({ baseUrl: 'https://example.com/v2', path: '/v3' });
+
+      // @ts-ignore
+      expect(httpClient._getTreatedUri('/users')).toBe('https://example.com/v3/users');
+    });
+    test('throws when the base URL is invalid or does not use HTTP(S)', () => {
+      expect(() => new FetchHttpClient({ baseUrl: 'example.com' })).toThrow();
+      expect(() => new FetchHttpClient({ baseUrl: 'ftp://example.com' })).toThrow();
+    });
+  });
+
   describe('getTreatedUri', () => {
     test('includes the default protocol, host, and path when they exist', () => {
       const httpClient = new FetchHttpClient({ protocol, host, path: '/api' });
@@ -156,7 +204,7 @@ describe('FetchHttpClient', () => {
         expect(mockFetch).toHaveBeenCalledWith(uri, {
           method: 'GET',
           headers: {
-            accept: '*/*',
+            accept: defaultAccept,
           },
         });
       });
@@ -173,12 +221,24 @@ describe('FetchHttpClient', () => {
         expect(mockFetch).toHaveBeenCalledWith(uri, {
           method: 'POST',
           headers: {
-            accept: 'application/json, */*;q=0.9',
+            accept: defaultAccept,
             'content-type': 'application/json',
           },
           body: JSON.stringify(body),
         });
       });
+      test(`keeps an Accept header that was provided`, () => {
+        FetchService.makeRequest('POST', uri, {
+          body: {},
+          options: {
+            headers: {
+              Accept: 'text/event-stream',
+            },
+          },
+        });
+
+        expect(mockFetch.mock.calls[0][1].headers.accept).toBe('text/event-stream');
+      });
     });
     describe('Content-Type present', () => {
       test(`uses the provided Content-Type`, () => {
@@ -197,7 +257,7 @@ describe('FetchHttpClient', () => {
         expect(mockFetch).toHaveBeenCalledWith(uri, {
           method: 'POST',
           headers: {
-            accept: 'text/plain, */*;q=0.9',
+            accept: `text/plain, ${defaultAccept}`,
             'content-type': 'text/plain',
           },
           body,
@@ -219,7 +279,7 @@ describe('FetchHttpClient', () => {
         expect(mockFetch).toHaveBeenCalledWith(uri, {
           method: 'POST',
           headers: {
-            accept: 'application/xml, */*;q=0.9',
+            accept: `application/xml, ${defaultAccept}`,
             'content-type': 'application/xml',
           },
           body,
@@ -381,7 +441,7 @@ describe('FetchHttpClient', () => {
         expect(mockFetch).toHaveBeenCalledWith(`${uri}/something`, {
           method: 'GET',
           headers: {
-            accept: '*/*',
+            accept: defaultAccept,
           },
         });
       });
@@ -394,7 +454,7 @@ describe('FetchHttpClient', () => {
         expect(mockFetch).toHaveBeenCalledWith(`/something`, {
           method: 'GET',
           headers: {
-            accept: '*/*',
+            accept: defaultAccept,
           },
         });
       });
@@ -418,7 +478,7 @@ describe('FetchHttpClient', () => {
           headers: {
             authorization: '1234',
             'x-powered-by': 'jtjs',
-            accept: '*/*',
+            accept: defaultAccept,
           },
         });
       });
@@ -446,11 +506,87 @@ describe('FetchHttpClient', () => {
           headers: {
             authorization: 'blah',
             'x-powered-by': 'jtjs',
-            accept: '*/*',
+            accept: defaultAccept,
           },
         });
       });
     });
+    test(`fails with an InvalidUrlError when the URI is invalid`, async () => {
+      const handleError = vi.fn();
+      const client = new FetchHttpClient();
+      client.onError.subscribe(handleError);
+
+      await client.get('http://exa mple.com');
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(handleError).toHaveBeenCalledWith(expect.any(InvalidUrlError));
+    });
+    describe('params', () => {
+      test(`fills in the URI's placeholders before applying the host and path`, async () => {
+        const client = new FetchHttpClient({ host, path: '/api' });
+
+        await client.get('/users/:id/posts/{postId}', { params: { id: 'jo smith', postId: 5 } });
+
+        expect(mockFetch.mock.calls[0][0]).toBe(`${uri}/api/users/jo%20smith/posts/5`);
+      });
+      test(`fails with a PathParamsError when the parameters don't match the placeholders`, async () => {
+        const handleError = vi.fn();
+        const client = new FetchHttpClient();
+        client.onError.subscribe(handleError);
+
+        // @ts-expect-error
+        await client.get('/users/:id', { params: { userId: 1 } });
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(handleError).toHaveBeenCalledWith(expect.any(PathParamsError));
+      });
+      test(`fails with a PathParamsError when the URI has placeholders but no parameters were provided`, async () => {
+        const handleError = vi.fn();
+        const client = new FetchHttpClient();
+        client.onError.subscribe(handleError);
+
+        // @ts-expect-error
+        await client.get('/users/:id');
+        // @ts-expect-error
+        await client.post('/users/{id}', { body: { name: 'Jo' } });
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(handleError).toHaveBeenCalledTimes(2);
+        expect(handleError).toHaveBeenCalledWith(expect.any(PathParamsError));
+      });
+    });
+    describe('query', () => {
+      test(`adds the query to the URI`, async () => {
+        const client = new FetchHttpClient({ host, path: '/api' });
+
+        await client.get('/search?page=2', { query: { q: 'cats & dogs', tags: ['a', 'b'] } });
+
+        expect(mockFetch.mock.calls[0][0]).toBe(`${uri}/api/search?page=2&q=cats%20%26%20dogs&tags=a&tags=b`);
+      });
+      test(`includes the default query`, async () => {
+        const client = new FetchHttpClient({ defaultQuery: { api_key: 'abc', lang: 'en' } });
+
+        await client.get(uri, { query: { lang: 'fr' } });
+
+        expect(mockFetch.mock.calls[0][0]).toBe(`${uri}?api_key=abc&lang=fr`);
+      });
+      test(`does not override the query in the URI with the default query`, async () => {
+        const client = new FetchHttpClient({ defaultQuery: { page: 1, lang: 'en' } });
+
+        await client.get(`${uri}/items?page=3`);
+
+        expect(mockFetch.mock.calls[0][0]).toBe(`${uri}/items?page=3&lang=en`);
+      });
+      test(`uses the configured array format`, async () => {
+        const client = new FetchHttpClient({ queryArrayFormat: 'comma' });
+
+        await client.get(uri, { query: { ids: [1, 2] } });
+        await client.get(uri, { query: { ids: [1, 2] }, queryArrayFormat: 'brackets' });
+
+        expect(mockFetch.mock.calls[0][0]).toBe(`${uri}?ids=1,2`);
+        expect(mockFetch.mock.calls[1][0]).toBe(`${uri}?ids%5B%5D=1&ids%5B%5D=2`);
+      });
+    });
     describe('throws errors properly', () => {
       beforeEach(() => {
         mockFetch.mockRejectedValueOnce(new Error('Big bad network error!'));
@@ -555,6 +691,109 @@ describe('FetchHttpClient', () => {
       expect(mockFetch.mock.calls[2][0]).toBe('/somewhere/else');
     });
 
+    test(`requests are spaced out by exactly the rate limit`, async () => {
+      vi.useFakeTimers({ now: 0 });
+
+      try {
+        const sentAt: number[] = [];
+        const http = new FetchHttpClient({ rateLimitMs: 5 });
+        http.onSendRequest.subscribe(() => sentAt.push(Date.now()));
+
+        const promises = [http.get('/a'), http.get('/b'), http.get('/c')];
+
+        await vi.runAllTimersAsync();
+        await Promise.all(promises);
+
+        expect(sentAt).toEqual([0, 5, 10]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+    test(`the scheduler's limits are combined with the rate limit`, async () => {
+      const http = new FetchHttpClient({ rateLimitMs: 1, scheduler: { maxConcurrency: 1 } });
+
+      expect(http.scheduler.maxConcurrency).toBe(1);
+
+      await Promise.all([http.get('/a'), http.get('/b')]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`only the configured number of requests are in flight at once`, async () => {
+      const resolvers: ((response: Response) => void)[] = [];
+      mockFetch.mockImplementation(() => new Promise((resolve) => resolvers.push(resolve)));
+
+      try {
+        const http = new FetchHttpClient({ scheduler: { maxConcurrency: 2 } });
+
+        const promises = [http.get('/a'), http.get('/b'), http.get('/c')];
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(http.scheduler.queueLength).toBe(1);
+
+        resolvers[0](new Response());
+        await promises[0];
+
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+
+        resolvers.slice(1).forEach((resolve) => resolve(new Response()));
+        await Promise.all(promises);
+      } finally {
+        mockFetch.mockImplementation(() => Promise.resolve(new Response()));
+      }
+    });
+    test(`adapts to the limits the server reports when adaptive`, async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '60' } })
+      );
+
+      const http = new FetchHttpClient({ scheduler: { adaptive: true } });
+
+      await http.get('/a');
+      const pending = http.get('/b', { timeoutMs: 10 });
+
+      expect((await pending).error).toBeInstanceOf(RequestTimeoutError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test(`requests with a higher priority are sent first`, async () => {
+      const http = new FetchHttpClient({ rateLimitMs: 5 });
+
+      await Promise.all([
+        http.get('/first'),
+        http.get('/bulk', { priority: -1 }),
+        http.get('/normal'),
+        http.get('/urgent', { priority: 10 }),
+      ]);
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual(['/first', '/urgent', '/normal', '/bulk']);
+    });
+    test(`requests are queued by host unless they have a queue key`, async () => {
+      const http = new FetchHttpClient({ rateLimitMs: 1_000 });
+
+      const promises = [
+        http.get(`${uri}/first`, { timeoutMs: 50 }),
+        http.get(`${uri}/second`, { timeoutMs: 50 }),
+        http.get('http://example.com/third', { timeoutMs: 50 }),
+        http.get('http://example.com/fourth', { queueKey: 'sync', priority: 2, timeoutMs: 50 }),
+      ];
+
+      const stats = http.getQueueStats();
+
+      expect(stats.length).toBe(3);
+      expect(stats.activeCount).toBe(1);
+      expect(stats.pending.map(({ url, queueKey }) => [url, queueKey])).toEqual([
+        ['http://example.com/fourth', 'sync'],
+        // The host's queue already had its turn.
+        ['http://example.com/third', 'example.com'],
+        [`${uri}/second`, host],
+      ]);
+      expect(http.getQueueStats(host).length).toBe(1);
+
+      await Promise.all(promises);
+
+      expect(http.getQueueStats().length).toBe(0);
+    });
+
     describe('no limiting...', () => {
       test(`on first request`, async () => {
         const http = new FetchHttpClient({
@@ -584,6 +823,1283 @@ describe('FetchHttpClient', () => {
     });
   });
 
+  describe('retries', () => {
+    const retryPolicy = { maxAttempts: 3, baseDelayMs: 1, jitter: false };
+
+    test(`does not retry by default`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      const result = await new FetchHttpClient().get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.response?.status).toBe(503);
+    });
+    test(`retries retryable statuses until a request succeeds`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockResolvedValueOnce(new Response(null, { status: 500 }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+      const result = await new FetchHttpClient({ retryPolicy }).get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(result.body).toBe('ok');
+    });
+    test(`cancels the body of a response that's retried`, async () => {
+      const cancel = vi.fn();
+      mockFetch
+        .mockResolvedValueOnce(new Response(new ReadableStream({ cancel }), { status: 503 }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+      await new FetchHttpClient({ retryPolicy }).get(uri);
+
+      expect(cancel).toHaveBeenCalledOnce();
+    });
+    test(`does not retry requests with a streamed body`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      const body = new MultipartBuilder().append(
+        'file',
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('data'));
+            controller.close();
+          },
+        })
+      );
+      const result = await new FetchHttpClient({ retryPolicy }).put(uri, { body });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.error).toBeUndefined();
+      expect(result.response?.status).toBe(503);
+    });
+    test(`retries network errors`, async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Boom!')).mockResolvedValueOnce(new Response('ok'));
+
+      const handleError = vi.fn();
+      const client = new FetchHttpClient({ retryPolicy });
+      client.onError.subscribe(handleError);
+
+      const result = await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(handleError).not.toHaveBeenCalled();
+      expect(result.body).toBe('ok');
+    });
+    test(`gives back the last response when attempts are exhausted`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 502 }))
+        .mockResolvedValueOnce(new Response(null, { status: 502 }))
+        .mockResolvedValueOnce(new Response(null, { status: 502 }));
+
+      const result = await new FetchHttpClient({ retryPolicy }).get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(result.response?.status).toBe(502);
+    });
+    test(`invokes onError once when every attempt failed with a network error`, async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('1'))
+        .mockRejectedValueOnce(new Error('2'))
+        .mockRejectedValueOnce(new Error('3'));
+
+      const handleError = vi.fn();
+      const client = new FetchHttpClient({ retryPolicy });
+      client.onError.subscribe(handleError);
+
+      await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(handleError).toHaveBeenCalledTimes(1);
+      expect(handleError).toHaveBeenCalledWith(new Error('3'));
+    });
+    test(`does not retry statuses that aren't retryable`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+      await new FetchHttpClient({ retryPolicy }).get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    test(`does not retry non-idempotent methods by default`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      await new FetchHttpClient({ retryPolicy }).post(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    test(`per-request policies override the client's policy`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      await new FetchHttpClient({ retryPolicy }).post(uri, {
+        retryPolicy: { maxAttempts: 2, retryableMethods: ['POST'] },
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`invokes onRetry for every retry`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockRejectedValueOnce(new Error('Boom!'))
+        .mockResolvedValueOnce(new Response());
+
+      const handleRetry = vi.fn();
+      const client = new FetchHttpClient({ retryPolicy });
+      client.onRetry.subscribe(handleRetry);
+
+      await client.get(uri);
+
+      expect(handleRetry).toHaveBeenCalledTimes(2);
+      expect(handleRetry).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ attempt: 1, maxAttempts: 3, delayMs: 1, method: 'GET', url: uri })
+      );
+      expect(handleRetry).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ attempt: 2, delayMs: 2, error: new Error('Boom!') })
+      );
+    });
+    test(`respects the Retry-After header`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'retry-after': '1' } }))
+        .mockResolvedValueOnce(new Response());
+
+      const handleRetry = vi.fn();
+      const client = new FetchHttpClient({ retryPolicy });
+      client.onRetry.subscribe(handleRetry);
+
+      await client.get(uri);
+
+      expect(handleRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 1_000 }));
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    const mockPendingFetch = () => {
+      mockFetch.mockImplementationOnce(
+        (_, init: RequestInit) =>
+          new Promise((_, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('Aborted by fetch')));
+          })
+      );
+    };
+
+    test(`does not give fetch a signal when there's no timeout or signal`, async () => {
+      await new FetchHttpClient().get(uri);
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeUndefined();
+    });
+    test(`fails with a RequestTimeoutError when the client's timeout elapses`, async () => {
+      mockPendingFetch();
+
+      const handleError = vi.fn();
+      const client = new FetchHttpClient({ timeoutMs: 10 });
+      client.onError.subscribe(handleError);
+
+      const result = await client.get(uri);
+
+      expect(result.response).toBeUndefined();
+      expect(handleError).toHaveBeenCalledWith(expect.any(RequestTimeoutError));
+    });
+    test(`the request's timeout overrides the client's timeout`, async () => {
+      mockPendingFetch();
+
+      const client = new FetchHttpClient({ timeoutMs: 60_000 });
+
+      await expect(client.get(uri, { timeoutMs: 10, allowThrow: true })).rejects.toThrow(RequestTimeoutError);
+    });
+    test(`fails with a RequestAbortedError when the signal aborts`, async () => {
+      mockPendingFetch();
+
+      const controller = new AbortController();
+      const request = FetchService.get(uri, { signal: controller.signal, allowThrow: true });
+
+      controller.abort('Changed my mind');
+
+      const error = await request.catch((error) => error);
+
+      expect(error).toBeInstanceOf(RequestAbortedError);
+      expect(error.reason).toBe('Changed my mind');
+    });
+    test(`does not make the request when the signal was already aborted`, async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      mockFetch.mockImplementationOnce((_, init: RequestInit) =>
+        init.signal?.aborted ? Promise.reject(new Error('Aborted by fetch')) : Promise.resolve(new Response())
+      );
+
+      await expect(FetchService.get(uri, { signal: controller.signal, allowThrow: true })).rejects.toThrow(
+        RequestAbortedError
+      );
+    });
+    test(`does not retry aborted requests`, async () => {
+      mockPendingFetch();
+
+      const client = new FetchHttpClient({ retryPolicy: { maxAttempts: 3, baseDelayMs: 1 } });
+
+      await client.get(uri, { timeoutMs: 10 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    test(`a request aborted while queued is removed from the queue`, async () => {
+      const http = new FetchHttpClient({
+        rateLimitMs: 50,
+      });
+      const controller = new AbortController();
+
+      const first = http.get('/first');
+      const second = http.get('/second', { signal: controller.signal, allowThrow: true });
+      const third = http.get('/third');
+
+      controller.abort();
+
+      await expect(second).rejects.toThrow(RequestAbortedError);
+      await Promise.all([first, third]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toBe('/first');
+      expect(mockFetch.mock.calls[1][0]).toBe('/third');
+    });
+  });
+
+  describe('HTTP errors', () => {
+    const mockJsonResponse = (status: number, body: any) => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } })
+      );
+    };
+
+    test(`non-200 series responses are not errors by default`, async () => {
+      mockJsonResponse(500, { message: 'Oops' });
+
+      const handleError = vi.fn();
+      const client = new FetchHttpClient();
+      client.onError.subscribe(handleError);
+
+      const result = await client.get(uri);
+
+      expect(handleError).not.toHaveBeenCalled();
+      expect(result.response?.status).toBe(500);
+      expect(result.body).toEqual({ message: 'Oops' });
+    });
+    test(`non-200 series responses are errors when the client fails on HTTP errors`, async () => {
+      mockJsonResponse(404, { message: 'Nope' });
+
+      const handleError = vi.fn();
+      const client = new FetchHttpClient({ failOnHttpError: true });
+      client.onError.subscribe(handleError);
+
+      const result = await client.get(uri);
+
+      expect(result.response).toBeUndefined();
+      expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(handleError).toHaveBeenCalledWith(result.error);
+    });
+    test(`the request's setting overrides the client's setting`, async () => {
+      mockJsonResponse(500, {});
+      mockJsonResponse(500, {});
+
+      const result = await new FetchHttpClient({ failOnHttpError: true }).get(uri, { failOnHttpError: false });
+      const otherResult = await new FetchHttpClient().get(uri, { failOnHttpError: true });
+
+      expect(result.error).toBeUndefined();
+      expect(otherResult.error).toBeInstanceOf(ServerError);
+    });
+    test(`the error carries the request, response, and parsed body`, async () => {
+      mockJsonResponse(401, { message: 'Who are you?' });
+
+      const error = await FetchService.get(uri, { failOnHttpError: true, allowThrow: true }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(UnauthorizedError);
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.status).toBe(401);
+      expect(error.body).toEqual({ message: 'Who are you?' });
+      expect(error.response.status).toBe(401);
+      expect(error.request).toEqual(expect.objectContaining({ method: 'GET', url: uri }));
+    });
+    test(`200 series responses are not errors`, async () => {
+      mockJsonResponse(201, { id: 1 });
+
+      const result = await FetchService.post(uri, { failOnHttpError: true });
+
+      expect(result.error).toBeUndefined();
+      expect(result.body).toEqual({ id: 1 });
+    });
+    test(`middleware can handle HTTP errors`, async () => {
+      mockJsonResponse(404, {});
+
+      const client = new FetchHttpClient({ failOnHttpError: true });
+      client.use(async (request, next) => {
+        try {
+          return await next();
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return { response: error.response, body: null };
+          }
+
+          throw error;
+        }
+      });
+
+      const result = await client.get(uri);
+
+      expect(result.error).toBeUndefined();
+      expect(result.body).toBeNull();
+    });
+  });
+
+  describe('uploads', () => {
+    test(`sends a MultipartBuilder with its boundary in the Content-Type`, async () => {
+      const body = new MultipartBuilder('test-boundary').append('name', 'Bob');
+
+      await FetchService.post(uri, { body, options: { headers: { 'content-type': 'multipart/form-data' } } });
+
+      const init = mockFetch.mock.calls[0][1];
+
+      expect(init.headers['content-type']).toBe('multipart/form-data; boundary=test-boundary');
+      expect(await (init.body as Blob).text()).toContain('Content-Disposition: form-data; name="name"\r\n\r\nBob');
+    });
+    test(`reports the progress of sending the body`, async () => {
+      mockFetch.mockImplementationOnce(async (_, init) => {
+        await new Response(init.body).text();
+
+        return new Response();
+      });
+
+      const handleProgress = vi.fn();
+
+      await FetchService.post(uri, { body: 'hello', onUploadProgress: handleProgress });
+
+      expect(handleProgress).toHaveBeenNthCalledWith(1, { loaded: 0, total: 7 });
+      expect(handleProgress).toHaveBeenLastCalledWith({ loaded: 7, total: 7 });
+      expect(mockFetch.mock.calls[0][1].headers['content-type']).toBe('application/json');
+    });
+  });
+
+  describe('problem details', () => {
+    const problem = {
+      type: 'https://example.com/probs/out-of-credit',
+      title: 'You do not have enough credit.',
+      detail: 'Your current balance is 30, but that costs 50.',
+      balance: 30,
+    };
+
+    const mockProblemResponse = (status = 403) => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify(problem), { status, headers: { 'content-type': 'application/problem+json' } })
+      );
+    };
+
+    test(`includes the problem in the result and triggers onProblem`, async () => {
+      mockProblemResponse();
+
+      const handleProblem = vi.fn();
+      const client = new FetchHttpClient();
+      client.onProblem.subscribe(handleProblem);
+
+      const result = await client.get(uri);
+
+      expect(result.body).toEqual(problem);
+      expect(result.problem).toEqual(problem);
+      expect(handleProblem).toHaveBeenCalledWith({
+        problem,
+        method: 'GET',
+        url: uri,
+        response: result.response,
+      });
+    });
+    test(`includes the problem in the error when the client fails on HTTP errors`, async () => {
+      mockProblemResponse();
+
+      const handleProblem = vi.fn();
+      const client = new FetchHttpClient({ failOnHttpError: true });
+      client.onProblem.subscribe(handleProblem);
+
+      const { error } = await client.get(uri);
+
+      expect((error as HttpError).problem).toEqual(problem);
+      expect(error?.message).toBe(`GET ${uri} failed with status 403: Your current balance is 30, but that costs 50.`);
+      expect(handleProblem).toHaveBeenCalledTimes(1);
+    });
+    test(`ignores successful responses and bodies from a custom parser`, async () => {
+      mockProblemResponse(200);
+      mockProblemResponse();
+
+      const handleProblem = vi.fn();
+      const client = new FetchHttpClient();
+      client.onProblem.subscribe(handleProblem);
+
+      const successfulResult = await client.get(uri);
+      const parsedResult = await client.get(uri, { responseBodyParser: () => Promise.resolve('parsed') });
+
+      expect(successfulResult.problem).toBeUndefined();
+      expect(parsedResult.problem).toBeUndefined();
+      expect(handleProblem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('middleware', () => {
+    test(`middleware can change the request`, async () => {
+      const client = new FetchHttpClient();
+      client.use((request, next) =>
+        next({
+          ...request,
+          url: `${request.url}/v2`,
+          headers: { ...request.headers, authorization: 'Bearer token' },
+        })
+      );
+
+      await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledWith(`${uri}/v2`, {
+        method: 'GET',
+        headers: {
+          accept: defaultAccept,
+          authorization: 'Bearer token',
+        },
+      });
+    });
+    test(`middleware can change the result`, async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify({ data: { prop: 1 } }), { headers: { 'content-type': 'application/json' } })
+      );
+
+      const client = new FetchHttpClient();
+      client.use(async (request, next) => {
+        const result = await next();
+
+        return { ...result, body: result.body.data };
+      });
+
+      const result = await client.get(uri);
+
+      expect(result.body).toEqual({ prop: 1 });
+    });
+    test(`middleware can short-circuit the request`, async () => {
+      const client = new FetchHttpClient();
+      client.use(() => ({ body: 'cached' }));
+
+      const result = await client.get(uri);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.body).toBe('cached');
+    });
+    test(`middleware can transform errors`, async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Boom!'));
+
+      const handleError = vi.fn();
+      const client = new FetchHttpClient();
+      client.onError.subscribe(handleError);
+      client.use(async (request, next) => {
+        try {
+          return await next();
+        } catch (error) {
+          throw new Error(`${request.method} ${request.url} failed`);
+        }
+      });
+
+      await client.get(uri);
+
+      expect(handleError).toHaveBeenCalledWith(new Error(`GET ${uri} failed`));
+    });
+    test(`middleware runs in the order it was added`, async () => {
+      const calls: string[] = [];
+
+      const client = new FetchHttpClient();
+      client.use(async (request, next) => {
+        calls.push('first before');
+        const result = await next();
+        calls.push('first after');
+
+        return result;
+      });
+      client.use(async (request, next) => {
+        calls.push('second before');
+        const result = await next();
+        calls.push('second after');
+
+        return result;
+      });
+
+      await client.get(uri);
+
+      expect(calls).toEqual(['first before', 'second before', 'second after', 'first after']);
+    });
+    test(`middleware runs once per request, outside of retries`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 503 })).mockResolvedValueOnce(new Response());
+
+      const middleware = vi.fn((request, next) => next());
+
+      const client = new FetchHttpClient({ retryPolicy: { maxAttempts: 2, baseDelayMs: 1 } });
+      client.use(middleware);
+
+      await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(middleware).toHaveBeenCalledTimes(1);
+    });
+    test(`middleware can be removed`, async () => {
+      const middleware = vi.fn((request, next) => next());
+      const otherMiddleware = vi.fn((request, next) => next());
+
+      const client = new FetchHttpClient();
+      const removeMiddleware = client.use(middleware);
+      client.use(otherMiddleware);
+
+      removeMiddleware();
+      client.removeMiddleware(otherMiddleware);
+
+      await client.get(uri);
+
+      expect(middleware).not.toHaveBeenCalled();
+      expect(otherMiddleware).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authentication', () => {
+    afterEach(() => {
+      mockFetch.mockImplementation(() => Promise.resolve(new Response()));
+    });
+
+    test(`applies the auth provider's credentials`, async () => {
+      const client = new FetchHttpClient({ authProvider: new BearerAuthProvider('abc') });
+
+      await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledWith(uri, {
+        method: 'GET',
+        headers: {
+          accept: defaultAccept,
+          authorization: 'Bearer abc',
+        },
+      });
+    });
+    test(`does not apply credentials when the request skips auth`, async () => {
+      const client = new FetchHttpClient({ authProvider: new BearerAuthProvider('abc') });
+
+      await client.get(uri, { skipAuth: true });
+
+      expect(mockFetch.mock.calls[0][1].headers.authorization).toBeUndefined();
+    });
+    test(`refreshes and replays a request that received a 401`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 401 })).mockResolvedValueOnce(new Response('ok'));
+
+      const client = new FetchHttpClient({
+        authProvider: new OAuth2AuthProvider({ accessToken: 'old', refreshAccessToken: () => Promise.resolve('new') }),
+      });
+
+      const result = await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][1].headers.authorization).toBe('Bearer old');
+      expect(mockFetch.mock.calls[1][1].headers.authorization).toBe('Bearer new');
+      expect(result.body).toBe('ok');
+    });
+    test(`only replays a request once`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 401 }))
+        .mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+      const refreshAccessToken = vi.fn(() => Promise.resolve('new'));
+      const client = new FetchHttpClient({
+        authProvider: new OAuth2AuthProvider({ accessToken: 'old', refreshAccessToken }),
+      });
+
+      const result = await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(result.response?.status).toBe(401);
+    });
+    test(`concurrent requests that received a 401 share a single refresh`, async () => {
+      mockFetch.mockImplementation((_, init: RequestInit) =>
+        Promise.resolve(
+          new Response(null, {
+            status: (init.headers as Record<string, string>).authorization === 'Bearer new' ? 200 : 401,
+          })
+        )
+      );
+
+      const refreshAccessToken = vi.fn(() => Promise.resolve('new'));
+      const client = new FetchHttpClient({
+        authProvider: new OAuth2AuthProvider({ accessToken: 'old', refreshAccessToken }),
+      });
+
+      const results = await Promise.all([client.get('/a'), client.get('/b'), client.get('/c')]);
+
+      expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(results.map(({ response }) => response?.status)).toEqual([200, 200, 200]);
+    });
+    test(`refreshing works while rate limited, even when the refresh uses the same client`, async () => {
+      mockFetch.mockImplementation((url: string, init: RequestInit) => {
+        const { authorization } = init.headers as Record<string, string>;
+
+        if (url === '/token') {
+          return Promise.resolve(new Response('new'));
+        }
+
+        return Promise.resolve(new Response(null, { status: authorization === 'Bearer new' ? 200 : 401 }));
+      });
+
+      const client: FetchHttpClient = new FetchHttpClient({
+        rateLimitMs: 20,
+        authProvider: new OAuth2AuthProvider({
+          accessToken: 'old',
+          refreshAccessToken: async () => (await client.post<string>('/token', { skipAuth: true })).body ?? '',
+        }),
+      });
+
+      const results = await Promise.all([client.get('/a'), client.get('/b')]);
+
+      expect(results.map(({ response }) => response?.status)).toEqual([200, 200]);
+      expect(mockFetch.mock.calls.filter(([url]) => url === '/token')).toHaveLength(1);
+    });
+  });
+
+  describe('caching', () => {
+    const cacheableResponse = (body: string, headers: Record<string, string> = {}) =>
+      new Response(body, { headers: { 'cache-control': 'max-age=60', ...headers } });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    test(`does not cache by default`, async () => {
+      mockFetch.mockResolvedValueOnce(cacheableResponse('1')).mockResolvedValueOnce(cacheableResponse('2'));
+
+      const client = new FetchHttpClient();
+
+      await client.get(uri);
+      const result = await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.body).toBe('2');
+    });
+    test(`gives back fresh responses from the cache`, async () => {
+      mockFetch.mockResolvedValueOnce(cacheableResponse('cached'));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      const result = await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.body).toBe('cached');
+      expect(result.response?.status).toBe(200);
+    });
+    test(`revalidates stale responses and treats 304 as a hit`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('cached', { headers: { etag: '"v1"' } }))
+        .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      const result = await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers['if-none-match']).toBe('"v1"');
+      expect(result.body).toBe('cached');
+      expect(result.response?.status).toBe(200);
+    });
+    test(`replaces the entry when the resource changed`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('v1', { headers: { etag: '"v1"' } }))
+        .mockResolvedValueOnce(new Response('v2', { headers: { etag: '"v2"' } }))
+        .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      expect((await client.get(uri)).body).toBe('v2');
+      expect((await client.get(uri)).body).toBe('v2');
+      expect(mockFetch.mock.calls[2][1].headers['if-none-match']).toBe('"v2"');
+    });
+    test(`the cached body is parsed like any other body`, async () => {
+      mockFetch.mockResolvedValueOnce(cacheableResponse(JSON.stringify({ prop: 1 }), { 'content-type': 'application/json' }));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+
+      expect((await client.get(uri)).body).toEqual({ prop: 1 });
+      expect((await client.get(uri)).body).toEqual({ prop: 1 });
+    });
+    test(`gives back stale responses while revalidating in stale-while-revalidate mode`, async () => {
+      const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+
+      mockFetch.mockResolvedValueOnce(cacheableResponse('old')).mockResolvedValueOnce(cacheableResponse('new'));
+
+      const client = new FetchHttpClient({ cache: { staleWhileRevalidate: true } });
+
+      await client.get(uri);
+
+      now.mockReturnValue(120_000);
+
+      expect((await client.get(uri)).body).toBe('old');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.waitFor(async () => {
+        expect((await client.get(uri)).body).toBe('new');
+      });
+    });
+    test(`requests can bypass or force the cache`, async () => {
+      const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+
+      mockFetch
+        .mockResolvedValueOnce(cacheableResponse('1'))
+        .mockResolvedValueOnce(cacheableResponse('2'))
+        .mockResolvedValueOnce(cacheableResponse('3'));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      expect((await client.get(uri, { cache: 'no-cache' })).body).toBe('2');
+      expect((await client.get(uri, { cache: 'no-store' })).body).toBe('3');
+      expect((await client.get(uri)).body).toBe('2');
+
+      now.mockReturnValue(120_000);
+
+      expect((await client.get(uri, { cache: 'force-cache' })).body).toBe('2');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+    test(`successful unsafe requests invalidate the cached resource`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(cacheableResponse('1'))
+        .mockResolvedValueOnce(new Response())
+        .mockResolvedValueOnce(cacheableResponse('2'));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      await client.put(uri, { body: {} });
+
+      expect((await client.get(uri)).body).toBe('2');
+    });
+    test(`safe requests leave the cached resource in place`, async () => {
+      mockFetch.mockResolvedValueOnce(cacheableResponse('1')).mockResolvedValueOnce(new Response());
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      await client.makeRequest('HEAD', uri);
+
+      expect((await client.get(uri)).body).toBe('1');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`only caches responses to authenticated requests if they're public`, async () => {
+      let token = 'alice';
+      mockFetch
+        .mockResolvedValueOnce(cacheableResponse('alice'))
+        .mockResolvedValueOnce(cacheableResponse('bob'))
+        .mockResolvedValueOnce(cacheableResponse('shared', { 'cache-control': 'public, max-age=60' }));
+
+      const client = new FetchHttpClient({ cache: true, authProvider: new BearerAuthProvider(() => token) });
+
+      await client.get(uri);
+      token = 'bob';
+
+      expect((await client.get(uri)).body).toBe('bob');
+
+      await client.get(`${uri}/shared`);
+
+      expect((await client.get(`${uri}/shared`)).body).toBe('shared');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+    test(`matches cached responses against the credentials requests are sent with`, async () => {
+      const headers = { 'cache-control': 'public, max-age=60', vary: 'authorization' };
+      let token = 'alice';
+      mockFetch
+        .mockResolvedValueOnce(cacheableResponse('alice', headers))
+        .mockResolvedValueOnce(cacheableResponse('bob', headers));
+
+      const client = new FetchHttpClient({ cache: true, authProvider: new BearerAuthProvider(() => token) });
+
+      await client.get(uri);
+      token = 'bob';
+
+      expect((await client.get(uri)).body).toBe('bob');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`streamed requests bypass the cache`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(cacheableResponse('1'))
+        .mockResolvedValueOnce(cacheableResponse('2'))
+        .mockResolvedValueOnce(cacheableResponse('3'));
+
+      const client = new FetchHttpClient({ cache: true });
+
+      await client.get(uri);
+      const { body } = await client.get<ResponseStream<'text'>>(uri, { stream: 'text' });
+
+      expect((await body!.next()).value).toBe('2');
+      expect((await client.get(uri, { onDownloadProgress: () => undefined })).body).toBe('3');
+      expect((await client.get(uri)).body).toBe('1');
+    });
+    test(`cached responses can be invalidated manually`, async () => {
+      mockFetch.mockResolvedValueOnce(cacheableResponse('1')).mockResolvedValueOnce(cacheableResponse('2'));
+
+      const client = new FetchHttpClient({ cache: true, host, path: '/api' });
+
+      await client.get('/users/1');
+      await client.cache?.invalidate(`${uri}/api/users/*`);
+
+      expect((await client.get('/users/1')).body).toBe('2');
+    });
+  });
+
+  describe('deduplication', () => {
+    const jsonResponse = (body: any) =>
+      new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+
+    const mockDeferredFetch = () => {
+      let resolveFetch: (response: Response) => void = () => undefined;
+
+      mockFetch.mockImplementationOnce(
+        (_, init: RequestInit) =>
+          new Promise((resolve, reject) => {
+            resolveFetch = resolve;
+            init.signal?.addEventListener('abort', () => reject(new Error('Aborted by fetch')));
+          })
+      );
+
+      return (response: Response) => resolveFetch(response);
+    };
+
+    test(`does not deduplicate by default`, async () => {
+      const client = new FetchHttpClient();
+
+      await Promise.all([client.get(uri), client.get(uri)]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`concurrent identical GET requests share a fetch, but each get their own response and body`, async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ name: 'Jo' }));
+
+      const client = new FetchHttpClient({ deduplicate: true });
+
+      const [first, second] = await Promise.all([client.get(`${uri}/me`), client.get(`${uri}/me`)]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(first.body).toEqual({ name: 'Jo' });
+      expect(second.body).toEqual({ name: 'Jo' });
+      expect(first.response).not.toBe(second.response);
+      expect(client.deduplicator?.inFlightCount).toBe(0);
+    });
+    test(`requests that differ in method, URL, or vary-relevant headers don't share a fetch`, async () => {
+      const client = new FetchHttpClient({ deduplicate: true });
+
+      await Promise.all([
+        client.get(`${uri}/me`),
+        client.get(`${uri}/me`, { query: { page: 2 } }),
+        client.get(`${uri}/me`, { options: { headers: { Authorization: 'Bearer other' } } }),
+        client.delete(`${uri}/me`),
+        client.get(`${uri}/me`, { options: { headers: { 'X-Irrelevant': 'yes' } } }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+    test(`requests made after the shared fetch settled make a new fetch`, async () => {
+      const client = new FetchHttpClient({ deduplicate: true });
+
+      await client.get(uri);
+      await client.get(uri);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`requests can opt out`, async () => {
+      const client = new FetchHttpClient({ deduplicate: true });
+
+      await Promise.all([client.get(uri), client.get(uri, { deduplicate: false })]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`shared errors are given to every request`, async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Offline'));
+
+      const client = new FetchHttpClient({ deduplicate: true });
+
+      const results = await Promise.all([client.get(uri), client.get(uri)]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results.map(({ error }) => error?.message)).toEqual(['Offline', 'Offline']);
+    });
+    test(`deduplicated requests don't wait on the rate limit`, async () => {
+      const client = new FetchHttpClient({ deduplicate: true, rateLimitMs: 50 });
+
+      const first = client.get('/first');
+      const second = client.get('/second');
+      const duplicate = client.get('/first');
+
+      await Promise.all([first, duplicate]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await second;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toBe('/second');
+    });
+    test(`cancelling one request doesn't cancel the others`, async () => {
+      const resolveFetch = mockDeferredFetch();
+
+      const client = new FetchHttpClient({ deduplicate: true });
+      const controller = new AbortController();
+
+      const cancelled = client.get(uri, { signal: controller.signal, allowThrow: true });
+      const remaining = client.get(uri);
+
+      controller.abort();
+
+      await expect(cancelled).rejects.toThrow(RequestAbortedError);
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(false);
+
+      resolveFetch(new Response('ok'));
+
+      expect((await remaining).body).toBe('ok');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    test(`the shared fetch is aborted once every request was cancelled`, async () => {
+      mockDeferredFetch();
+
+      const client = new FetchHttpClient({ deduplicate: true });
+
+      const results = await Promise.all([client.get(uri, { timeoutMs: 10 }), client.get(uri, { timeoutMs: 20 })]);
+
+      expect(results.map(({ error }) => error)).toEqual([
+        expect.any(RequestTimeoutError),
+        expect.any(RequestTimeoutError),
+      ]);
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(client.deduplicator?.inFlightCount).toBe(0);
+    });
+  });
+
+  describe('streaming', () => {
+    const encoder = new TextEncoder();
+
+    const createStream = (chunks: string[]) =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        },
+      });
+
+    test(`streams the body in the requested mode`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(createStream(['{"id":1}\n{"id"', ':2}\n'])));
+
+      const { body } = await FetchService.get<ResponseStream<'ndjson'>>(uri, { stream: 'ndjson' });
+
+      const rows = [];
+      for await (const row of body!) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+    test(`a custom body parser takes precedence`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response('hi'));
+
+      const { body } = await FetchService.get(uri, {
+        stream: 'lines',
+        responseBodyParser: () => 'parsed',
+      });
+
+      expect(body).toBe('parsed');
+    });
+    test(`a stream can still be aborted while it's read`, async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(encoder.encode('first\n'));
+            },
+          })
+        )
+      );
+
+      const controller = new AbortController();
+      const { body } = await FetchService.get<ResponseStream<'lines'>>(uri, {
+        stream: 'lines',
+        signal: controller.signal,
+      });
+
+      expect((await body!.next()).value).toBe('first');
+
+      controller.abort();
+
+      await expect(body!.next()).rejects.toThrow(RequestAbortedError);
+    });
+    test(`failed requests parse their body as usual`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response('Nope', { status: 500 }));
+
+      const { error } = await FetchService.get(uri, { stream: 'text', failOnHttpError: true });
+
+      expect((error as HttpError).body).toBe('Nope');
+    });
+    test(`reports download progress`, async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(createStream(['{"a":', '1}']), {
+          headers: { 'content-type': 'application/json', 'content-length': '7' },
+        })
+      );
+
+      const onDownloadProgress = vi.fn();
+      const result = await FetchService.get(uri, { onDownloadProgress });
+
+      expect(result.body).toEqual({ a: 1 });
+      expect(onDownloadProgress.mock.calls).toEqual([[{ loaded: 5, total: 7 }], [{ loaded: 7, total: 7 }]]);
+    });
+  });
+
+  describe('body codecs', () => {
+    const msgPackCodec: BodyCodec = {
+      mediaType: 'application/msgpack',
+      quality: 0.8,
+      canEncode: (body) => body instanceof Map,
+      encode: (body: Map<string, string>) => JSON.stringify([...body]),
+      decode: async (response) => new Map(JSON.parse(await response.text())),
+    };
+
+    test(`sends FormData as a multipart form, leaving the Content-Type to fetch`, async () => {
+      const body = new FormData();
+      body.append('name', 'Bob');
+
+      await FetchService.post(uri, { body });
+
+      const init = mockFetch.mock.calls[0][1];
+
+      expect(init.body).toBe(body);
+      expect(init.headers['content-type']).toBeUndefined();
+    });
+    test(`sends URLSearchParams and binary data with the codec's Content-Type`, async () => {
+      const bytes = new Uint8Array([1, 2, 3]);
+
+      await FetchService.post(uri, { body: new URLSearchParams({ a: '1', b: 'x y' }) });
+      await FetchService.post(uri, { body: bytes });
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: 'a=1&b=x+y',
+      });
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({
+        headers: { 'content-type': 'application/octet-stream' },
+        body: bytes,
+      });
+    });
+    test(`encodes the body with the codec for the provided Content-Type`, async () => {
+      await FetchService.post(uri, {
+        body: [
+          ['id', 'name'],
+          [1, 'Smith, Jo'],
+        ],
+        options: { headers: { 'Content-Type': 'text/csv; charset=utf-8' } },
+      });
+
+      expect(mockFetch.mock.calls[0][1].body).toBe('id,name\r\n1,"Smith, Jo"');
+    });
+    test(`decodes the body with the codec for the response's Content-Type`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response('{"id":1}', { headers: { 'content-type': 'application/vnd.api+json' } }));
+      mockFetch.mockResolvedValueOnce(new Response('id,name\n1,Jo\n', { headers: { 'content-type': 'text/csv' } }));
+      mockFetch.mockResolvedValueOnce(
+        new Response(new Uint8Array([1, 2]), { headers: { 'content-type': 'application/octet-stream' } })
+      );
+      mockFetch.mockResolvedValueOnce(new Response('<p>Hi</p>', { headers: { 'content-type': 'text/html' } }));
+
+      expect((await FetchService.get(uri)).body).toEqual({ id: 1 });
+      expect((await FetchService.get(uri)).body).toEqual([
+        ['id', 'name'],
+        ['1', 'Jo'],
+      ]);
+      expect((await FetchService.get<ArrayBuffer>(uri)).body?.byteLength).toBe(2);
+      expect((await FetchService.get(uri)).body).toBe('<p>Hi</p>');
+    });
+    test(`uses custom codecs for encoding, decoding, and the Accept header`, async () => {
+      const client = new FetchHttpClient({ codecs: [msgPackCodec] });
+      mockFetch.mockResolvedValueOnce(new Response('[["a","b"]]', { headers: { 'content-type': 'application/msgpack' } }));
+
+      const { body } = await client.post(uri, { body: new Map([['c', 'd']]) });
+
+      expect(body).toEqual(new Map([['a', 'b']]));
+      expect(mockFetch).toHaveBeenCalledWith(uri, {
+        method: 'POST',
+        headers: {
+          accept:
+            'application/msgpack, application/json, application/problem+json, text/csv;q=0.9, application/octet-stream;q=0.5, */*;q=0.1',
+          'content-type': 'application/msgpack',
+        },
+        body: '[["c","d"]]',
+      });
+    });
+    test(`codecs can be registered after the client is created`, async () => {
+      const client = new FetchHttpClient();
+      client.codecs.register(msgPackCodec);
+
+      await client.get(uri);
+
+      expect(mockFetch.mock.calls[0][1].headers.accept).toBe(
+        'application/json, application/problem+json, text/csv;q=0.9, application/msgpack;q=0.8, application/octet-stream;q=0.5, */*;q=0.1'
+      );
+    });
+  });
+
+  describe('response validation', () => {
+    interface User {
+      name: string;
+    }
+
+    const isUser = (body: unknown): body is User => typeof (body as User)?.name === 'string';
+    const userValidator: ResponseValidator<User> = {
+      validate: (body) =>
+        isUser(body)
+          ? { valid: true, value: { name: body.name.toUpperCase() } }
+          : { valid: false, issues: [{ path: ['name'], message: 'Expected a string' }] },
+    };
+
+    const jsonResponse = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+    test(`resolves with the validated body`, async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ name: 'jo' }));
+
+      const { body } = await FetchService.get(uri, { schema: userValidator });
+
+      expect(body).toEqual({ name: 'JO' });
+    });
+    test(`an invalid body results in a ResponseValidationError that's passed to onError`, async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ name: 5 }));
+
+      const client = new FetchHttpClient();
+      const handleError = vi.fn();
+      client.onError.subscribe(handleError);
+
+      const { body, error } = await client.get(uri, { schema: userValidator });
+
+      expect(body).toBeUndefined();
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(handleError).toHaveBeenCalledWith(error);
+      expect((error as ResponseValidationError).path).toEqual(['name']);
+      expect((error as ResponseValidationError).body).toEqual({ name: 5 });
+      expect(error?.message).toBe(`The response to GET ${uri} is invalid at name: Expected a string`);
+    });
+    test(`an invalid body is thrown when allowThrow is true`, async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({}));
+
+      await expect(FetchService.get(uri, { schema: isUser, allowThrow: true })).rejects.toThrow(
+        ResponseValidationError
+      );
+    });
+    test(`the bodies of failed requests aren't validated`, async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ message: 'Nope' }, 404));
+
+      const { error } = await FetchService.get(uri, { schema: isUser, failOnHttpError: true });
+
+      expect(error).toBeInstanceOf(NotFoundError);
+    });
+    test(`the body's type is inferred from the schema`, () => {
+      expectTypeOf(FetchService.post(uri, { schema: isUser })).resolves.toHaveProperty('body').toEqualTypeOf<
+        User | undefined
+      >();
+      expectTypeOf(FetchService.get(uri, { schema: userValidator }))
+        .resolves.toHaveProperty('body')
+        .toEqualTypeOf<User | undefined>();
+    });
+  });
+
+  describe('metrics', () => {
+    test(`reports how a request went once it's done`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockResolvedValueOnce(
+          new Response('{"a":1}', { headers: { 'content-type': 'application/json', 'content-length': '7' } })
+        );
+
+      const handleMetrics = vi.fn();
+      const client = new FetchHttpClient({ retryPolicy: { maxAttempts: 2, baseDelayMs: 1, jitter: false } });
+      client.onMetrics.subscribe(handleMetrics);
+
+      await client.get(uri, { query: { page: 1 } });
+
+      expect(handleMetrics).toHaveBeenCalledTimes(1);
+
+      const [metrics] = handleMetrics.mock.calls[0];
+      expect(metrics).toEqual({
+        method: 'GET',
+        url: `${uri}?page=1`,
+        status: 200,
+        queueWaitMs: expect.any(Number),
+        timeToHeadersMs: expect.any(Number),
+        timeToBodyMs: expect.any(Number),
+        durationMs: expect.any(Number),
+        retries: 1,
+        bytes: 7,
+      });
+      expect(metrics.durationMs).toBeGreaterThanOrEqual(metrics.timeToHeadersMs + metrics.timeToBodyMs);
+    });
+    test(`includes how long a request waited in the queue`, async () => {
+      const queueWaits: number[] = [];
+      const http = new FetchHttpClient({ rateLimitMs: 50 });
+      http.onMetrics.subscribe(({ queueWaitMs }) => queueWaits.push(queueWaitMs));
+
+      await Promise.all([http.get('/a'), http.get('/b')]);
+
+      expect(queueWaits[0]).toBeLessThan(1);
+      expect(queueWaits[1]).toBeGreaterThanOrEqual(45);
+    });
+    test(`includes the error a request failed with`, async () => {
+      const error = new Error('Boom!');
+      mockFetch.mockRejectedValueOnce(error);
+
+      const handleMetrics = vi.fn();
+      FetchService.onMetrics.subscribe(handleMetrics);
+
+      try {
+        await FetchService.get('/nowhere');
+      } finally {
+        FetchService.onMetrics.unsubscribe(handleMetrics);
+      }
+
+      expect(handleMetrics).toHaveBeenCalledWith(
+        expect.objectContaining({ url: '/nowhere', status: undefined, timeToHeadersMs: undefined, retries: 0, error })
+      );
+    });
+    test(`includes the response a request failed with`, async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('Oops', { status: 500, headers: { 'content-type': 'text/plain', 'content-length': '4' } })
+      );
+
+      const handleMetrics = vi.fn();
+      const client = new FetchHttpClient({ failOnHttpError: true });
+      client.onMetrics.subscribe(handleMetrics);
+
+      const { error } = await client.get(uri);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(handleMetrics).toHaveBeenCalledWith(expect.objectContaining({ status: 500, bytes: 4, error }));
+    });
+    test(`reports a streamed request once its stream was read`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response('first\nsecond\n'));
+
+      const handleMetrics = vi.fn();
+      const client = new FetchHttpClient();
+      client.onMetrics.subscribe(handleMetrics);
+
+      const { body } = await client.get<ResponseStream<'lines'>>(uri, { stream: 'lines', onDownloadProgress: vi.fn() });
+
+      expect(handleMetrics).not.toHaveBeenCalled();
+
+      for await (const _ of body!) {
+        // Read the whole stream.
+      }
+
+      expect(handleMetrics).toHaveBeenCalledWith(expect.objectContaining({ status: 200, bytes: 13 }));
+    });
+  });
+
   describe('convenience methods', () => {
     afterEach(() => {
       vi.clearAllMocks();
@@ -599,31 +2115,31 @@ describe('FetchHttpClient', () => {
       expect(mockFetch).toHaveBeenNthCalledWith(1, uri, {
         method: 'GET',
         headers: {
-          accept: '*/*',
+          accept: defaultAccept,
         },
       });
       expect(mockFetch).toHaveBeenNthCalledWith(2, uri, {
         method: 'PUT',
         headers: {
-          accept: '*/*',
+          accept: defaultAccept,
         },
       });
       expect(mockFetch).toHaveBeenNthCalledWith(3, uri, {
         method: 'POST',
         headers: {
-          accept: '*/*',
+          accept: defaultAccept,
         },
       });
       expect(mockFetch).toHaveBeenNthCalledWith(4, uri, {
         method: 'PATCH',
         headers: {
-          accept: '*/*',
+          accept: defaultAccept,
         },
       });
       expect(mockFetch).toHaveBeenNthCalledWith(5, uri, {
         method: 'DELETE',
         headers: {
-          accept: '*/*',
+          accept: defaultAccept,
         },
       });
     });
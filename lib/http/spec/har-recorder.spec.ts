@@ -0,0 +1,165 @@
+import { describe, expect, test, vi } from 'vitest';
+import { ApiKeyAuthProvider, BearerAuthProvider } from '../auth-providers';
+import { FetchHttpClient } from '../fetch-http-client.impl';
+import { HarRecorder } from '../har-recorder';
+
+const createApi = () =>
+  vi.fn(async (url: string, init: RequestInit) => {
+    if (url.endsWith('/offline')) {
+      throw new TypeError('Failed to fetch');
+    }
+
+    if (url.endsWith('/avatar')) {
+      return new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': 'image/png' } });
+    }
+
+    return new Response(JSON.stringify({ token: 'secret-token', user: { name: 'Jo', password: 'hunter2' } }), {
+      status: init.method === 'POST' ? 201 : 200,
+      statusText: init.method === 'POST' ? 'Created' : 'OK',
+      headers: { 'content-type': 'application/json' },
+    });
+  });
+
+describe('HarRecorder', () => {
+  test('it records requests and responses as HAR entries', async () => {
+    const recorder = new HarRecorder({ fetch: createApi() });
+    const client = new FetchHttpClient({ baseUrl: 'https://api.example.com', fetch: recorder.fetch });
+
+    await client.post('/sessions', { body: { name: 'Jo' }, query: { remember: true } });
+    await client.get('/avatar');
+    await recorder.flush();
+
+    const { log } = recorder.export();
+    const [session, avatar] = log.entries;
+
+    expect(log.version).toBe('1.2');
+    expect(log.creator.version).toMatch(/^\d+\.\d+\.\d+/);
+    expect(session.request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.com/sessions?remember=true',
+      queryString: [{ name: 'remember', value: 'true' }],
+      postData: { mimeType: 'application/json', text: '{"name":"Jo"}' },
+      bodySize: 13,
+    });
+    expect(session.response).toMatchObject({
+      status: 201,
+      statusText: 'Created',
+      content: { mimeType: 'application/json', text: expect.stringContaining('secret-token') },
+    });
+    expect(session.time).toBe(session.timings.wait + session.timings.receive);
+    expect(new Date(session.startedDateTime).getTime()).not.toBeNaN();
+    expect(avatar.response.content).toEqual({ size: 3, mimeType: 'image/png', text: 'AQID', encoding: 'base64' });
+    expect(JSON.parse(JSON.stringify(recorder))).toEqual(recorder.export());
+  });
+  test('it records requests that failed without a response', async () => {
+    const recorder = new HarRecorder({ fetch: createApi() });
+    const client = new FetchHttpClient({ fetch: recorder.fetch });
+
+    const { error } = await client.get('/offline');
+
+    expect(error).toBeInstanceOf(TypeError);
+    expect(recorder.entries).toHaveLength(1);
+    expect(recorder.entries[0].response.status).toBe(0);
+    expect(recorder.entries[0]._error).toBe('TypeError: Failed to fetch');
+  });
+  test('it redacts sensitive headers and body fields', async () => {
+    const recorder = new HarRecorder({ fetch: createApi(), redactBodyFields: ['Password', 'token'] });
+    const client = new FetchHttpClient({ fetch: recorder.fetch, authProvider: new BearerAuthProvider('abc') });
+
+    await client.post('/sessions', { body: { name: 'Jo', password: 'hunter2' } });
+    await client.post('/login', {
+      body: 'name=Jo&password=hunter2',
+      options: { headers: { 'content-type': 'application/x-www-form-urlencoded' } },
+    });
+    await recorder.flush();
+
+    const [session, login] = recorder.entries;
+
+    expect(session.request.headers).toContainEqual({ name: 'authorization', value: '[REDACTED]' });
+    expect(session.request.postData?.text).toBe('{"name":"Jo","password":"[REDACTED]"}');
+    expect(JSON.parse(session.response.content.text!)).toEqual({
+      token: '[REDACTED]',
+      user: { name: 'Jo', password: '[REDACTED]' },
+    });
+    expect(login.request.postData?.text).toBe('name=Jo&password=%5BREDACTED%5D');
+    expect(JSON.stringify(recorder.export())).not.toMatch(/secret|hunter2|abc/);
+  });
+  test('it redacts sensitive query parameters', async () => {
+    const recorder = new HarRecorder({ fetch: createApi() });
+    const client = new FetchHttpClient({
+      baseUrl: 'https://api.example.com',
+      fetch: recorder.fetch,
+      defaultQuery: { access_token: 'sesame' },
+      authProvider: new ApiKeyAuthProvider({ name: 'api_key', key: 'k3y', in: 'query' }),
+    });
+
+    await client.get('/users#top', { query: { page: 2 } });
+    await recorder.flush();
+
+    const [{ request }] = recorder.entries;
+
+    expect(request.url).toBe(
+      'https://api.example.com/users?access_token=%5BREDACTED%5D&page=2&api_key=%5BREDACTED%5D#top'
+    );
+    expect(request.queryString).toEqual([
+      { name: 'access_token', value: '[REDACTED]' },
+      { name: 'page', value: '2' },
+      { name: 'api_key', value: '[REDACTED]' },
+    ]);
+    expect(JSON.stringify(recorder.export())).not.toMatch(/sesame|k3y/);
+  });
+  test('it records streamed responses without waiting for their bodies', async () => {
+    const recorder = new HarRecorder({
+      fetch: async () =>
+        new Response(new ReadableStream({ start: (controller) => controller.enqueue(new Uint8Array([1])) }), {
+          headers: { 'content-type': 'text/event-stream' },
+        }),
+    });
+
+    await new FetchHttpClient({ fetch: recorder.fetch }).get('/events', { stream: 'lines' });
+    await recorder.flush();
+
+    expect(recorder.entries[0].response.content).toEqual({
+      size: -1,
+      mimeType: 'text/event-stream',
+      comment: 'The body was not recorded because it is streamed.',
+    });
+  });
+  test('it truncates bodies and drops the oldest entries to stay within its size', async () => {
+    const recorder = new HarRecorder({ fetch: createApi(), maxBodySize: 10, maxSize: 5_000 });
+    const client = new FetchHttpClient({ fetch: recorder.fetch });
+
+    await client.get('/users');
+    await recorder.flush();
+
+    expect(recorder.entries[0].response.content).toEqual({
+      size: -1,
+      mimeType: 'application/json',
+      text: '{"token":"',
+      comment: 'Truncated to 10 bytes.',
+    });
+
+    for (let index = 0; index < 10; index++) {
+      await client.get(`/users?page=${index}`);
+    }
+    await recorder.flush();
+
+    expect(recorder.entries.length).toBeLessThan(11);
+    expect(recorder.entries.at(-1)?.request.url).toBe('/users?page=9');
+    expect(JSON.stringify(recorder.entries).length).toBeLessThanOrEqual(5_000);
+
+    const redactingRecorder = new HarRecorder({ fetch: createApi(), maxBodySize: 10, redactBodyFields: ['token'] });
+    await new FetchHttpClient({ fetch: redactingRecorder.fetch }).get('/users');
+    await redactingRecorder.flush();
+
+    expect(redactingRecorder.entries[0].response.content).toEqual({
+      size: -1,
+      mimeType: 'application/json',
+      comment: 'The body was left out because it could not be redacted. Truncated to 10 bytes.',
+    });
+
+    recorder.clear();
+
+    expect(recorder.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { HttpCache, MemoryCacheStorage } from '../http-cache';
+import { NormalizedHttpRequest } from '../http-client.interface';
+
+const getRequest = (url: string, headers: Record<string, string> = {}): NormalizedHttpRequest<RequestInit> => ({
+  method: 'GET',
+  url,
+  headers,
+  options: {},
+});
+
+const url = 'http://google.com/things';
+
+describe('HttpCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('MemoryCacheStorage', () => {
+    test('evicts the least recently used entry when full', async () => {
+      const storage = new MemoryCacheStorage(2);
+      const cache = new HttpCache({ storage });
+      const response = () => new Response('', { headers: { 'cache-control': 'max-age=60' } });
+
+      await cache.store(getRequest('/a'), response());
+      await cache.store(getRequest('/b'), response());
+      await cache.match(getRequest('/a'));
+      await cache.store(getRequest('/c'), response());
+
+      expect(storage.keys()).toEqual(['GET /a', 'GET /c']);
+    });
+  });
+
+  describe('store', () => {
+    test('stores responses with a max-age', async () => {
+      const cache = new HttpCache();
+
+      expect(await cache.store(getRequest(url), new Response('hi', { headers: { 'cache-control': 'max-age=60' } }))).toBe(
+        true
+      );
+
+      const entry = await cache.match(getRequest(url));
+
+      expect(entry).toBeDefined();
+      expect(cache.isFresh(entry!)).toBe(true);
+      expect(await cache.toResponse(entry!).text()).toBe('hi');
+    });
+    test('stores responses with validators, but they are immediately stale', async () => {
+      const cache = new HttpCache();
+
+      await cache.store(getRequest(url), new Response('hi', { headers: { etag: '"1"' } }));
+
+      const entry = await cache.match(getRequest(url));
+
+      expect(entry?.etag).toBe('"1"');
+      expect(cache.isFresh(entry!)).toBe(false);
+    });
+    test('does not store responses that forbid it or that have nothing to cache by', async () => {
+      const cache = new HttpCache();
+
+      expect(await cache.store(getRequest(url), new Response('', { headers: { 'cache-control': 'no-store' } }))).toBe(
+        false
+      );
+      expect(await cache.store(getRequest(url), new Response(''))).toBe(false);
+      expect(
+        await cache.store(getRequest(url), new Response('', { headers: { 'cache-control': 'max-age=60', vary: '*' } }))
+      ).toBe(false);
+      expect(
+        await cache.store(getRequest(url), new Response('', { status: 500, headers: { 'cache-control': 'max-age=60' } }))
+      ).toBe(false);
+    });
+    test('only stores responses to authenticated requests if they are public', async () => {
+      const cache = new HttpCache();
+      const privateResponse = () => new Response('', { headers: { 'cache-control': 'max-age=60' } });
+      const publicResponse = new Response('', { headers: { 'cache-control': 'public, max-age=60' } });
+
+      expect(await cache.store(getRequest(url, { authorization: 'Bearer abc' }), privateResponse())).toBe(false);
+      expect(await cache.store(getRequest(url), privateResponse(), { authenticated: true })).toBe(false);
+      expect(await cache.store(getRequest(url, { authorization: 'Bearer abc' }), publicResponse)).toBe(true);
+    });
+    test('accounts for the age of the response', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(0);
+
+      const cache = new HttpCache();
+      await cache.store(getRequest(url), new Response('', { headers: { 'cache-control': 'max-age=60', age: '50' } }));
+
+      expect((await cache.match(getRequest(url)))?.expiresAt).toBe(10_000);
+    });
+    test('only matches requests with the same values for the headers the response varies by', async () => {
+      const cache = new HttpCache();
+
+      await cache.store(
+        getRequest(url, { 'accept-language': 'en' }),
+        new Response('', { headers: { 'cache-control': 'max-age=60', vary: 'Accept-Language' } })
+      );
+
+      expect(await cache.match(getRequest(url, { 'accept-language': 'en' }))).toBeDefined();
+      expect(await cache.match(getRequest(url, { 'accept-language': 'fr' }))).toBeUndefined();
+      expect(await cache.match(getRequest(url))).toBeUndefined();
+    });
+  });
+
+  describe('getConditionalRequest', () => {
+    test('adds the validators to the request', async () => {
+      const cache = new HttpCache();
+      await cache.store(
+        getRequest(url),
+        new Response('', { headers: { etag: '"1"', 'last-modified': 'Wed, 21 Oct 2015 07:28:00 GMT' } })
+      );
+
+      const conditionalRequest = cache.getConditionalRequest(getRequest(url), (await cache.match(getRequest(url)))!);
+
+      expect(conditionalRequest.headers).toEqual({
+        'if-none-match': '"1"',
+        'if-modified-since': 'Wed, 21 Oct 2015 07:28:00 GMT',
+      });
+    });
+  });
+
+  describe('invalidate', () => {
+    const storeAll = async (cache: HttpCache) => {
+      for (const path of ['/users/1', '/users/2', '/posts/1']) {
+        await cache.store(
+          getRequest(`http://google.com${path}`),
+          new Response('', { headers: { 'cache-control': 'max-age=60' } })
+        );
+      }
+    };
+
+    test('removes entries that match a glob', async () => {
+      const cache = new HttpCache();
+      await storeAll(cache);
+
+      await cache.invalidate('http://google.com/users/*');
+
+      expect(await cache.storage.keys()).toEqual(['GET http://google.com/posts/1']);
+    });
+    test('removes entries that match a regular expression or predicate', async () => {
+      const cache = new HttpCache();
+      await storeAll(cache);
+
+      await cache.invalidate(/\/1$/);
+      await cache.invalidate((url) => url.endsWith('/users/2'));
+
+      expect(await cache.storage.keys()).toEqual([]);
+    });
+    test('can remove everything', async () => {
+      const cache = new HttpCache();
+      await storeAll(cache);
+
+      await cache.clear();
+
+      expect(await cache.storage.keys()).toEqual([]);
+    });
+  });
+});
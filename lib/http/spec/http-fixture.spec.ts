@@ -0,0 +1,112 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, test, vi } from 'vitest';
+import { UnmatchedRequestError } from '../errors';
+import { FetchHttpClient } from '../fetch-http-client.impl';
+import { createFileFixtureStore } from '../file-fixture-store';
+import { FixtureStore, HttpFixture, HttpFixtureData } from '../http-fixture';
+
+const createMemoryStore = (fixture?: HttpFixtureData): FixtureStore & { fixture?: HttpFixtureData } => ({
+  fixture,
+  async read() {
+    return this.fixture;
+  },
+  async write(fixture) {
+    this.fixture = fixture;
+  },
+});
+
+/**
+ * A stand-in for the real API, which counts up on every request.
+ */
+const createApi = () => {
+  let count = 0;
+
+  return vi.fn(async (_url: string, init: RequestInit) => {
+    count += 1;
+
+    if (init.method === 'POST') {
+      return new Response(new Uint8Array([count, 255]), {
+        status: 201,
+        headers: { 'content-type': 'application/octet-stream', 'set-cookie': 'session=secret' },
+      });
+    }
+
+    return new Response(JSON.stringify({ count }), { headers: { 'content-type': 'application/json' } });
+  });
+};
+
+describe('HttpFixture', () => {
+  test('it records exchanges and replays them without sending requests', async () => {
+    const store = createMemoryStore();
+    const api = createApi();
+
+    const recording = new HttpFixture(store, { mode: 'record', fetch: api });
+    const recordingClient = new FetchHttpClient({ baseUrl: 'https://api.example.com', fetch: recording.fetch });
+
+    await recordingClient.get('/count', { options: { headers: { authorization: 'Bearer secret' } } });
+    await recordingClient.get('/count');
+    await recordingClient.post('/uploads', { body: { name: 'a.bin' } });
+    await recording.save();
+
+    expect(store.fixture?.exchanges).toHaveLength(3);
+    expect(JSON.stringify(store.fixture)).not.toContain('secret');
+
+    const replay = new HttpFixture(store);
+    const replayClient = new FetchHttpClient({ baseUrl: 'https://api.example.com', fetch: replay.fetch });
+
+    expect((await replayClient.get('/count')).body).toEqual({ count: 1 });
+    expect((await replayClient.get('/count')).body).toEqual({ count: 2 });
+    // The last recorded response is repeated.
+    expect((await replayClient.get('/count')).body).toEqual({ count: 2 });
+
+    const { response, body } = await replayClient.post<ArrayBuffer>('/uploads', { body: { name: 'a.bin' } });
+    expect(response?.status).toBe(201);
+    expect(new Uint8Array(body!)).toEqual(new Uint8Array([3, 255]));
+    expect(api).toHaveBeenCalledTimes(3);
+  });
+  test('it fails requests that were not recorded', async () => {
+    const store = createMemoryStore({
+      version: 1,
+      exchanges: [
+        {
+          request: { method: 'POST', url: '/users', headers: {}, body: '{"name":"Jo"}' },
+          response: { status: 201, statusText: 'Created', headers: {}, body: '', bodyEncoding: 'utf8' },
+        },
+      ],
+    });
+    const client = new FetchHttpClient({ fetch: new HttpFixture(store).fetch });
+    const lenientClient = new FetchHttpClient({ fetch: new HttpFixture(store, { matchBody: false }).fetch });
+
+    expect((await client.post('/users', { body: { name: 'Jo' } })).response?.status).toBe(201);
+    expect((await client.post('/users', { body: { name: 'Bo' } })).error).toEqual(
+      new UnmatchedRequestError('POST', '/users')
+    );
+    expect((await client.get('/users')).error).toBeInstanceOf(UnmatchedRequestError);
+    expect((await lenientClient.post('/users', { body: { name: 'Bo' } })).response?.status).toBe(201);
+  });
+  test('it stores fixtures as JSON files', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'http-fixture-'));
+    const path = join(directory, 'nested', 'count.json');
+
+    try {
+      const recording = new HttpFixture(createFileFixtureStore(path), { mode: 'record', fetch: createApi() });
+      await new FetchHttpClient({ fetch: recording.fetch }).get('/count');
+      await recording.save();
+
+      expect(JSON.parse(await readFile(path, 'utf8')).exchanges[0].response.body).toBe('{"count":1}');
+
+      const replayClient = new FetchHttpClient({ fetch: new HttpFixture(createFileFixtureStore(path)).fetch });
+
+      expect((await replayClient.get('/count')).body).toEqual({ count: 1 });
+
+      const missingFixture = new HttpFixture(createFileFixtureStore(join(directory, 'missing.json')));
+      const missingFixtureClient = new FetchHttpClient({ fetch: missingFixture.fetch });
+
+      expect((await missingFixtureClient.get('/count')).error).toBeInstanceOf(UnmatchedRequestError);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
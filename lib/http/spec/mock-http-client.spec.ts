@@ -0,0 +1,104 @@
+import { describe, expect, test, vi } from 'vitest';
+import { NotFoundError, RequestAbortedError, UnmatchedRequestError } from '../errors';
+import { MockHttpClient } from '../mock-http-client';
+
+describe('MockHttpClient', () => {
+  test('it replies to matching routes and decodes the replies like any other response', async () => {
+    const client = new MockHttpClient({ baseUrl: 'https://api.example.com/v1' });
+    client.on('GET', '/users/:id').reply(200, { id: 5, name: 'Jo' });
+    client.on('GET', '/users/{id}/avatar.png').reply(200, new Uint8Array([1, 2]), {
+      headers: { 'content-type': 'application/octet-stream' },
+    });
+
+    const { response, body } = await client.get('/users/:id', { params: { id: 5 } });
+    const { body: avatar } = await client.get('/users/5/avatar.png');
+
+    expect(response?.status).toBe(200);
+    expect(body).toEqual({ id: 5, name: 'Jo' });
+    expect(avatar).toBeInstanceOf(ArrayBuffer);
+  });
+  test('it matches queries, bodies, and headers', async () => {
+    const client = new MockHttpClient();
+    client.on('GET', '/search', { query: { tags: ['a', 'b'] } }).reply(200, 'tagged');
+    client.on('POST', '/users', { body: { name: 'Jo' }, headers: { 'X-Tenant': 'acme' } }).reply(201, 'created');
+    client.on('POST', '/users', { body: (body) => body.name.startsWith('B') }).reply(201, 'B');
+    client.on('*', '/*').reply(404);
+
+    expect((await client.get('/search', { query: { tags: ['a', 'b'], page: 2 } })).body).toBe('tagged');
+    expect((await client.get('/search', { query: { tags: ['b', 'a'] } })).response?.status).toBe(404);
+    expect(
+      (await client.post('/users', { body: { name: 'Jo' }, options: { headers: { 'x-tenant': 'acme' } } })).body
+    ).toBe('created');
+    expect((await client.post('/users', { body: { name: 'Jo' } })).response?.status).toBe(404);
+    expect((await client.post('/users', { body: { name: 'Bo' } })).body).toBe('B');
+  });
+  test('it uses queued replies in order before the persistent one', async () => {
+    const client = new MockHttpClient({ failOnHttpError: true });
+    const route = client.on('GET', '/status').replyOnce(200, 'first').replyOnce(404).reply(200, 'rest');
+
+    expect((await client.get('/status')).body).toBe('first');
+    expect((await client.get('/status')).error).toBeInstanceOf(NotFoundError);
+    expect((await client.get('/status')).body).toBe('rest');
+    expect((await client.get('/status')).body).toBe('rest');
+    expect(route.calls).toHaveLength(4);
+  });
+  test('it simulates network errors and fails requests that no route matches', async () => {
+    const client = new MockHttpClient({ retryPolicy: { maxAttempts: 2, baseDelayMs: 1 } });
+    const handleError = vi.fn();
+    client.onError.subscribe(handleError);
+    client.on('GET', '/flaky').networkErrorOnce().reply(200, 'ok');
+    client.on('GET', '/down').networkError(new Error('Offline'));
+
+    expect((await client.get('/flaky')).body).toBe('ok');
+    expect((await client.get('/down')).error?.message).toBe('Offline');
+    await expect(client.post('/nowhere', { allowThrow: true })).rejects.toThrowError(
+      new UnmatchedRequestError('POST', '/nowhere')
+    );
+    expect(handleError).toHaveBeenCalledTimes(2);
+  });
+  test('it delays replies, and respects aborting a request while it waits', async () => {
+    vi.useFakeTimers();
+
+    try {
+      const client = new MockHttpClient();
+      client.on('GET', '/slow').reply(200, 'done', { delayMs: 1_000 });
+
+      const request = client.get('/slow');
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      expect((await request).body).toBe('done');
+
+      const controller = new AbortController();
+      const abortedRequest = client.get('/slow', { signal: controller.signal });
+      controller.abort();
+
+      expect((await abortedRequest).error).toBeInstanceOf(RequestAbortedError);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+  test('it asserts on calls', async () => {
+    const client = new MockHttpClient();
+    client.on('POST', '/users').reply(201);
+
+    await client.post('/users', { body: { name: 'Jo' } });
+    await client.post('/users', { body: { name: 'Bo' } });
+
+    expect(() => client.assertCalled('POST', '/users')).not.toThrow();
+    expect(() => client.assertCalled('post', '/users', { body: { name: 'Jo' }, times: 1 })).not.toThrow();
+    expect(() => client.assertCalled('POST', '/users', { times: 1 })).toThrowError(
+      'Expected POST /users to be called once, but it was called 2 times.'
+    );
+    expect(() => client.assertCalled('DELETE', '/users/:id')).toThrowError(
+      'Expected DELETE /users/:id to be called, but it was never called.'
+    );
+    expect(() => client.assertCalled('POST', '/users', { times: 0 })).toThrowError(
+      'Expected POST /users not to be called, but it was called 2 times.'
+    );
+
+    client.reset();
+
+    expect(client.calls).toEqual([]);
+    expect(() => client.assertCalled('POST', '/users', { times: 0 })).not.toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'vitest';
+import { MultipartBuilder } from '../multipart';
+
+const boundary = 'test-boundary';
+
+async function* generateChunks() {
+  yield 'streamed ';
+  yield new TextEncoder().encode('content');
+}
+
+describe('MultipartBuilder', () => {
+  test('it builds a blob with fields and files', async () => {
+    const builder = new MultipartBuilder(boundary)
+      .append('title', 'Holiday')
+      .append('count', 2)
+      .append('photo', new File(['jpeg'], 'photo.jpg', { type: 'image/jpeg' }))
+      .append('data', new Uint8Array([104, 105]), { filename: 'data.bin' })
+      .append('odd"name', new ArrayBuffer(0), { filename: 'line\nbreak', contentType: 'text/plain' });
+
+    const body = builder.build() as Blob;
+
+    expect(body).toBeInstanceOf(Blob);
+    expect(body.type).toBe('multipart/form-data; boundary=test-boundary');
+    expect(builder.length).toBe(body.size);
+    expect(await body.text()).toBe(
+      [
+        '--test-boundary',
+        'Content-Disposition: form-data; name="title"',
+        '',
+        'Holiday',
+        '--test-boundary',
+        'Content-Disposition: form-data; name="count"',
+        '',
+        '2',
+        '--test-boundary',
+        'Content-Disposition: form-data; name="photo"; filename="photo.jpg"',
+        'Content-Type: image/jpeg',
+        '',
+        'jpeg',
+        '--test-boundary',
+        'Content-Disposition: form-data; name="data"; filename="data.bin"',
+        'Content-Type: application/octet-stream',
+        '',
+        'hi',
+        '--test-boundary',
+        'Content-Disposition: form-data; name="odd%22name"; filename="line%0Abreak"',
+        'Content-Type: text/plain',
+        '',
+        '',
+        '--test-boundary--',
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  test('it builds a stream when a part is a stream', async () => {
+    const builder = new MultipartBuilder(boundary)
+      .append('file', generateChunks(), { filename: 'file.txt', contentType: 'text/plain' })
+      .append('other', new Blob(['blob']))
+      .append('web', new Blob(['web stream']).stream());
+
+    const body = builder.build();
+
+    expect(body).toBeInstanceOf(ReadableStream);
+    expect(builder.isStreamed).toBe(true);
+    expect(builder.length).toBeUndefined();
+    expect(await new Response(body).text()).toBe(
+      [
+        '--test-boundary',
+        'Content-Disposition: form-data; name="file"; filename="file.txt"',
+        'Content-Type: text/plain',
+        '',
+        'streamed content',
+        '--test-boundary',
+        'Content-Disposition: form-data; name="other"; filename="blob"',
+        'Content-Type: application/octet-stream',
+        '',
+        'blob',
+        '--test-boundary',
+        'Content-Disposition: form-data; name="web"; filename="blob"',
+        'Content-Type: application/octet-stream',
+        '',
+        'web stream',
+        '--test-boundary--',
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  test('it generates a random boundary', () => {
+    const builder = new MultipartBuilder();
+
+    expect(builder.boundary).toMatch(/^----JtjsFormBoundary[0-9a-f]{24}$/);
+    expect(new MultipartBuilder().boundary).not.toBe(builder.boundary);
+  });
+
+  test('it throws for an invalid boundary', () => {
+    expect(() => new MultipartBuilder('has space"')).toThrowError(
+      'Could not create MultipartBuilder. Provided boundary "has space"" is not valid.'
+    );
+  });
+});
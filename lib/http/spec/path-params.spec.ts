@@ -0,0 +1,53 @@
+import { describe, expect, expectTypeOf, test } from 'vitest';
+import { PathParamsError } from '../errors';
+import { interpolatePath, PathParamNames, PathParams, PathParamValue } from '../path-params';
+
+describe('path params', () => {
+  describe('interpolatePath', () => {
+    test('fills in colon placeholders', () => {
+      expect(interpolatePath('/users/:id/posts/:postId', { id: 1, postId: 2 })).toBe('/users/1/posts/2');
+    });
+    test('fills in brace placeholders', () => {
+      expect(interpolatePath('/users/{id}/posts/{postId}.json', { id: 1, postId: 2 })).toBe('/users/1/posts/2.json');
+    });
+    test('encodes values', () => {
+      expect(interpolatePath('/files/:name', { name: 'a/b c?#é' })).toBe('/files/a%2Fb%20c%3F%23%C3%A9');
+    });
+    test('leaves ports and protocols alone', () => {
+      expect(interpolatePath('http://localhost:3000/users/:id', { id: 'jo' })).toBe('http://localhost:3000/users/jo');
+    });
+    test('leaves the query and fragment alone', () => {
+      expect(interpolatePath('/users/:id?next=:page#{section}', { id: 1 })).toBe('/users/1?next=:page#{section}');
+    });
+    test('throws when a parameter is missing', () => {
+      expect(() => interpolatePath('/users/:id/posts/:postId', { id: 1 } as any)).toThrow(PathParamsError);
+    });
+    test('throws when there is an extra parameter', () => {
+      expect(() => interpolatePath('/users/:id', { id: 1, other: 2 } as any)).toThrow(PathParamsError);
+    });
+    test('reports which parameters are missing and unexpected', () => {
+      try {
+        interpolatePath('/users/:id/posts/:postId', { id: 1, other: 2 } as any);
+      } catch (error) {
+        expect((error as PathParamsError).missingParams).toEqual(['postId']);
+        expect((error as PathParamsError).extraParams).toEqual(['other']);
+        expect((error as PathParamsError).message).toBe(
+          `The parameters for "/users/:id/posts/:postId" don't match its placeholders. Missing: postId. Unexpected: other.`
+        );
+      }
+
+      expect.assertions(3);
+    });
+  });
+
+  describe('types', () => {
+    test('infers parameter names from the template', () => {
+      expectTypeOf<PathParamNames<'/users/:id/posts/{postId}'>>().toEqualTypeOf<'id' | 'postId'>();
+      expectTypeOf<PathParamNames<'/files/:name.json?version=:v'>>().toEqualTypeOf<'name'>();
+      expectTypeOf<PathParamNames<'http://localhost:3000/users'>>().toEqualTypeOf<never>();
+    });
+    test('allows any parameters when the template is not known', () => {
+      expectTypeOf<PathParams<string>>().toEqualTypeOf<Record<string, PathParamValue>>();
+    });
+  });
+});
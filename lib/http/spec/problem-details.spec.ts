@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'vitest';
+import { getProblemDetails, isProblemDetailsContentType, parseProblemDetails } from '../problem-details';
+
+describe('isProblemDetailsContentType', () => {
+  test('it recognizes problem details documents', () => {
+    expect(isProblemDetailsContentType('application/problem+json')).toBe(true);
+    expect(isProblemDetailsContentType('Application/Problem+JSON; charset=utf-8')).toBe(true);
+    expect(isProblemDetailsContentType('application/json')).toBe(false);
+    expect(isProblemDetailsContentType(null)).toBe(false);
+  });
+});
+
+describe('parseProblemDetails', () => {
+  test('it keeps standard and extension members', () => {
+    const document = {
+      type: 'https://example.com/probs/out-of-credit',
+      title: 'You do not have enough credit.',
+      status: 403,
+      detail: 'Your current balance is 30, but that costs 50.',
+      instance: '/account/12345/msgs/abc',
+      balance: 30,
+    };
+
+    expect(parseProblemDetails(document)).toEqual(document);
+  });
+
+  test('it ignores standard members with the wrong type and defaults the type', () => {
+    expect(parseProblemDetails({ title: 5, status: '404', detail: 'Gone', extra: null })).toEqual({
+      type: 'about:blank',
+      detail: 'Gone',
+      extra: null,
+    });
+  });
+
+  test('it returns undefined for documents that are not objects', () => {
+    expect(parseProblemDetails('Not Found')).toBeUndefined();
+    expect(parseProblemDetails([])).toBeUndefined();
+    expect(parseProblemDetails(null)).toBeUndefined();
+  });
+});
+
+describe('getProblemDetails', () => {
+  const problemResponse = (status: number) =>
+    new Response(null, { status, headers: { 'content-type': 'application/problem+json' } });
+
+  test('it only gets problems from failed problem details responses', () => {
+    expect(getProblemDetails(problemResponse(500), { title: 'Oops' })).toEqual({ type: 'about:blank', title: 'Oops' });
+    expect(getProblemDetails(problemResponse(200), { title: 'Oops' })).toBeUndefined();
+    expect(getProblemDetails(new Response(null, { status: 500 }), { title: 'Oops' })).toBeUndefined();
+    expect(getProblemDetails(undefined, { title: 'Oops' })).toBeUndefined();
+  });
+});
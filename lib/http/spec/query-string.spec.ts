@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest';
+import { getQueryKeys, mergeQuery, serializeQuery } from '../query-string';
+
+describe('query string', () => {
+  describe('serializeQuery', () => {
+    test('serializes primitives', () => {
+      expect(serializeQuery({ name: 'jo', age: 30, admin: false, id: BigInt(9) })).toBe(
+        'name=jo&age=30&admin=false&id=9'
+      );
+    });
+    test('serializes dates as ISO strings', () => {
+      expect(serializeQuery({ since: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)) })).toBe(
+        'since=2024-01-02T03%3A04%3A05.000Z'
+      );
+    });
+    test('leaves out null and undefined values', () => {
+      expect(serializeQuery({ a: null, b: undefined, c: 'c' })).toBe('c=c');
+    });
+    test('encodes reserved characters and unicode', () => {
+      expect(serializeQuery({ 'q&a': 'cats & dogs = 🐈/🐕?', city: 'Zürich' })).toBe(
+        'q%26a=cats%20%26%20dogs%20%3D%20%F0%9F%90%88%2F%F0%9F%90%95%3F&city=Z%C3%BCrich'
+      );
+    });
+    test('serializes nested objects with brackets', () => {
+      expect(serializeQuery({ filter: { user: { name: 'jo' }, active: true } })).toBe(
+        'filter%5Buser%5D%5Bname%5D=jo&filter%5Bactive%5D=true'
+      );
+    });
+    test('repeats arrays by default', () => {
+      expect(serializeQuery({ ids: [1, 2] })).toBe('ids=1&ids=2');
+    });
+    test('can serialize arrays with commas', () => {
+      expect(serializeQuery({ ids: [1, 2, null], tags: ['a,b'] }, { arrayFormat: 'comma' })).toBe('ids=1,2&tags=a%2Cb');
+      expect(serializeQuery({ ids: [] }, { arrayFormat: 'comma' })).toBe('');
+    });
+    test('can serialize arrays with brackets', () => {
+      expect(serializeQuery({ ids: [1, 2] }, { arrayFormat: 'brackets' })).toBe('ids%5B%5D=1&ids%5B%5D=2');
+    });
+    test('serializes arrays of objects with their index', () => {
+      expect(serializeQuery({ users: [{ name: 'a' }, { name: 'b' }] }, { arrayFormat: 'comma' })).toBe(
+        'users%5B0%5D%5Bname%5D=a&users%5B1%5D%5Bname%5D=b'
+      );
+    });
+  });
+
+  describe('mergeQuery', () => {
+    test('adds a query to a URL without one', () => {
+      expect(mergeQuery('http://google.com/search', { q: 'cats' })).toBe('http://google.com/search?q=cats');
+    });
+    test('keeps the existing query', () => {
+      expect(mergeQuery('/search?page=2', { q: 'cats' })).toBe('/search?page=2&q=cats');
+    });
+    test('parameters override existing parameters with the same top-level key', () => {
+      expect(mergeQuery('/search?q=dogs&filter%5Ba%5D=1&filter[b]=2&page=2', { q: 'cats', filter: { c: 3 } })).toBe(
+        '/search?page=2&q=cats&filter%5Bc%5D=3'
+      );
+    });
+    test('preserves the fragment', () => {
+      expect(mergeQuery('/search?page=2#results', { q: 'cats' })).toBe('/search?page=2&q=cats#results');
+    });
+    test('leaves the URL alone when there are no parameters', () => {
+      expect(mergeQuery('/search?page=2', {})).toBe('/search?page=2');
+      expect(mergeQuery('/search?page=2', { page: undefined })).toBe('/search?page=2');
+    });
+  });
+
+  describe('getQueryKeys', () => {
+    test('gets the top-level keys of the query', () => {
+      expect(getQueryKeys('/search?q=cats&filter%5Ba%5D=1&filter[b]=2#page=3')).toEqual(new Set(['q', 'filter']));
+      expect(getQueryKeys('/search')).toEqual(new Set());
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, test, vi } from 'vitest';
+import { BearerAuthProvider } from '../auth-providers';
+import { NormalizedHttpRequest } from '../http-client.interface';
+import { RequestDeduplicator } from '../request-deduplicator';
+
+const getRequest = (
+  headers: Record<string, string> = {},
+  method = 'GET',
+  options: RequestInit = {}
+): NormalizedHttpRequest<RequestInit> => ({
+  method,
+  url: 'http://google.com/me',
+  headers,
+  options,
+});
+
+describe('RequestDeduplicator', () => {
+  test('shares a send between identical requests until it settles', async () => {
+    const deduplicator = new RequestDeduplicator();
+    const send = vi.fn(() => Promise.resolve(new Response('hi')));
+
+    const responses = await Promise.all([
+      deduplicator.run(getRequest(), send),
+      deduplicator.run(getRequest({ 'x-other': 'ignored' }), send),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await Promise.all(responses.map((response) => response.text()))).toEqual(['hi', 'hi']);
+    expect(deduplicator.inFlightCount).toBe(0);
+  });
+  test('only shares GET requests', async () => {
+    const deduplicator = new RequestDeduplicator();
+    const send = vi.fn(() => Promise.resolve(new Response()));
+
+    await Promise.all([deduplicator.run(getRequest({}, 'POST'), send), deduplicator.run(getRequest({}, 'POST'), send)]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+  test('the vary headers are configurable', async () => {
+    const deduplicator = new RequestDeduplicator({ varyHeaders: ['X-Tenant'] });
+    const send = vi.fn(() => Promise.resolve(new Response()));
+
+    await Promise.all([
+      deduplicator.run(getRequest({ 'x-tenant': 'a', authorization: '1' }), send),
+      deduplicator.run(getRequest({ 'x-tenant': 'a', authorization: '2' }), send),
+      deduplicator.run(getRequest({ 'x-tenant': 'b' }), send),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+  test('sends with a signal of its own, which aborts once every caller cancelled', async () => {
+    const deduplicator = new RequestDeduplicator();
+    const send = vi.fn((_: NormalizedHttpRequest<RequestInit>) => new Promise<Response>(() => undefined));
+    const controllers = [new AbortController(), new AbortController()];
+
+    const requests = controllers.map((controller) =>
+      deduplicator.run(getRequest({}, 'GET', { signal: controller.signal }), send).catch((reason) => reason)
+    );
+    const sharedSignal = send.mock.calls[0][0].options.signal!;
+
+    controllers[0].abort('first');
+
+    expect(await requests[0]).toBe('first');
+    expect(sharedSignal.aborted).toBe(false);
+
+    controllers[1].abort('second');
+
+    expect(await requests[1]).toBe('second');
+    expect(sharedSignal.aborted).toBe(true);
+    expect(deduplicator.inFlightCount).toBe(0);
+  });
+  test('only shares a send between requests authenticated by the same provider', async () => {
+    const deduplicator = new RequestDeduplicator();
+    const send = vi.fn(() => Promise.resolve(new Response()));
+    const authProviders = [new BearerAuthProvider('a'), new BearerAuthProvider('b')];
+
+    await Promise.all([
+      deduplicator.run(getRequest(), send),
+      deduplicator.run(getRequest(), send, { authProvider: authProviders[0] }),
+      deduplicator.run(getRequest(), send, { authProvider: authProviders[0] }),
+      deduplicator.run(getRequest(), send, { authProvider: authProviders[1] }),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+  test('only copies the response for callers that are still waiting', async () => {
+    const deduplicator = new RequestDeduplicator();
+    const response = new Response('hi');
+    const clone = vi.spyOn(response, 'clone');
+    const controller = new AbortController();
+
+    const requests = [
+      deduplicator.run(getRequest(), () => Promise.resolve(response)),
+      deduplicator.run(getRequest({}, 'GET', { signal: controller.signal }), vi.fn()).catch((reason) => reason),
+      deduplicator.run(getRequest(), vi.fn()),
+    ];
+
+    controller.abort('cancelled');
+
+    const [first, cancelled, last] = await Promise.all(requests);
+
+    expect(cancelled).toBe('cancelled');
+    expect(clone).toHaveBeenCalledTimes(1);
+    expect(last).toBe(response);
+    expect(await Promise.all([first.text(), last.text()])).toEqual(['hi', 'hi']);
+  });
+  test('cancels the body of a response every caller cancelled', async () => {
+    const deduplicator = new RequestDeduplicator();
+    const cancel = vi.fn();
+    const body = new ReadableStream({ cancel });
+    let resolveSend: (response: Response) => void = () => undefined;
+    const controller = new AbortController();
+
+    const request = deduplicator
+      .run(
+        getRequest({}, 'GET', { signal: controller.signal }),
+        () => new Promise((resolve) => (resolveSend = resolve))
+      )
+      .catch(() => undefined);
+
+    controller.abort();
+    await request;
+
+    resolveSend(new Response(body));
+    await vi.waitFor(() => expect(cancel).toHaveBeenCalled());
+  });
+});
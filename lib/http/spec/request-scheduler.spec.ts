@@ -0,0 +1,309 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { ReleaseRequestSlot, RequestScheduler, ScheduledRequestInfo } from '../request-scheduler';
+
+/**
+ * Acquires a slot for each request and records when each one got it.
+ */
+const acquireAll = (scheduler: RequestScheduler, count: number) => {
+  const acquiredAt: number[] = [];
+  const releases: ReleaseRequestSlot[] = [];
+
+  for (let i = 0; i < count; i++) {
+    scheduler.acquire().then((release) => {
+      acquiredAt[i] = Date.now();
+      releases[i] = release;
+    });
+  }
+
+  return { acquiredAt, releases };
+};
+
+/**
+ * Acquires a slot for each request and records the order they got one in, by URL.
+ */
+const acquireInOrder = (scheduler: RequestScheduler, requests: ScheduledRequestInfo[], order: string[] = []) => {
+
+  for (const request of requests) {
+    scheduler.acquire(undefined, request).then(() => order.push(request.url!));
+  }
+
+  return order;
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('throws error when trying to create a scheduler with an invalid limit', () => {
+    expect(() => new RequestScheduler({ rateLimits: [{ limit: 0, intervalMs: 1_000 }] })).toThrow();
+    expect(() => new RequestScheduler({ rateLimits: [{ limit: 1, intervalMs: 1_000, burst: 0 }] })).toThrow();
+    expect(() => new RequestScheduler({ maxConcurrency: 0 })).toThrow();
+    expect(() => new RequestScheduler({ maxConcurrencyPerQueue: 0 })).toThrow();
+    expect(() => new RequestScheduler({ priorityAgingMs: 0 })).toThrow();
+  });
+
+  test('does not limit anything by default', () => {
+    const scheduler = new RequestScheduler();
+
+    expect(Array.from({ length: 100 }, () => scheduler.tryAcquire())).not.toContain(undefined);
+  });
+
+  describe('rate limits', () => {
+    test('allows a burst, then spaces requests out at the refill rate', async () => {
+      const scheduler = new RequestScheduler({ rateLimits: [{ limit: 10, intervalMs: 1_000, burst: 3 }] });
+
+      const { acquiredAt } = acquireAll(scheduler, 5);
+
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([0, 0, 0, 100, 200]);
+    });
+    test('is accurate for short intervals', async () => {
+      const scheduler = new RequestScheduler({ rateLimits: [{ limit: 1, intervalMs: 3, burst: 1 }] });
+
+      const { acquiredAt } = acquireAll(scheduler, 4);
+
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([0, 3, 6, 9]);
+    });
+    test('refills while idle, up to the burst', async () => {
+      const scheduler = new RequestScheduler({ rateLimits: [{ limit: 1, intervalMs: 100, burst: 2 }] });
+
+      acquireAll(scheduler, 2);
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      const { acquiredAt } = acquireAll(scheduler, 3);
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([1_000, 1_000, 1_100]);
+    });
+    test('combines multiple limits', async () => {
+      const scheduler = new RequestScheduler({
+        rateLimits: [
+          { limit: 2, intervalMs: 100 },
+          { limit: 3, intervalMs: 1_000 },
+        ],
+      });
+
+      const { acquiredAt } = acquireAll(scheduler, 4);
+
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([0, 0, 50, 334]);
+    });
+    test('does not keep a timer while nothing is waiting', async () => {
+      const scheduler = new RequestScheduler({ rateLimits: [{ limit: 1, intervalMs: 100 }] });
+
+      acquireAll(scheduler, 2);
+      await vi.runAllTimersAsync();
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('concurrency', () => {
+    test('only sends another request once one completes', async () => {
+      const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+
+      const { acquiredAt, releases } = acquireAll(scheduler, 3);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(scheduler.activeCount).toBe(2);
+      expect(scheduler.queueLength).toBe(1);
+
+      releases[0]();
+      releases[0]();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(acquiredAt).toEqual([0, 0, 50]);
+      expect(scheduler.activeCount).toBe(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    test('a cancelled request stops waiting and leaves the queue', async () => {
+      const scheduler = new RequestScheduler({ rateLimits: [{ limit: 1, intervalMs: 100, burst: 1 }] });
+      const controller = new AbortController();
+
+      scheduler.tryAcquire();
+      const cancelled = scheduler.acquire(controller.signal);
+
+      controller.abort('Nope');
+
+      await expect(cancelled).rejects.toBe('Nope');
+      expect(scheduler.queueLength).toBe(0);
+    });
+  });
+
+  describe('priorities and queues', () => {
+    const oneAtATime = { rateLimits: [{ limit: 1, intervalMs: 100, burst: 1 }] };
+
+    test('sends requests with a higher priority first', async () => {
+      const scheduler = new RequestScheduler(oneAtATime);
+
+      const order = acquireInOrder(scheduler, [
+        { url: '/first' },
+        { url: '/low', priority: -1 },
+        { url: '/normal' },
+        { url: '/high', priority: 5 },
+      ]);
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['/first', '/high', '/normal', '/low']);
+    });
+    test('lower priorities catch up the longer they wait', async () => {
+      const scheduler = new RequestScheduler({ ...oneAtATime, priorityAgingMs: 10 });
+
+      const order = acquireInOrder(scheduler, [{ url: '/first' }, { url: '/low', priority: -1 }]);
+      await vi.advanceTimersByTimeAsync(50);
+      acquireInOrder(scheduler, [{ url: '/normal' }], order);
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['/first', '/low', '/normal']);
+    });
+    test('queues take turns', async () => {
+      const scheduler = new RequestScheduler(oneAtATime);
+
+      const order = acquireInOrder(scheduler, [
+        { url: '/bulk/1', queueKey: 'bulk' },
+        { url: '/bulk/2', queueKey: 'bulk' },
+        { url: '/bulk/3', queueKey: 'bulk' },
+        { url: '/user/1', queueKey: 'user' },
+        { url: '/user/2', queueKey: 'user' },
+      ]);
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['/bulk/1', '/user/1', '/bulk/2', '/user/2', '/bulk/3']);
+    });
+    test('queues take turns no matter how long their requests have waited', async () => {
+      const scheduler = new RequestScheduler({ ...oneAtATime, priorityAgingMs: 10 });
+
+      const order = acquireInOrder(
+        scheduler,
+        Array.from({ length: 4 }, (_, index) => ({ url: `/bulk/${index}`, queueKey: 'bulk' }))
+      );
+      await vi.advanceTimersByTimeAsync(50);
+      acquireInOrder(
+        scheduler,
+        [
+          { url: '/ui/0', queueKey: 'ui' },
+          { url: '/ui/1', queueKey: 'ui' },
+        ],
+        order
+      );
+
+      expect(scheduler.getQueueStats().pending.map(({ url }) => url)).toEqual([
+        '/ui/0',
+        '/bulk/1',
+        '/ui/1',
+        '/bulk/2',
+        '/bulk/3',
+      ]);
+
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['/bulk/0', '/ui/0', '/bulk/1', '/ui/1', '/bulk/2', '/bulk/3']);
+    });
+    test('does not let a request skip the requests waiting in other queues', async () => {
+      const scheduler = new RequestScheduler(oneAtATime);
+
+      expect(scheduler.tryAcquire({ url: '/bulk/1', queueKey: 'bulk' })).toBeDefined();
+
+      const order = acquireInOrder(scheduler, [{ url: '/ui/1', queueKey: 'ui', priority: 5 }]);
+      // The slot frees up before the scheduler's timer gets to send the waiting request.
+      vi.setSystemTime(100);
+
+      expect(scheduler.tryAcquire({ url: '/bulk/2', queueKey: 'bulk' })).toBeUndefined();
+
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['/ui/1']);
+    });
+    test('caps how many requests from one queue are in flight', async () => {
+      const scheduler = new RequestScheduler({ maxConcurrencyPerQueue: 1 });
+
+      const order = acquireInOrder(scheduler, [
+        { url: '/slow/1', queueKey: 'slow' },
+        { url: '/slow/2', queueKey: 'slow' },
+        { url: '/fast/1', queueKey: 'fast' },
+      ]);
+      await vi.runAllTimersAsync();
+
+      expect(order).toEqual(['/slow/1', '/fast/1']);
+      expect(scheduler.getQueueStats('slow').length).toBe(1);
+    });
+    test('describes the waiting requests', async () => {
+      const scheduler = new RequestScheduler({ rateLimits: [{ limit: 1, intervalMs: 1_000, burst: 1 }] });
+
+      acquireInOrder(scheduler, [
+        { url: '/first', queueKey: 'a' },
+        { method: 'GET', url: '/second', queueKey: 'a' },
+      ]);
+      await vi.advanceTimersByTimeAsync(200);
+      acquireInOrder(scheduler, [{ url: '/third', queueKey: 'b', priority: 1 }]);
+      await vi.advanceTimersByTimeAsync(100);
+
+      const stats = scheduler.getQueueStats();
+
+      expect(stats.length).toBe(2);
+      expect(stats.activeCount).toBe(1);
+      expect(stats.oldestWaitMs).toBe(300);
+      expect(stats.pending).toEqual([
+        { method: '', url: '/third', priority: 1, queueKey: 'b', enqueuedAt: 200, waitMs: 100 },
+        { method: 'GET', url: '/second', priority: 0, queueKey: 'a', enqueuedAt: 0, waitMs: 300 },
+      ]);
+      expect(scheduler.getQueueStats('a').length).toBe(1);
+      expect(scheduler.getQueueStats('unknown')).toEqual({ length: 0, activeCount: 0, oldestWaitMs: 0, pending: [] });
+    });
+  });
+
+  describe('adaptive', () => {
+    test('pauses for Retry-After', async () => {
+      const scheduler = new RequestScheduler({ adaptive: true });
+
+      scheduler.update(new Response(null, { status: 429, headers: { 'retry-after': '2' } }));
+
+      const { acquiredAt } = acquireAll(scheduler, 1);
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([2_000]);
+    });
+    test(`stops once the server's budget is spent, until it resets`, async () => {
+      const scheduler = new RequestScheduler({ adaptive: true });
+
+      scheduler.update(new Response(null, { headers: { 'x-ratelimit-remaining': '2', 'x-ratelimit-reset': '5' } }));
+
+      const { acquiredAt } = acquireAll(scheduler, 3);
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([0, 0, 5_000]);
+    });
+    test('understands resets as Unix timestamps', async () => {
+      vi.setSystemTime(1_700_000_000_000);
+
+      const scheduler = new RequestScheduler({ adaptive: true });
+
+      scheduler.update(
+        new Response(null, { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000010' } })
+      );
+
+      const { acquiredAt } = acquireAll(scheduler, 1);
+      await vi.runAllTimersAsync();
+
+      expect(acquiredAt).toEqual([1_700_000_010_000]);
+    });
+    test('ignores the headers unless adaptive', () => {
+      const scheduler = new RequestScheduler();
+
+      scheduler.update(new Response(null, { status: 429, headers: { 'retry-after': '2' } }));
+
+      expect(scheduler.tryAcquire()).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, expectTypeOf, test } from 'vitest';
+import { FetchService } from '../fetch-http-client.impl';
+import { formatValidationPath, StandardSchemaV1, validateResponseBody } from '../response-validation';
+
+/**
+ * A minimal Standard Schema, like the ones Zod and Valibot provide, for an object with a list of numeric `ids`.
+ */
+const idsSchema: StandardSchemaV1<unknown, { ids: number[] }> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const ids = (value as { ids?: unknown })?.ids;
+
+      if (!Array.isArray(ids)) {
+        return { issues: [{ message: 'Expected an array', path: ['ids'] }] };
+      }
+
+      const invalidIndex = ids.findIndex((id) => typeof id !== 'number');
+
+      return invalidIndex === -1
+        ? { value: { ids } }
+        : { issues: [{ message: 'Expected a number', path: [{ key: 'ids' }, { key: invalidIndex }] }] };
+    },
+  },
+};
+
+describe('validateResponseBody', () => {
+  test('it validates with a Standard Schema', async () => {
+    expect(await validateResponseBody(idsSchema, { ids: [1, 2] })).toEqual({ valid: true, value: { ids: [1, 2] } });
+    expect(await validateResponseBody(idsSchema, { ids: [1, 'two'] })).toEqual({
+      valid: false,
+      issues: [{ message: 'Expected a number', path: ['ids', 1] }],
+    });
+  });
+
+  test('it validates with a type guard', async () => {
+    const isString = (body: unknown): body is string => typeof body === 'string';
+
+    expect(await validateResponseBody(isString, 'hi')).toEqual({ valid: true, value: 'hi' });
+    expect(await validateResponseBody(isString, 5)).toEqual({
+      valid: false,
+      issues: [{ path: [], message: 'The body did not pass its type guard.' }],
+    });
+  });
+
+  test('it validates with a validator, which may be asynchronous', async () => {
+    const validator = {
+      validate: async (body: unknown) => ({ valid: true as const, value: String(body) }),
+    };
+
+    expect(await validateResponseBody(validator, 5)).toEqual({ valid: true, value: '5' });
+  });
+
+  test('the type of the body is inferred from a Standard Schema', () => {
+    expectTypeOf(FetchService.get('/ids', { schema: idsSchema }))
+      .resolves.toHaveProperty('body')
+      .toEqualTypeOf<{ ids: number[] } | undefined>();
+  });
+});
+
+describe('formatValidationPath', () => {
+  test('it formats paths like property accesses', () => {
+    expect(formatValidationPath([])).toBe('(root)');
+    expect(formatValidationPath(['users', 0, 'email'])).toBe('users[0].email');
+    expect(formatValidationPath([2, 'first-name'])).toBe('[2]["first-name"]');
+  });
+});
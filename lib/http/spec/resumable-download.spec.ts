@@ -0,0 +1,236 @@
+import fetch from 'cross-fetch';
+import { afterEach, describe, expect, Mock, test, vi } from 'vitest';
+import { RangeNotSupportedError, ResourceChangedError } from '../errors';
+import { FetchHttpClient } from '../fetch-http-client.impl';
+import { DownloadSink, MemoryDownloadSink, ResumableDownload } from '../resumable-download';
+
+const mockFetch = fetch as Mock;
+
+vi.mock(import('cross-fetch'), async (importOriginal) => {
+  const original = await importOriginal();
+
+  return {
+    ...original,
+    default: vi.fn(() => Promise.resolve(new Response())),
+  };
+});
+
+const content = new TextEncoder().encode('0123456789abcdefghij');
+
+interface ServerOptions {
+  acceptRanges?: boolean;
+  etag?: string;
+  /**
+   * Drops the connection after this many bytes of the first response to a GET.
+   */
+  dropAfter?: number;
+}
+
+/**
+ * Creates a body that sends the provided `bytes`, then either ends or, if `isDropped`, fails.
+ */
+const body = (bytes: Uint8Array, isDropped = false) => {
+  let isSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (!isSent) {
+        isSent = true;
+        controller.enqueue(bytes);
+      } else if (isDropped) {
+        controller.error(new TypeError('The connection was reset.'));
+      } else {
+        controller.close();
+      }
+    },
+  });
+};
+
+/**
+ * Serves `content` the way a server would, honoring `Range` and `If-Range` if it accepts ranges.
+ */
+const serve = ({ acceptRanges = true, etag = '"v1"', dropAfter }: ServerOptions = {}) => {
+  let isDropped = dropAfter !== undefined;
+
+  mockFetch.mockImplementation(async (_url: string, init: RequestInit & { headers: Record<string, string> }) => {
+    const headers: Record<string, string> = { 'content-type': 'application/octet-stream', etag };
+
+    if (acceptRanges) {
+      headers['accept-ranges'] = 'bytes';
+    }
+
+    if (init.method === 'HEAD') {
+      return new Response(null, { headers: { ...headers, 'content-length': String(content.byteLength) } });
+    }
+
+    const range = /^bytes=(\d+)-(\d*)$/.exec(init.headers.range ?? '');
+    const ifRange = init.headers['if-range'];
+
+    if (!acceptRanges || !range || (ifRange && ifRange !== etag)) {
+      return new Response(body(content), { headers });
+    }
+
+    const start = Number(range[1]);
+    const end = range[2] ? Number(range[2]) : content.byteLength - 1;
+    let bytes = content.slice(start, end + 1);
+
+    const shouldDrop = isDropped;
+    if (shouldDrop) {
+      isDropped = false;
+      bytes = bytes.slice(0, dropAfter);
+    }
+
+    return new Response(body(bytes, shouldDrop), {
+      status: 206,
+      headers: { ...headers, 'content-range': `bytes ${start}-${end}/${content.byteLength}` },
+    });
+  });
+};
+
+const getRequests = () =>
+  mockFetch.mock.calls.filter(([, init]) => init.method === 'GET').map(([, init]) => init.headers);
+
+describe('ResumableDownload', () => {
+  afterEach(() => {
+    mockFetch.mockImplementation(() => Promise.resolve(new Response()));
+    vi.clearAllMocks();
+  });
+
+  test(`downloads the resource with the client's configuration`, async () => {
+    serve();
+
+    const client = new FetchHttpClient({ baseUrl: 'https://files.example.com' });
+    const download = new ResumableDownload('/export.csv', { client });
+    const handleProgress = vi.fn();
+    download.onProgress.subscribe(handleProgress);
+
+    const blob = await download.start();
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(content);
+    expect(mockFetch.mock.calls[0][0]).toBe('https://files.example.com/export.csv');
+    expect(getRequests()).toEqual([expect.objectContaining({ range: 'bytes=0-19', 'if-range': '"v1"' })]);
+    expect(handleProgress).toHaveBeenLastCalledWith({ loaded: 20, total: 20 });
+    expect(download.state).toBe('completed');
+  });
+  test(`resumes from the last byte received when the connection drops`, async () => {
+    serve({ dropAfter: 8 });
+
+    const download = new ResumableDownload('http://google.com/file', { retryDelayMs: 1 });
+    const handleError = vi.fn();
+    download.onError.subscribe(handleError);
+
+    const blob = await download.start();
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(content);
+    expect(getRequests().map(({ range }) => range)).toEqual(['bytes=0-19', 'bytes=8-19']);
+    expect(handleError).toHaveBeenCalledOnce();
+  });
+  test(`downloads parallel ranges and stitches them together in order`, async () => {
+    serve();
+
+    const download = new ResumableDownload('http://google.com/file', { parallelRanges: 3 });
+
+    const blob = await download.start();
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(content);
+    expect(getRequests().map(({ range }) => range)).toEqual(['bytes=0-6', 'bytes=7-13', 'bytes=14-19']);
+  });
+  test(`writes each chunk to the sink at its offset`, async () => {
+    serve();
+
+    const writes: [string, number][] = [];
+    const sink: DownloadSink<number> = {
+      write: (chunk, offset) => void writes.push([new TextDecoder().decode(chunk), offset]),
+      close: () => writes.length,
+    };
+
+    const result = await new ResumableDownload('http://google.com/file', { sink, parallelRanges: 2 }).start();
+
+    expect(result).toBe(2);
+    expect(writes).toEqual(
+      expect.arrayContaining([
+        ['0123456789', 0],
+        ['abcdefghij', 10],
+      ])
+    );
+  });
+  test(`downloads in full when the server does not accept ranges`, async () => {
+    serve({ acceptRanges: false });
+
+    const download = new ResumableDownload('http://google.com/file', { parallelRanges: 4 });
+
+    const blob = await download.start();
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(content);
+    expect(download.acceptsRanges).toBe(false);
+    expect(getRequests()).toHaveLength(1);
+    expect(getRequests()[0].range).toBeUndefined();
+  });
+  test(`fails when the resource changes between ranges`, async () => {
+    serve({ dropAfter: 8 });
+
+    const download = new ResumableDownload('http://google.com/file', { retryDelayMs: 1 });
+    // The server has a new version by the time the download resumes.
+    download.onError.subscribe(() => serve({ etag: '"v2"' }));
+
+    await expect(download.start()).rejects.toThrowError(ResourceChangedError);
+    expect(download.loaded).toBe(8);
+    expect(download.state).toBe('failed');
+  });
+  test(`fails when the server responds with a range that was not requested`, async () => {
+    serve();
+    const serveRange = mockFetch.getMockImplementation()!;
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      const response: Response = await serveRange(url, init);
+
+      return init.method === 'GET'
+        ? new Response(response.body, { status: 206, headers: { 'content-range': 'bytes 5-19/20' } })
+        : response;
+    });
+
+    await expect(new ResumableDownload('http://google.com/file').start()).rejects.toThrowError(RangeNotSupportedError);
+  });
+  test(`pauses and resumes where it left off`, async () => {
+    serve();
+    const serveRange = mockFetch.getMockImplementation()!;
+    let isFirstRangeHeld = true;
+    mockFetch.mockImplementation(async (url: string, init: RequestInit & { headers: Record<string, string> }) => {
+      if (init.headers.range !== 'bytes=0-9' || !isFirstRangeHeld) {
+        return serveRange(url, init);
+      }
+
+      // The first range stays in flight until the download is paused.
+      isFirstRangeHeld = false;
+
+      return new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(init.signal?.reason)));
+    });
+
+    const download = new ResumableDownload('http://google.com/file', {
+      parallelRanges: 2,
+      sink: new MemoryDownloadSink('text/plain'),
+    });
+    const result = download.start();
+
+    await vi.waitFor(() => expect(download.loaded).toBe(10));
+
+    download.pause();
+
+    expect(download.state).toBe('paused');
+
+    download.resume();
+
+    const blob = await result;
+
+    expect(blob.type).toBe('text/plain');
+    expect(await blob.text()).toBe('0123456789abcdefghij');
+    expect(getRequests().map(({ range }) => range)).toEqual(['bytes=0-9', 'bytes=10-19', 'bytes=0-9']);
+  });
+  test(`validates its options`, () => {
+    expect(() => new ResumableDownload('/file', { parallelRanges: 0 })).toThrowError(
+      'Could not create ResumableDownload. Provided parallelRanges "0" is not valid.'
+    );
+    expect(() => new ResumableDownload('/file', { maxRetries: -1 })).toThrowError(
+      'Could not create ResumableDownload. Provided maxRetries "-1" is not valid.'
+    );
+  });
+});
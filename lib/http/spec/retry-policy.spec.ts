@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest';
+import { HttpStatus } from '../http-status.enum';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelayMs,
+  isReplayableBody,
+  parseRetryAfterMs,
+  resolveRetryPolicy,
+} from '../retry-policy';
+
+describe('retry policy', () => {
+  describe('resolveRetryPolicy', () => {
+    test('falls back to the defaults', () => {
+      expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+    test('later policies take precedence', () => {
+      const policy = resolveRetryPolicy({ maxAttempts: 3, baseDelayMs: 10 }, { maxAttempts: 5 });
+
+      expect(policy.maxAttempts).toBe(5);
+      expect(policy.baseDelayMs).toBe(10);
+    });
+    test('ignores properties that are explicitly undefined', () => {
+      expect(resolveRetryPolicy({ maxAttempts: 3 }, { maxAttempts: undefined }).maxAttempts).toBe(3);
+    });
+  });
+
+  describe('parseRetryAfterMs', () => {
+    test('parses seconds', () => {
+      expect(parseRetryAfterMs('120')).toBe(120_000);
+    });
+    test('parses HTTP dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+      expect(parseRetryAfterMs('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30_000);
+      expect(parseRetryAfterMs('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+    });
+    test('gives back undefined for missing or invalid values', () => {
+      expect(parseRetryAfterMs(null)).toBeUndefined();
+      expect(parseRetryAfterMs('soon')).toBeUndefined();
+    });
+  });
+
+  describe('isReplayableBody', () => {
+    test('only streams cannot be sent again', () => {
+      expect(isReplayableBody(undefined)).toBe(true);
+      expect(isReplayableBody('text')).toBe(true);
+      expect(isReplayableBody(new Blob(['blob']))).toBe(true);
+      expect(isReplayableBody(new Uint8Array([1]))).toBe(true);
+      expect(isReplayableBody(new ReadableStream())).toBe(false);
+      expect(isReplayableBody((async function* () {})())).toBe(false);
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1_000, jitter: false });
+
+    test('backs off exponentially', () => {
+      expect(getRetryDelayMs(policy, 1)).toBe(100);
+      expect(getRetryDelayMs(policy, 2)).toBe(200);
+      expect(getRetryDelayMs(policy, 3)).toBe(400);
+    });
+    test('never exceeds the maximum delay', () => {
+      expect(getRetryDelayMs(policy, 10)).toBe(1_000);
+    });
+    test('applies jitter within the backoff delay', () => {
+      const jitteredPolicy = { ...policy, jitter: true };
+
+      for (let i = 0; i < 20; i++) {
+        const delayMs = getRetryDelayMs(jitteredPolicy, 3);
+
+        expect(delayMs).toBeGreaterThanOrEqual(0);
+        expect(delayMs).toBeLessThanOrEqual(400);
+      }
+    });
+    test('uses Retry-After on 429 and 503 responses', () => {
+      const getResponse = (status: HttpStatus, retryAfter: string) =>
+        new Response(null, { status, headers: { 'retry-after': retryAfter } });
+
+      expect(getRetryDelayMs(policy, 1, getResponse(HttpStatus.TooManyRequests, '0'))).toBe(0);
+      expect(getRetryDelayMs(policy, 1, getResponse(HttpStatus.ServiceUnavailable, '60'))).toBe(1_000);
+      expect(getRetryDelayMs(policy, 1, getResponse(HttpStatus.BadGateway, '0'))).toBe(100);
+    });
+    test('ignores Retry-After when the policy does not respect it', () => {
+      const response = new Response(null, { status: HttpStatus.TooManyRequests, headers: { 'retry-after': '0' } });
+
+      expect(getRetryDelayMs({ ...policy, respectRetryAfter: false }, 1, response)).toBe(100);
+    });
+  });
+});
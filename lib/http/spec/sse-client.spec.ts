@@ -0,0 +1,322 @@
+import fetch from 'cross-fetch';
+import { afterEach, describe, expect, Mock, test, vi } from 'vitest';
+import { InvalidEventStreamError, NotFoundError } from '../errors';
+import { FetchHttpClient } from '../fetch-http-client.impl';
+import { parseServerSentEvents, ServerSentEvent, SseClient } from '../sse-client';
+
+const mockFetch = fetch as Mock;
+
+vi.mock(import('cross-fetch'), async (importOriginal) => {
+  const original = await importOriginal();
+
+  return {
+    ...original,
+    default: vi.fn(() => Promise.resolve(new Response())),
+  };
+});
+
+const encoder = new TextEncoder();
+
+async function* toLines(text: string) {
+  yield* text.split('\n');
+}
+
+const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+
+  for await (const item of iterator) {
+    items.push(item);
+  }
+
+  return items;
+};
+
+/**
+ * Creates an event stream response. Unless `end` is `false`, the stream ends after the provided text.
+ */
+const eventStream = (text: string, end = true) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(encoder.encode(text));
+
+        if (end) {
+          controller.close();
+        }
+      },
+    }),
+    { headers: { 'content-type': 'text/event-stream; charset=utf-8' } }
+  );
+
+describe('sse-client', () => {
+  describe('parseServerSentEvents', () => {
+    test('parses events with their type, data, and ID', async () => {
+      const events = await collect(
+        parseServerSentEvents(toLines('event: update\ndata: first\ndata:second\nid: 1\n\ndata: {"a":1}\n\n'))
+      );
+
+      expect(events).toEqual([
+        { type: 'update', data: 'first\nsecond', lastEventId: '1' },
+        { type: 'message', data: '{"a":1}', lastEventId: '1' },
+      ]);
+    });
+    test('ignores comments, unknown fields, and events without data', async () => {
+      const events = await collect(
+        parseServerSentEvents(toLines('\uFEFF: keep-alive\nfoo: bar\nevent: empty\n\ndata\n\n'), { lastEventId: '5' })
+      );
+
+      expect(events).toEqual([{ type: 'message', data: '', lastEventId: '5' }]);
+    });
+    test('discards an event that is not terminated', async () => {
+      expect(await collect(parseServerSentEvents(toLines('data: incomplete')))).toEqual([]);
+    });
+    test('reports valid retry fields', async () => {
+      const onRetry = vi.fn();
+
+      await collect(parseServerSentEvents(toLines('retry: 500\nretry: soon\n\n'), { onRetry }));
+
+      expect(onRetry.mock.calls).toEqual([[500]]);
+    });
+    test('reports the last event ID once the event that set it ends, even without data', async () => {
+      const onLastEventId = vi.fn();
+
+      const events = await collect(
+        parseServerSentEvents(toLines('id: 1\n\ndata: first\n\nid: 2\ndata: second\n\nid: 3'), { onLastEventId })
+      );
+
+      expect(events.map(({ lastEventId }) => lastEventId)).toEqual(['1', '2']);
+      expect(onLastEventId.mock.calls).toEqual([['1'], ['2']]);
+    });
+    test('ignores IDs with a null character', async () => {
+      const events = await collect(parseServerSentEvents(toLines('id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n')));
+
+      expect(events.map(({ lastEventId }) => lastEventId)).toEqual(['1', '1']);
+    });
+  });
+
+  describe('SseClient', () => {
+    const clients: SseClient[] = [];
+
+    const createClient = (...args: ConstructorParameters<typeof SseClient>) => {
+      const sse = new SseClient(...args);
+      clients.push(sse);
+
+      return sse;
+    };
+
+    afterEach(() => {
+      clients.splice(0).forEach((sse) => sse.close());
+      mockFetch.mockImplementation(() => Promise.resolve(new Response()));
+      vi.clearAllMocks();
+    });
+
+    test(`opens the stream with the client's configuration`, async () => {
+      mockFetch.mockResolvedValueOnce(eventStream('', false));
+
+      const client = new FetchHttpClient({ baseUrl: 'https://api.example.com/v1' });
+      const sse = createClient('/events', { client });
+      const handleOpen = vi.fn();
+      sse.onOpen.subscribe(handleOpen);
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(sse.readyState).toBe('open'));
+
+      expect(handleOpen).toHaveBeenCalledOnce();
+      expect(mockFetch.mock.calls[0][0]).toBe('https://api.example.com/v1/events');
+      expect(mockFetch.mock.calls[0][1].headers.accept).toBe('text/event-stream');
+    });
+    test(`supports other methods, bodies, and custom headers`, async () => {
+      mockFetch.mockResolvedValueOnce(eventStream('', false));
+
+      const sse = createClient('http://google.com/events', {
+        method: 'POST',
+        requestData: { body: { topic: 'news' }, options: { headers: { 'X-Client': 'test' } } },
+      });
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(sse.readyState).toBe('open'));
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.method).toBe('POST');
+      expect(init.body).toBe('{"topic":"news"}');
+      expect(init.headers['x-client']).toBe('test');
+      expect(init.headers.accept).toBe('text/event-stream');
+    });
+    test(`dispatches events to onMessage and to listeners of their type`, async () => {
+      mockFetch.mockResolvedValueOnce(eventStream('data: hello\n\nevent: ping\ndata: 1\n\n', false));
+
+      const sse = createClient('http://google.com/events');
+      const messages: ServerSentEvent[] = [];
+      const pings: ServerSentEvent[] = [];
+      sse.onMessage.subscribe((event) => messages.push(event));
+      sse.on('ping').subscribe((event) => pings.push(event));
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(messages).toHaveLength(2));
+
+      expect(messages.map(({ type }) => type)).toEqual(['message', 'ping']);
+      expect(pings).toEqual([{ type: 'ping', data: '1', lastEventId: '' }]);
+    });
+    test(`reconnects with the last event ID when the stream ends`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(eventStream('retry: 1\nid: 42\ndata: first\n\n'))
+        .mockResolvedValueOnce(eventStream('data: second\n\n', false));
+
+      const sse = createClient('http://google.com/events');
+      const handleMessage = vi.fn();
+      sse.onMessage.subscribe(handleMessage);
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(handleMessage).toHaveBeenCalledTimes(2));
+
+      expect(mockFetch.mock.calls[0][1].headers['last-event-id']).toBeUndefined();
+      expect(mockFetch.mock.calls[1][1].headers['last-event-id']).toBe('42');
+      expect(sse.lastEventId).toBe('42');
+      expect(sse.reconnectDelayMs).toBe(1);
+    });
+    test(`reconnects with the last event ID of an event without data`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(eventStream('retry: 1\nid: 42\n\n'))
+        .mockResolvedValueOnce(eventStream('', false));
+
+      const sse = createClient('http://google.com/events');
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+
+      expect(mockFetch.mock.calls[1][1].headers['last-event-id']).toBe('42');
+      expect(sse.lastEventId).toBe('42');
+    });
+    test(`reconnects after network errors and retryable statuses`, async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Offline'))
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockResolvedValueOnce(eventStream('', false));
+
+      const sse = createClient('http://google.com/events', { reconnectDelayMs: 1 });
+      const handleError = vi.fn();
+      sse.onError.subscribe(handleError);
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(sse.readyState).toBe('open'));
+
+      expect(handleError).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+    test(`starts the backoff over once the stream opened`, async () => {
+      const failingStream = new Response(
+        new ReadableStream({
+          pull(controller) {
+            controller.error(new Error('Connection lost'));
+          },
+        }),
+        { headers: { 'content-type': 'text/event-stream' } }
+      );
+      mockFetch
+        .mockRejectedValueOnce(new Error('Offline'))
+        .mockRejectedValueOnce(new Error('Offline'))
+        .mockResolvedValueOnce(failingStream)
+        .mockResolvedValueOnce(eventStream('', false));
+
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      const sse = createClient('http://google.com/events', { reconnectDelayMs: 10 });
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(sse.readyState).toBe('open'));
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(4));
+
+      const reconnectDelays = setTimeoutSpy.mock.calls
+        .map(([, delayMs]) => delayMs)
+        .filter((delayMs) => [10, 20, 40].includes(delayMs!));
+      setTimeoutSpy.mockRestore();
+
+      expect(reconnectDelays).toEqual([10, 20, 10]);
+    });
+    test(`does not reconnect when told not to`, async () => {
+      mockFetch.mockResolvedValueOnce(eventStream('data: only\n\n'));
+
+      const sse = createClient('http://google.com/events', { reconnect: false });
+      const handleClose = vi.fn();
+      sse.onClose.subscribe(handleClose);
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(handleClose).toHaveBeenCalledOnce());
+
+      expect(sse.readyState).toBe('closed');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    test(`closes when the server responds with a 204`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      const sse = createClient('http://google.com/events', { reconnectDelayMs: 1 });
+      const handleClose = vi.fn();
+      sse.onClose.subscribe(handleClose);
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(handleClose).toHaveBeenCalledOnce());
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+    test(`closes when the response isn't recoverable`, async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('Nope', { status: 404 }))
+        .mockResolvedValueOnce(new Response('<html></html>', { headers: { 'content-type': 'text/html' } }));
+
+      const handleError = vi.fn();
+
+      for (let i = 0; i < 2; i++) {
+        const sse = createClient('http://google.com/events', { reconnectDelayMs: 1 });
+        sse.onError.subscribe(handleError);
+
+        sse.connect();
+
+        await vi.waitFor(() => expect(sse.readyState).toBe('closed'));
+      }
+
+      expect(handleError.mock.calls).toEqual([[expect.any(NotFoundError)], [expect.any(InvalidEventStreamError)]]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+    test(`reports errors thrown by handlers`, async () => {
+      mockFetch.mockResolvedValueOnce(new Response('Nope', { status: 404 }));
+
+      const error = new Error('Handler failed');
+      const sse = createClient('http://google.com/events');
+      const handleError = vi.fn().mockImplementationOnce(() => {
+        throw error;
+      });
+      sse.onError.subscribe(handleError);
+
+      sse.connect();
+
+      await vi.waitFor(() => expect(handleError).toHaveBeenCalledTimes(2));
+
+      expect(handleError.mock.calls).toEqual([[expect.any(NotFoundError)], [error]]);
+      expect(sse.readyState).toBe('closed');
+    });
+    test(`closing aborts the stream`, async () => {
+      mockFetch.mockResolvedValueOnce(eventStream('', false));
+
+      const sse = createClient('http://google.com/events');
+      const handleError = vi.fn();
+      sse.onError.subscribe(handleError);
+
+      sse.connect();
+      await vi.waitFor(() => expect(sse.readyState).toBe('open'));
+
+      sse.close();
+
+      expect(sse.readyState).toBe('closed');
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(handleError).not.toHaveBeenCalled();
+    });
+  });
+});
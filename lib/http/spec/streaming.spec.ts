@@ -0,0 +1,142 @@
+import { describe, expect, test, vi } from 'vitest';
+import {
+  iterateChunks,
+  iterateLines,
+  iterateNdjson,
+  iterateText,
+  streamBody,
+  trackDownloadProgress,
+} from '../streaming';
+
+const encoder = new TextEncoder();
+
+const createStream = (chunks: (string | Uint8Array)[], onCancel?: () => void) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+    cancel: onCancel,
+  });
+
+const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+
+  for await (const item of iterator) {
+    items.push(item);
+  }
+
+  return items;
+};
+
+describe('streaming', () => {
+  describe('iterateChunks', () => {
+    test('gives back every chunk', async () => {
+      const chunks = await collect(iterateChunks(createStream(['ab', 'c'])));
+
+      expect(chunks).toEqual([encoder.encode('ab'), encoder.encode('c')]);
+    });
+    test('gives back nothing for a missing body', async () => {
+      const onDone = vi.fn();
+
+      expect(await collect(iterateChunks(null, { onDone }))).toEqual([]);
+      expect(onDone).toHaveBeenCalledOnce();
+    });
+    test('supports async iterable streams', async () => {
+      async function* nodeLikeStream() {
+        yield encoder.encode('a');
+        yield encoder.encode('b');
+      }
+
+      expect(await collect(iterateText(nodeLikeStream()))).toEqual(['a', 'b']);
+    });
+    test('cancels the stream when the consumer stops early', async () => {
+      const onCancel = vi.fn();
+      const onDone = vi.fn();
+
+      for await (const _ of iterateChunks(createStream(['a', 'b'], onCancel), { onDone })) {
+        break;
+      }
+
+      expect(onCancel).toHaveBeenCalledOnce();
+      expect(onDone).toHaveBeenCalledOnce();
+    });
+    test(`throws the signal's reason when aborted`, async () => {
+      const controller = new AbortController();
+      const iterator = iterateChunks(createStream(['a', 'b']), { signal: controller.signal });
+
+      await iterator.next();
+      controller.abort('Stop');
+
+      await expect(iterator.next()).rejects.toBe('Stop');
+    });
+  });
+
+  describe('iterateText', () => {
+    test('does not split characters across chunks', async () => {
+      const bytes = encoder.encode('h€y');
+
+      expect((await collect(iterateText(createStream([bytes.slice(0, 2), bytes.slice(2)])))).join('')).toBe('h€y');
+      expect(await collect(iterateText(createStream([bytes.slice(0, 2), bytes.slice(2)])))).toEqual(['h', '€y']);
+    });
+  });
+
+  describe('iterateLines', () => {
+    test('splits lines across and within chunks', async () => {
+      const lines = await collect(iterateLines(createStream(['one\ntw', 'o\r\nthree\n\nfour'])));
+
+      expect(lines).toEqual(['one', 'two', 'three', '', 'four']);
+    });
+  });
+
+  describe('iterateNdjson', () => {
+    test('parses every line and skips blank ones', async () => {
+      const values = await collect(iterateNdjson(createStream(['{"id":1}\n\n{"id"', ':2}\n'])));
+
+      expect(values).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+    test('throws on invalid JSON', async () => {
+      await expect(collect(iterateNdjson(createStream(['{"id":1}\nnope\n'])))).rejects.toThrow(SyntaxError);
+    });
+  });
+
+  describe('streamBody', () => {
+    test('iterates in the provided mode', async () => {
+      expect(await collect(streamBody(createStream(['a\nb']), 'lines'))).toEqual(['a', 'b']);
+      expect(await collect(streamBody(createStream(['a\nb']), 'text'))).toEqual(['a\nb']);
+      expect(await collect(streamBody(createStream(['a']), 'bytes'))).toEqual([encoder.encode('a')]);
+    });
+  });
+
+  describe('trackDownloadProgress', () => {
+    test('reports the bytes received and the total', async () => {
+      const onProgress = vi.fn();
+      const response = new Response(createStream(['abc', 'de']), { headers: { 'content-length': '5' } });
+
+      const trackedResponse = trackDownloadProgress(response, onProgress);
+
+      expect(await trackedResponse.text()).toBe('abcde');
+      expect(onProgress.mock.calls).toEqual([[{ loaded: 3, total: 5 }], [{ loaded: 5, total: 5 }]]);
+    });
+    test('does not report a total when it is unknown or encoded', async () => {
+      const onProgress = vi.fn();
+
+      await trackDownloadProgress(new Response(createStream(['a'])), onProgress).text();
+      await trackDownloadProgress(
+        new Response(createStream(['a']), { headers: { 'content-length': '1', 'content-encoding': 'gzip' } }),
+        onProgress
+      ).text();
+
+      expect(onProgress.mock.calls).toEqual([[{ loaded: 1, total: undefined }], [{ loaded: 1, total: undefined }]]);
+    });
+    test('keeps the status and headers', () => {
+      const response = new Response('', { status: 201, statusText: 'Created', headers: { 'x-test': 'yes' } });
+
+      const trackedResponse = trackDownloadProgress(response, () => undefined);
+
+      expect(trackedResponse.status).toBe(201);
+      expect(trackedResponse.statusText).toBe('Created');
+      expect(trackedResponse.headers.get('x-test')).toBe('yes');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test, vi } from 'vitest';
+import { FetchHttpClient } from '../fetch-http-client.impl';
+import { formatTraceparent, InMemoryTracer, parseTraceparent, SpanKind, SpanStatusCode } from '../tracing';
+
+const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('traceparent', () => {
+  test('it formats and parses span contexts', () => {
+    const spanContext = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 };
+
+    expect(formatTraceparent(spanContext)).toBe(traceparent);
+    expect(parseTraceparent(` ${traceparent.toUpperCase()} `)).toEqual(spanContext);
+  });
+  test('it does not parse invalid headers', () => {
+    expect(parseTraceparent('nope')).toBeUndefined();
+    expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01')).toBeUndefined();
+  });
+});
+
+describe('InMemoryTracer', () => {
+  test('it records spans', () => {
+    const tracer = new InMemoryTracer();
+
+    const span = tracer.startSpan('work', { attributes: { step: 1 } });
+    span.setAttribute('done', true);
+    span.setStatus({ code: SpanStatusCode.Ok });
+
+    expect(tracer.finishedSpans).toEqual([]);
+
+    span.end();
+
+    const [recorded] = tracer.finishedSpans;
+    expect(recorded).toMatchObject({
+      name: 'work',
+      kind: SpanKind.Internal,
+      attributes: { step: 1, done: true },
+      status: { code: SpanStatusCode.Ok },
+    });
+    expect(recorded.traceId).toMatch(/^[\da-f]{32}$/);
+    expect(recorded.spanId).toMatch(/^[\da-f]{16}$/);
+    expect(recorded.parentSpanId).toBeUndefined();
+
+    tracer.reset();
+
+    expect(tracer.spans).toEqual([]);
+  });
+  test('it continues the trace of a parent', () => {
+    const tracer = new InMemoryTracer({ parent: traceparent });
+
+    const span = tracer.startSpan('work');
+
+    expect(tracer.spans[0]).toMatchObject({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: '00f067aa0ba902b7',
+    });
+    expect(span.spanContext().spanId).not.toBe('00f067aa0ba902b7');
+    expect(() => new InMemoryTracer({ parent: 'nope' })).toThrow();
+  });
+});
+
+describe('FetchHttpClient tracing', () => {
+  test('it traces every attempt and propagates the span via traceparent', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok'));
+    const tracer = new InMemoryTracer();
+    const client = new FetchHttpClient({
+      baseUrl: 'https://api.example.com',
+      fetch,
+      tracer,
+      retryPolicy: { maxAttempts: 2, baseDelayMs: 1, jitter: false },
+    });
+
+    await client.get('/users');
+
+    const [first, second] = tracer.finishedSpans;
+    expect(first).toMatchObject({
+      name: 'GET',
+      kind: SpanKind.Client,
+      attributes: {
+        'http.request.method': 'GET',
+        'url.full': 'https://api.example.com/users',
+        'server.address': 'api.example.com',
+        'http.response.status_code': 503,
+      },
+      status: { code: SpanStatusCode.Error },
+    });
+    expect(second.attributes).toMatchObject({ 'http.response.status_code': 200, 'http.request.resend_count': 1 });
+    expect(second.status).toEqual({ code: SpanStatusCode.Unset });
+    expect(fetch.mock.calls.map(([, init]) => parseTraceparent(init.headers.traceparent)?.spanId)).toEqual([
+      first.spanId,
+      second.spanId,
+    ]);
+  });
+  test('it records the error an attempt failed with', async () => {
+    const error = new TypeError('Failed to fetch');
+    const tracer = new InMemoryTracer();
+    const client = new FetchHttpClient({ fetch: vi.fn().mockRejectedValue(error), tracer });
+
+    await client.get('/users');
+
+    expect(tracer.finishedSpans[0]).toMatchObject({
+      attributes: { 'url.full': '/users', 'error.type': 'TypeError' },
+      status: { code: SpanStatusCode.Error, message: 'Failed to fetch' },
+      exceptions: [error],
+    });
+    expect(tracer.finishedSpans[0].attributes['server.address']).toBeUndefined();
+  });
+  test('it does not change requests without a tracer', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response('ok'));
+
+    await new FetchHttpClient({ fetch }).get('/users');
+
+    expect(fetch.mock.calls[0][1].headers.traceparent).toBeUndefined();
+  });
+});
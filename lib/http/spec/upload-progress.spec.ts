@@ -0,0 +1,65 @@
+import { describe, expect, test, vi } from 'vitest';
+import { needsPreparedBody, prepareRequestBody } from '../upload-progress';
+
+const streamOf = (text: string) => new Blob([text]).stream();
+
+describe('needsPreparedBody', () => {
+  test('it only prepares bodies that are streamed or whose progress is tracked', () => {
+    expect(needsPreparedBody({ body: 'text' })).toBe(false);
+    expect(needsPreparedBody({ body: 'text' }, () => {})).toBe(true);
+    expect(needsPreparedBody({ body: streamOf('text') })).toBe(true);
+    expect(needsPreparedBody({}, () => {})).toBe(false);
+  });
+});
+
+describe('prepareRequestBody', () => {
+  test('it reports progress as the body is read, where request streams are supported', async () => {
+    const handleProgress = vi.fn();
+
+    const { init } = await prepareRequestBody({ method: 'POST', body: 'hello' }, handleProgress, true);
+
+    expect(init.body).toBeInstanceOf(ReadableStream);
+    expect(init).toMatchObject({ duplex: 'half', headers: { 'content-type': 'text/plain;charset=utf-8' } });
+    expect(handleProgress).toHaveBeenCalledWith({ loaded: 0, total: 5 });
+
+    expect(await new Response(init.body).text()).toBe('hello');
+    expect(handleProgress).toHaveBeenLastCalledWith({ loaded: 5, total: 5 });
+  });
+
+  test('it reports progress when sending starts and ends, where request streams are not supported', async () => {
+    const handleProgress = vi.fn();
+
+    const { init, onSent } = await prepareRequestBody(
+      { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{}' },
+      handleProgress,
+      false
+    );
+
+    expect(init.body).toBeInstanceOf(Blob);
+    expect(init.headers).toEqual({ 'content-type': 'application/json' });
+    expect(handleProgress).toHaveBeenCalledWith({ loaded: 0, total: 2 });
+
+    onSent();
+
+    expect(handleProgress).toHaveBeenLastCalledWith({ loaded: 2, total: 2 });
+  });
+
+  test('it sets the Content-Type fetch would set for forms', async () => {
+    const formData = new FormData();
+    formData.append('name', 'Bob');
+
+    const { init } = await prepareRequestBody({ method: 'POST', body: formData }, () => {}, false);
+
+    expect((init.headers as Record<string, string>)['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+  });
+
+  test('it sends streamed bodies as streams, or reads them in full where that is not supported', async () => {
+    const streamed = await prepareRequestBody({ method: 'POST', body: streamOf('abc') }, undefined, true);
+    const buffered = await prepareRequestBody({ method: 'POST', body: streamOf('abc') }, undefined, false);
+
+    expect(streamed.init).toMatchObject({ duplex: 'half' });
+    expect(streamed.init.body).toBeInstanceOf(ReadableStream);
+    expect(buffered.init.body).toBeInstanceOf(Blob);
+    expect(await (buffered.init.body as Blob).text()).toBe('abc');
+  });
+});
@@ -0,0 +1,399 @@
+import { Event } from '@jtjs/event';
+import { Headers } from 'cross-fetch';
+import { HttpError, InvalidEventStreamError } from './errors';
+import { FetchHttpClient, FetchService } from './fetch-http-client.impl';
+import { BasicHttpRequestData, NetworkErrorHandler } from './http-client.interface';
+import { HttpStatus } from './http-status.enum';
+import { isRetryableStatus } from './retry-policy';
+import { ResponseStream } from './streaming';
+
+/**
+ * An event received from a server over a `text/event-stream` response.
+ */
+export interface ServerSentEvent {
+  /**
+   * The event's type, per its `event` field. Defaults to `'message'`.
+   */
+  type: string;
+  /**
+   * The event's data. Multiple `data` fields are joined with `\n`.
+   */
+  data: string;
+  /**
+   * The most recent `id` the server sent, as of this event.
+   */
+  lastEventId: string;
+}
+
+export type ServerSentEventHandler = (event: ServerSentEvent) => void;
+export type SseOpenHandler = (response: Response) => void;
+
+export interface ServerSentEventParseOptions {
+  /**
+   * The ID to start with, e.g., the last ID received before reconnecting. Defaults to `''`.
+   */
+  lastEventId?: string;
+  /**
+   * Invoked when the server sets a new reconnection time via a `retry` field.
+   */
+  onRetry?: (retryMs: number) => void;
+  /**
+   * Invoked when the last event ID changes, once the event that set it ends. Unlike the ID of the events that are
+   * yielded, this includes IDs set by events without data.
+   */
+  onLastEventId?: (lastEventId: string) => void;
+}
+
+/**
+ * Parses the lines of a `text/event-stream` into events, per the HTML specification. Comments and unknown fields are
+ * ignored, and an event that isn't terminated by a blank line is discarded.
+ */
+export async function* parseServerSentEvents(
+  lines: AsyncIterable<string>,
+  options: ServerSentEventParseOptions = {}
+): AsyncIterableIterator<ServerSentEvent> {
+  let lastEventId = options.lastEventId ?? '';
+  let dispatchedLastEventId = lastEventId;
+  let type = '';
+  let data: string[] = [];
+  let isFirstLine = true;
+
+  for await (const rawLine of lines) {
+    // A byte order mark is allowed at the very start of the stream.
+    const line = isFirstLine ? rawLine.replace(/^\uFEFF/, '') : rawLine;
+    isFirstLine = false;
+
+    if (!line) {
+      if (lastEventId !== dispatchedLastEventId) {
+        dispatchedLastEventId = lastEventId;
+
+        options.onLastEventId?.(lastEventId);
+      }
+
+      if (data.length > 0) {
+        yield { type: type || 'message', data: data.join('\n'), lastEventId };
+      }
+
+      type = '';
+      data = [];
+
+      continue;
+    }
+
+    if (line.startsWith(':')) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'event':
+        type = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          options.onRetry?.(Number(value));
+        }
+        break;
+    }
+  }
+}
+
+export type SseReadyState = 'connecting' | 'open' | 'closed';
+
+export interface SseClientOptions {
+  /**
+   * The client the stream is opened with, so it gets the client's host, path, default options, credentials, and
+   * middleware.
+   *
+   * Defaults to {@link FetchService}.
+   */
+  client?: FetchHttpClient;
+  /**
+   * Defaults to `'GET'`.
+   */
+  method?: string;
+  /**
+   * Any other data for the request that opens the stream, like a `body`, `query`, or headers via `options`.
+   */
+  requestData?: Omit<BasicHttpRequestData<any, any, RequestInit>, 'stream' | 'allowThrow' | 'failOnHttpError'>;
+  /**
+   * Whether to reconnect when the stream ends or fails. The connection isn't retried if the server responds with a
+   * `204`, with a status that isn't retryable per the client's retry policy, or with something other than an event
+   * stream.
+   *
+   * Defaults to `true`.
+   */
+  reconnect?: boolean;
+  /**
+   * How long to wait before reconnecting. The server can change this via a `retry` field. Consecutive failed attempts
+   * double the wait, up to `maxReconnectDelayMs`.
+   *
+   * Defaults to `3000`.
+   */
+  reconnectDelayMs?: number;
+  /**
+   * Defaults to `30000`.
+   */
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Receives Server-Sent Events over a `text/event-stream` response. Unlike the native `EventSource`, the stream is
+ * opened with a {@link FetchHttpClient}, so it can be opened with any method, body, and headers.
+ *
+ * When the stream ends or fails, the client reconnects and sends the ID of the last event it received in the
+ * `Last-Event-ID` header, so the server can pick up where it left off.
+ *
+ * @example
+ * ```ts
+ * const sse = new SseClient('/notifications', { client: apiClient });
+ *
+ * sse.on('notification').subscribe((event) => showNotification(JSON.parse(event.data)));
+ * sse.connect();
+ *
+ * // Later...
+ * sse.close();
+ * ```
+ */
+export class SseClient {
+  /**
+   * Triggered when the stream was opened, including after reconnecting.
+   */
+  onOpen = new Event<SseOpenHandler>();
+  /**
+   * Triggered for every event, whatever its type.
+   */
+  onMessage = new Event<ServerSentEventHandler>();
+  /**
+   * Triggered when opening or reading the stream failed. If the client will reconnect, it does so afterwards.
+   */
+  onError = new Event<NetworkErrorHandler>();
+  /**
+   * Triggered once the client is closed, whether by `close` or because it won't reconnect.
+   */
+  onClose = new Event<() => void>();
+
+  #eventsByType = new Map<string, Event<ServerSentEventHandler>>();
+  #controller: AbortController | undefined;
+
+  protected _uri: string;
+  get uri(): string {
+    return this._uri;
+  }
+
+  protected _readyState: SseReadyState = 'closed';
+  get readyState(): SseReadyState {
+    return this._readyState;
+  }
+
+  protected _lastEventId = '';
+  /**
+   * The ID of the last event received. Sent in the `Last-Event-ID` header when reconnecting.
+   */
+  get lastEventId(): string {
+    return this._lastEventId;
+  }
+
+  protected _reconnectDelayMs: number;
+  get reconnectDelayMs(): number {
+    return this._reconnectDelayMs;
+  }
+
+  protected _options: SseClientOptions;
+
+  constructor(uri: string, options: SseClientOptions = {}) {
+    this._uri = uri;
+    this._options = options;
+    this._reconnectDelayMs = options.reconnectDelayMs ?? 3_000;
+  }
+
+  /**
+   * Gets the event that's triggered for events of the provided `type`.
+   */
+  on(type: string): Event<ServerSentEventHandler> {
+    let event = this.#eventsByType.get(type);
+
+    if (!event) {
+      event = new Event<ServerSentEventHandler>();
+
+      this.#eventsByType.set(type, event);
+    }
+
+    return event;
+  }
+
+  /**
+   * Opens the stream. Does nothing if the client is already connecting or open.
+   */
+  connect(): void {
+    if (this._readyState !== 'closed') {
+      return;
+    }
+
+    this._readyState = 'connecting';
+
+    // Errors are handled while connecting, so this only fails if a handler throws, which also stops reconnecting.
+    this.#run().catch((error) => {
+      this.close();
+
+      this.onError.trigger(error as Error);
+    });
+  }
+
+  /**
+   * Closes the stream and stops reconnecting.
+   */
+  close(): void {
+    if (this._readyState === 'closed') {
+      return;
+    }
+
+    this._readyState = 'closed';
+    this.#controller?.abort();
+
+    this.onClose.trigger();
+  }
+
+  async #run(): Promise<void> {
+    const { reconnect = true, maxReconnectDelayMs = 30_000 } = this._options;
+
+    let failedAttempts = 0;
+
+    while (this._readyState !== 'closed') {
+      const controller = new AbortController();
+      this.#controller = controller;
+
+      try {
+        await this.#listen(controller.signal, () => {
+          // Only attempts that fail in a row back off further, so a stream that opened starts the backoff over.
+          failedAttempts = 0;
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        this.onError.trigger(error as Error);
+
+        if (!this.#isRecoverable(error as Error)) {
+          this.close();
+
+          return;
+        }
+
+        failedAttempts += 1;
+      }
+
+      // The stream may have been closed while it was open.
+      if (!reconnect || this.readyState === 'closed') {
+        this.close();
+
+        return;
+      }
+
+      this._readyState = 'connecting';
+
+      const delayMs = Math.min(maxReconnectDelayMs, this._reconnectDelayMs * 2 ** Math.max(0, failedAttempts - 1));
+
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, delayMs);
+
+        controller.signal.addEventListener(
+          'abort',
+          () => {
+            clearTimeout(timeout);
+            resolve();
+          },
+          { once: true }
+        );
+      });
+    }
+  }
+
+  /**
+   * Opens the stream and dispatches its events until it ends.
+   */
+  async #listen(signal: AbortSignal, onOpen: () => void): Promise<void> {
+    const { client = FetchService, method = 'GET', requestData = {} } = this._options;
+
+    const headers = new Headers(requestData.options?.headers);
+    headers.set('accept', 'text/event-stream');
+    headers.set('cache-control', 'no-cache');
+
+    if (this._lastEventId) {
+      headers.set('last-event-id', this._lastEventId);
+    }
+
+    const { response, body } = await client.makeRequest<ResponseStream<'lines'>>(method, this._uri, {
+      // The stream reconnects by itself and is expected to stay open, so it shouldn't be retried or time out.
+      retryPolicy: { maxAttempts: 1 },
+      timeoutMs: 0,
+      cache: 'no-store',
+      deduplicate: false,
+      ...requestData,
+      options: {
+        ...requestData.options,
+        headers,
+      },
+      stream: 'lines',
+      signal,
+      allowThrow: true,
+      failOnHttpError: true,
+    });
+
+    if (response?.status === HttpStatus.NoContent) {
+      // The server asked the client to stop reconnecting.
+      this.close();
+
+      return;
+    }
+
+    if (!response?.headers.get('content-type')?.toLowerCase().startsWith('text/event-stream')) {
+      await body?.return?.();
+
+      throw new InvalidEventStreamError(response!);
+    }
+
+    this._readyState = 'open';
+    onOpen();
+    this.onOpen.trigger(response);
+
+    const events = parseServerSentEvents(body!, {
+      lastEventId: this._lastEventId,
+      onRetry: (retryMs) => {
+        this._reconnectDelayMs = retryMs;
+      },
+      onLastEventId: (lastEventId) => {
+        this._lastEventId = lastEventId;
+      },
+    });
+
+    for await (const event of events) {
+      this.onMessage.trigger(event);
+      this.#eventsByType.get(event.type)?.trigger(event);
+    }
+  }
+
+  #isRecoverable(error: Error): boolean {
+    if (error instanceof InvalidEventStreamError) {
+      return false;
+    }
+
+    if (error instanceof HttpError) {
+      return isRetryableStatus(this._options.client?.retryPolicy ?? FetchService.retryPolicy, error.status);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * How a streamed response body is given back.
+ *
+ * - `'bytes'`: The raw chunks, as they're received.
+ * - `'text'`: The body decoded as UTF-8, in chunks as they're received.
+ * - `'lines'`: The body decoded as UTF-8, one line at a time. Line endings are removed.
+ * - `'ndjson'`: The body parsed as newline-delimited JSON, one value per line. Blank lines are skipped.
+ */
+export type ResponseStreamMode = 'bytes' | 'text' | 'lines' | 'ndjson';
+
+/**
+ * The type of body a request resolves to when it's streamed in the provided mode.
+ *
+ * @example
+ * ```ts
+ * const { body } = await client.get<ResponseStream<'ndjson', Row>>('/export', { stream: 'ndjson' });
+ *
+ * for await (const row of body!) {
+ *   // ...
+ * }
+ * ```
+ */
+export type ResponseStream<Mode extends ResponseStreamMode, Item = any> = AsyncIterableIterator<
+  Mode extends 'bytes' ? Uint8Array : Mode extends 'ndjson' ? Item : string
+>;
+
+export interface DownloadProgress {
+  /**
+   * The number of bytes received so far.
+   */
+  loaded: number;
+  /**
+   * The number of bytes expected in total, per the `Content-Length` header. `undefined` if the header is missing or
+   * the body is encoded (e.g., gzipped), in which case the decoded body is larger than the header says.
+   */
+  total?: number;
+}
+
+export type DownloadProgressHandler = (progress: DownloadProgress) => void;
+
+/**
+ * A response body. The fetch API gives back a `ReadableStream`, but some implementations (like `node-fetch`) give back
+ * a Node stream instead. Either is async iterable or has a reader, so both are supported.
+ */
+type ResponseBodyStream = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+export interface StreamOptions {
+  /**
+   * Stops reading the stream when aborted. The iterator then throws the signal's reason.
+   */
+  signal?: AbortSignal | null;
+  /**
+   * Invoked once the stream is done being read, whether it was read fully, failed, or the consumer stopped early.
+   */
+  onDone?: () => void;
+}
+
+/**
+ * Iterates over the chunks of the provided `stream` as they're received. If the consumer stops early (e.g., via
+ * `break`), the stream is cancelled so the rest of the body isn't downloaded.
+ */
+export async function* iterateChunks(
+  stream: ResponseBodyStream | null | undefined,
+  options: StreamOptions = {}
+): AsyncIterableIterator<Uint8Array> {
+  const { signal, onDone } = options;
+
+  if (!stream) {
+    onDone?.();
+
+    return;
+  }
+
+  if (!('getReader' in stream)) {
+    try {
+      for await (const chunk of stream) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+
+        yield chunk;
+      }
+    } finally {
+      onDone?.();
+    }
+
+    return;
+  }
+
+  const reader = stream.getReader();
+
+  const handleAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {
+      // The stream already failed or finished.
+    });
+  };
+
+  if (signal?.aborted) {
+    handleAbort();
+  } else {
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  }
+
+  try {
+    while (true) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        // Whatever the stream failed with, prefer the typed reason it was aborted with.
+        throw signal?.aborted ? signal.reason : error;
+      }
+
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      if (result.done) {
+        return;
+      }
+
+      yield result.value;
+    }
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+
+    reader.cancel().catch(() => {
+      // The stream already failed or finished.
+    });
+
+    onDone?.();
+  }
+}
+
+/**
+ * Iterates over the provided `stream`, decoded as UTF-8. A multi-byte character split across chunks is never split
+ * across strings.
+ */
+export async function* iterateText(
+  stream: ResponseBodyStream | null | undefined,
+  options: StreamOptions = {}
+): AsyncIterableIterator<string> {
+  const decoder = new TextDecoder();
+
+  for await (const chunk of iterateChunks(stream, options)) {
+    const text = decoder.decode(chunk, { stream: true });
+
+    if (text) {
+      yield text;
+    }
+  }
+
+  const rest = decoder.decode();
+
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Iterates over the lines of the provided `stream`, decoded as UTF-8. Both `\n` and `\r\n` line endings are
+ * supported and removed. A final line without a line ending is included if it isn't empty.
+ */
+export async function* iterateLines(
+  stream: ResponseBodyStream | null | undefined,
+  options: StreamOptions = {}
+): AsyncIterableIterator<string> {
+  let buffer = '';
+
+  for await (const text of iterateText(stream, options)) {
+    buffer += text;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+
+    for (const line of lines) {
+      yield line.replace(/\r$/, '');
+    }
+  }
+
+  if (buffer) {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+/**
+ * Iterates over the values of the provided newline-delimited JSON `stream`. Blank lines are skipped.
+ *
+ * @throws {SyntaxError} When a line isn't valid JSON.
+ */
+export async function* iterateNdjson<T = any>(
+  stream: ResponseBodyStream | null | undefined,
+  options: StreamOptions = {}
+): AsyncIterableIterator<T> {
+  for await (const line of iterateLines(stream, options)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+/**
+ * Iterates over the provided `stream` in the provided `mode`.
+ */
+export function streamBody(
+  stream: ResponseBodyStream | null | undefined,
+  mode: ResponseStreamMode,
+  options: StreamOptions = {}
+): AsyncIterableIterator<unknown> {
+  switch (mode) {
+    case 'text':
+      return iterateText(stream, options);
+    case 'lines':
+      return iterateLines(stream, options);
+    case 'ndjson':
+      return iterateNdjson(stream, options);
+    default:
+      return iterateChunks(stream, options);
+  }
+}
+
+/**
+ * Creates a copy of the provided `response` that reports its download progress to `onProgress` as its body is read.
+ * Progress is only reported while something reads the copy's body.
+ */
+export function trackDownloadProgress(response: Response, onProgress: DownloadProgressHandler): Response {
+  if (!response?.body) {
+    return response;
+  }
+
+  const contentLength = response.headers.get('content-length');
+  const isEncoded = !!response.headers.get('content-encoding');
+  const total = contentLength !== null && !isEncoded && !isNaN(Number(contentLength)) ? Number(contentLength) : undefined;
+
+  const chunks = iterateChunks(response.body);
+  let loaded = 0;
+
+  const trackedBody = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+
+        if (done) {
+          controller.close();
+
+          return;
+        }
+
+        loaded += value.byteLength;
+
+        controller.enqueue(value);
+
+        onProgress({ loaded, total });
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await chunks.return?.(reason);
+    },
+  });
+
+  return new Response(trackedBody, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
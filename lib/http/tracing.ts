@@ -0,0 +1,231 @@
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * The kind of a span. The values match OpenTelemetry's `SpanKind`.
+ */
+export enum SpanKind {
+  Internal = 0,
+  Server = 1,
+  Client = 2,
+  Producer = 3,
+  Consumer = 4,
+}
+
+/**
+ * The status of a span. The values match OpenTelemetry's `SpanStatusCode`.
+ */
+export enum SpanStatusCode {
+  Unset = 0,
+  Ok = 1,
+  Error = 2,
+}
+
+/**
+ * Identifies a span within a trace, as it's propagated via `traceparent` (and `tracestate`).
+ */
+export interface SpanContext {
+  /**
+   * 32 lowercase hex characters.
+   */
+  traceId: string;
+  /**
+   * 16 lowercase hex characters.
+   */
+  spanId: string;
+  /**
+   * Bit flags for the trace. `1` means the trace is sampled.
+   */
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+/**
+ * A span, as a client traces its requests with. It's a subset of OpenTelemetry's `Span`, so an OpenTelemetry span
+ * can be used as it is.
+ */
+export interface TracerSpan {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: SpanStatusCode; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Creates the spans a client traces its requests with. It's a subset of OpenTelemetry's `Tracer`, so an OpenTelemetry
+ * tracer can be used as it is.
+ *
+ * @example
+ * ```ts
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const client = new FetchHttpClient({ tracer: trace.getTracer('my-app') });
+ * ```
+ */
+export interface HttpTracer {
+  startSpan(name: string, options?: SpanOptions): TracerSpan;
+}
+
+const TRACEPARENT_REGEX = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/;
+
+/**
+ * Formats the provided span context as a W3C Trace Context `traceparent` header.
+ *
+ * @example
+ * ```ts
+ * formatTraceparent({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 });
+ * // '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+ * ```
+ */
+export function formatTraceparent({ traceId, spanId, traceFlags }: SpanContext): string {
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Parses a W3C Trace Context `traceparent` header.
+ *
+ * @returns The span context, or `undefined` if the header isn't valid.
+ */
+export function parseTraceparent(traceparent: string): SpanContext | undefined {
+  const [, version, traceId, spanId, traceFlags] = TRACEPARENT_REGEX.exec(traceparent.trim().toLowerCase()) ?? [];
+
+  if (!version || version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return undefined;
+  }
+
+  return { traceId, spanId, traceFlags: parseInt(traceFlags, 16) };
+}
+
+function createId(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+
+  do {
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+      crypto.getRandomValues(bytes);
+    } else {
+      bytes.forEach((_, index) => (bytes[index] = Math.floor(Math.random() * 256)));
+    }
+    // An ID of all zeros is invalid.
+  } while (bytes.every((byte) => byte === 0));
+
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * A span recorded by an {@link InMemoryTracer}.
+ */
+export interface RecordedSpan {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  /**
+   * The ID of the span's parent, if it continues a trace.
+   */
+  parentSpanId?: string;
+  attributes: SpanAttributes;
+  status: { code: SpanStatusCode; message?: string };
+  exceptions: Error[];
+  startTime: number;
+  /**
+   * When the span ended, or `undefined` if it hasn't yet.
+   */
+  endTime?: number;
+}
+
+export interface InMemoryTracerOptions {
+  /**
+   * A `traceparent` header the spans continue the trace of, e.g., that of an incoming request. Defaults to starting a
+   * new trace for every span.
+   */
+  parent?: string;
+}
+
+/**
+ * A tracer that keeps its spans in memory instead of exporting them, so tracing can be tested without a collector.
+ *
+ * @example
+ * ```ts
+ * const tracer = new InMemoryTracer();
+ * const client = new FetchHttpClient({ tracer });
+ *
+ * await client.get('/users');
+ *
+ * expect(tracer.spans[0].attributes['http.response.status_code']).toBe(200);
+ * ```
+ */
+export class InMemoryTracer implements HttpTracer {
+  protected _spans: RecordedSpan[] = [];
+  /**
+   * Every span the tracer started, in the order they were started.
+   */
+  get spans(): RecordedSpan[] {
+    return [...this._spans];
+  }
+
+  /**
+   * The spans that have ended.
+   */
+  get finishedSpans(): RecordedSpan[] {
+    return this._spans.filter(({ endTime }) => endTime !== undefined);
+  }
+
+  protected _parent: SpanContext | undefined;
+
+  constructor(options: InMemoryTracerOptions = {}) {
+    if (options.parent !== undefined) {
+      this._parent = parseTraceparent(options.parent);
+
+      if (!this._parent) {
+        throw new Error(`Could not create InMemoryTracer. Provided parent "${options.parent}" is not valid.`);
+      }
+    }
+  }
+
+  startSpan(name: string, options: SpanOptions = {}): TracerSpan {
+    const span: RecordedSpan = {
+      name,
+      kind: options.kind ?? SpanKind.Internal,
+      traceId: this._parent?.traceId ?? createId(16),
+      spanId: createId(8),
+      ...(this._parent ? { parentSpanId: this._parent.spanId } : undefined),
+      attributes: { ...options.attributes },
+      status: { code: SpanStatusCode.Unset },
+      exceptions: [],
+      startTime: Date.now(),
+    };
+    const traceFlags = this._parent?.traceFlags ?? 1;
+
+    this._spans.push(span);
+
+    return {
+      spanContext: () => ({ traceId: span.traceId, spanId: span.spanId, traceFlags }),
+      setAttribute: (key, value) => {
+        span.attributes[key] = value;
+      },
+      setStatus: (status) => {
+        span.status = status;
+      },
+      recordException: (exception) => {
+        span.exceptions.push(exception);
+      },
+      end: () => {
+        span.endTime ??= Date.now();
+      },
+    };
+  }
+
+  /**
+   * Forgets every span.
+   */
+  reset(): void {
+    this._spans = [];
+  }
+}
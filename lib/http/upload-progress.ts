@@ -0,0 +1,144 @@
+import { iterateChunks } from './streaming';
+
+export interface UploadProgress {
+  /**
+   * The number of bytes of the request body sent so far.
+   */
+  loaded: number;
+  /**
+   * The size of the request body in bytes. `undefined` if the body is a stream of unknown length.
+   */
+  total?: number;
+}
+
+export type UploadProgressHandler = (progress: UploadProgress) => void;
+
+/**
+ * A request body that's ready to be sent.
+ */
+export interface PreparedRequestBody {
+  init: RequestInit;
+  /**
+   * Must be invoked once the response was received, so progress that couldn't be tracked as the body was sent can be
+   * reported.
+   */
+  onSent: () => void;
+}
+
+let requestStreamsSupported: boolean | undefined;
+
+/**
+ * Whether the runtime can send a `ReadableStream` as a request body, as it's read. Browsers that can't (like Firefox
+ * and Safari, at the time of writing) need the whole body up front.
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    try {
+      let isDuplexRead = false;
+
+      // Runtimes that don't support request streams neither read `duplex` nor accept a stream as a body, and instead
+      // send it as the text "[object ReadableStream]".
+      const hasContentType = new Request('http://localhost', {
+        method: 'POST',
+        body: new ReadableStream(),
+        get duplex() {
+          isDuplexRead = true;
+
+          return 'half';
+        },
+      } as RequestInit).headers.has('content-type');
+
+      requestStreamsSupported = isDuplexRead && !hasContentType;
+    } catch {
+      requestStreamsSupported = false;
+    }
+  }
+
+  return requestStreamsSupported;
+}
+
+/**
+ * Whether the provided `init` has a body that must be prepared (see {@link prepareRequestBody}) before it's sent.
+ */
+export function needsPreparedBody(init: RequestInit, onUploadProgress?: UploadProgressHandler): boolean {
+  return init.body !== undefined && init.body !== null && (!!onUploadProgress || isReadableStream(init.body));
+}
+
+function isReadableStream(body: unknown): body is ReadableStream<Uint8Array> {
+  return typeof ReadableStream !== 'undefined' && body instanceof ReadableStream;
+}
+
+/**
+ * Prepares the body of the provided `init` to be sent, reporting the progress of sending it to `onUploadProgress`.
+ *
+ * Where the runtime supports request streams, the body is sent as a stream and progress is reported as fetch reads it.
+ * Elsewhere, streamed bodies are read in full before they're sent, and progress is only reported when sending starts
+ * and once the response was received.
+ *
+ * @param canStream - Whether the body may be sent as a stream. Defaults to whether the runtime supports it.
+ */
+export async function prepareRequestBody(
+  init: RequestInit,
+  onUploadProgress?: UploadProgressHandler,
+  canStream = supportsRequestStreams()
+): Promise<PreparedRequestBody> {
+  const { body } = init;
+  const isStreamedBody = isReadableStream(body);
+
+  if (!isStreamedBody && !onUploadProgress) {
+    return { init, onSent: () => {} };
+  }
+
+  // Reading the body the way fetch would gets its size, and the Content-Type fetch would otherwise set (e.g., a form's).
+  const blob = isStreamedBody && canStream ? undefined : await new Response(body).blob();
+  const headers = new Headers(init.headers);
+  const preparedInit: RequestInit =
+    blob?.type && !headers.has('content-type')
+      ? { ...init, headers: { ...Object.fromEntries(headers.entries()), 'content-type': blob.type } }
+      : init;
+  const total = blob?.size;
+
+  if (!canStream || !onUploadProgress) {
+    onUploadProgress?.({ loaded: 0, total });
+
+    return {
+      init: blob ? { ...preparedInit, body: blob } : ({ ...preparedInit, duplex: 'half' } as RequestInit),
+      onSent: () => onUploadProgress?.({ loaded: total ?? 0, total }),
+    };
+  }
+
+  const chunks = iterateChunks(blob ? blob.stream() : (body as ReadableStream<Uint8Array>));
+  let loaded = 0;
+
+  const trackedBody = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+
+        if (done) {
+          controller.close();
+
+          return;
+        }
+
+        loaded += value.byteLength;
+
+        controller.enqueue(value);
+
+        onUploadProgress({ loaded, total });
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await chunks.return?.(reason);
+    },
+  });
+
+  onUploadProgress({ loaded: 0, total });
+
+  return {
+    init: { ...preparedInit, body: trackedBody, duplex: 'half' } as RequestInit,
+    onSent: () => {},
+  };
+}
@@ -0,0 +1,123 @@
+import { InvalidUrlError } from './errors';
+
+export interface UrlBase {
+  /**
+   * The protocol used when a URI doesn't specify one, without the `://` (e.g., `'https'`).
+   */
+  protocol: string;
+  /**
+   * The host relative URIs are resolved against. May include a port. Can be empty, in which case relative URIs stay
+   * relative.
+   */
+  host: string;
+  /**
+   * The path prepended to the path of every URI. Can be empty.
+   */
+  path: string;
+}
+
+const SCHEME_REGEX = /^[a-z][a-z\d+.-]*:\/\//i;
+/**
+ * A placeholder origin to resolve URIs against when there's no host, so relative URIs get the same treatment as
+ * absolute ones. It's never part of the result.
+ */
+const PLACEHOLDER_ORIGIN = 'http://placeholder.invalid';
+
+/**
+ * Joins two paths with exactly one `/` between them. A trailing `/` on the second path is preserved.
+ *
+ * @example
+ * ```ts
+ * joinUrlPaths('/api/', '/users/'); // '/api/users/'
+ * joinUrlPaths('/api', ''); // '/api'
+ * ```
+ */
+export function joinUrlPaths(basePath: string, path: string): string {
+  const trimmedBasePath = basePath.replace(/\/+$/, '');
+  const trimmedPath = path.replace(/^\/+/, '');
+
+  if (!trimmedPath) {
+    return path ? `${trimmedBasePath}/` : trimmedBasePath;
+  }
+
+  return `${trimmedBasePath}/${trimmedPath}`;
+}
+
+function parseUrl(url: string, base?: string): URL {
+  try {
+    return new URL(url, base);
+  } catch {
+    throw new InvalidUrlError(url);
+  }
+}
+
+/**
+ * Parses a base URL like `'https://api.example.com:8443/v1'` into its parts.
+ *
+ * @throws {InvalidUrlError} When the URL can't be parsed or isn't absolute.
+ */
+export function parseUrlBase(baseUrl: string): UrlBase {
+  if (!SCHEME_REGEX.test(baseUrl.trim())) {
+    throw new InvalidUrlError(baseUrl);
+  }
+
+  const { protocol, host, pathname } = parseUrl(baseUrl.trim());
+
+  return {
+    protocol: protocol.replace(/:$/, ''),
+    host,
+    path: pathname.replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Resolves the provided `uri` against the provided `base`, per WHATWG URL semantics.
+ *
+ * - URIs that start with `/`, `?`, or `#` (or are empty) are relative, and are resolved against the base's host. If the
+ *   base has no host, the result is still relative.
+ * - URIs that start with `//` are protocol-relative, and get the base's protocol.
+ * - Any other URI is absolute. If it has no protocol (e.g., `'localhost:3000/users'`), it gets the base's protocol.
+ *
+ * In every case, the base's path is prepended to the URI's path.
+ *
+ * @throws {InvalidUrlError} When the URI can't be parsed.
+ */
+export function resolveUrl(uri: string, base: UrlBase): string {
+  const trimmedUri = uri.trim();
+
+  const hasScheme = SCHEME_REGEX.test(trimmedUri);
+  const isProtocolRelative = trimmedUri.startsWith('//');
+  const isRelative = !hasScheme && !isProtocolRelative && (trimmedUri === '' || /^[/?#]/.test(trimmedUri));
+
+  if (isRelative) {
+    const [, path, queryAndFragment] = /^([^?#]*)(.*)$/s.exec(trimmedUri)!;
+    const joinedPath = joinUrlPaths(base.path, path);
+
+    const origin = base.host ? `${base.protocol}://${base.host}` : PLACEHOLDER_ORIGIN;
+    const url = parseUrl(`${joinedPath || '/'}${queryAndFragment}`, origin);
+    const resolvedPath = joinedPath ? url.pathname : '';
+
+    return `${base.host ? `${url.protocol}//${url.host}` : ''}${resolvedPath}${url.search}${url.hash}`;
+  }
+
+  let absoluteUri = trimmedUri;
+  if (isProtocolRelative) {
+    absoluteUri = `${base.protocol}:${trimmedUri}`;
+  } else if (!hasScheme) {
+    absoluteUri = `${base.protocol}://${trimmedUri}`;
+  }
+
+  const url = parseUrl(absoluteUri);
+
+  const [, authority, path] = /^[^:]+:\/\/([^/?#]*)([^?#]*)/.exec(absoluteUri)!;
+  if (!authority) {
+    throw new InvalidUrlError(uri);
+  }
+
+  const joinedPath = joinUrlPaths(base.path, path);
+  // Let URL normalize the joined path (e.g., percent-encoding and dot segments).
+  const resolvedPath = joinedPath ? parseUrl(joinedPath, PLACEHOLDER_ORIGIN).pathname : '';
+  const userInfo = url.username ? `${url.username}${url.password ? `:${url.password}` : ''}@` : '';
+
+  return `${url.protocol}//${userInfo}${url.host}${resolvedPath}${url.search}${url.hash}`;
+}
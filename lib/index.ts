@@ -1 +1,2 @@
-export * from './http';
\ No newline at end of file
+export * from './http';
+export * from './ws';
\ No newline at end of file
@@ -0,0 +1 @@
+export * from './http/file-fixture-store';
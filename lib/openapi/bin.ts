@@ -0,0 +1,5 @@
+import { runOpenApiCli } from './cli';
+
+runOpenApiCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
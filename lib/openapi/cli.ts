@@ -0,0 +1,101 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { generateOpenApiClient } from './generate-client';
+import { OpenApiDocument } from './openapi-document';
+import { parseYaml } from './yaml';
+
+export interface OpenApiCliIo {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, contents: string) => Promise<void>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: jtjs-openapi <input> [options]
+
+Generates a typed client from an OpenAPI 3.x document in JSON or YAML.
+
+Options:
+  -o, --output <file>       Where to write the generated TypeScript. Defaults to standard output.
+  --import-from <module>    The module the generated code imports the client from. Defaults to "@jtjs/networking".
+  -h, --help                Shows this message.
+`;
+
+const defaultIo: OpenApiCliIo = {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, contents) => writeFile(path, contents, 'utf8'),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+/**
+ * Parses the provided document, as JSON or YAML depending on its extension. Documents with any other extension are
+ * parsed as JSON if they look like JSON, and as YAML otherwise.
+ */
+export function parseOpenApiDocument(source: string, fileName = ''): OpenApiDocument {
+  const extension = extname(fileName).toLowerCase();
+  const isJson = extension === '.json' || (extension !== '.yaml' && extension !== '.yml' && /^\s*\{/.test(source));
+
+  return (isJson ? JSON.parse(source) : parseYaml(source)) as unknown as OpenApiDocument;
+}
+
+/**
+ * Runs the `jtjs-openapi` command with the provided arguments.
+ *
+ * @returns The exit code.
+ */
+export async function runOpenApiCli(args: string[], io: OpenApiCliIo = defaultIo): Promise<number> {
+  let input: string | undefined;
+  let output: string | undefined;
+  let importFrom: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '-h':
+      case '--help':
+        io.stdout(USAGE);
+
+        return 0;
+      case '-o':
+      case '--output':
+        output = args[++i];
+        break;
+      case '--import-from':
+        importFrom = args[++i];
+        break;
+      default:
+        if (arg.startsWith('-') || input !== undefined) {
+          io.stderr(`Unexpected argument "${arg}".\n\n${USAGE}`);
+
+          return 1;
+        }
+
+        input = arg;
+    }
+  }
+
+  if (!input || (output === undefined && args.some((arg) => arg === '-o' || arg === '--output'))) {
+    io.stderr(USAGE);
+
+    return 1;
+  }
+
+  try {
+    const document = parseOpenApiDocument(await io.readFile(input), input);
+    const code = generateOpenApiClient(document, { importFrom, sourceName: basename(input) });
+
+    if (output) {
+      await io.writeFile(output, code);
+    } else {
+      io.stdout(code);
+    }
+
+    return 0;
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n`);
+
+    return 1;
+  }
+}
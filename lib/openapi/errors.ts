@@ -0,0 +1,26 @@
+/**
+ * Thrown when a YAML document can't be parsed, or uses a feature the parser doesn't support.
+ */
+export class YamlParseError extends Error {
+  /**
+   * @param reason - What went wrong.
+   * @param line - The line the problem was found on, starting at `1`.
+   */
+  constructor(public readonly reason: string, public readonly line: number) {
+    super(`Could not parse YAML. ${reason} (line ${line})`);
+
+    this.name = 'YamlParseError';
+  }
+}
+
+/**
+ * Thrown when an OpenAPI document can't be turned into a client, e.g., because it isn't an OpenAPI 3 document or a
+ * `$ref` points at something that doesn't exist.
+ */
+export class OpenApiGenerationError extends Error {
+  constructor(message: string) {
+    super(`Could not generate a client from the OpenAPI document. ${message}`);
+
+    this.name = 'OpenApiGenerationError';
+  }
+}
@@ -0,0 +1,618 @@
+import { OpenApiGenerationError } from './errors';
+import {
+  OPENAPI_HTTP_METHODS,
+  OpenApiDocument,
+  OpenApiHttpMethod,
+  OpenApiMediaType,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiReference,
+  OpenApiRequestBody,
+  OpenApiResponse,
+  OpenApiSchema,
+} from './openapi-document';
+
+export interface OpenApiClientGenerationOptions {
+  /**
+   * The module the generated code imports the HTTP client from.
+   *
+   * Defaults to `'@jtjs/networking'`.
+   */
+  importFrom?: string;
+  /**
+   * The name of the file the document was read from. It's mentioned in the generated file's header.
+   */
+  sourceName?: string;
+}
+
+interface MediaTypeBody {
+  type: string;
+  /**
+   * The `Content-Type` to send the body with, if the client wouldn't pick the right one by itself.
+   */
+  contentType?: string;
+}
+
+/**
+ * The methods that have a convenience method on the client. Operations with any other method use `makeRequest`.
+ */
+const CLIENT_METHODS: OpenApiHttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+const JSON_MEDIA_TYPE_REGEX = /^application\/([\w.-]+\+)?json(\s*;|$)/i;
+
+/**
+ * The types the client's built-in codecs decode response bodies that aren't JSON into.
+ */
+const DECODED_BODY_TYPES: Record<string, string> = {
+  'application/octet-stream': 'ArrayBuffer',
+  'application/x-www-form-urlencoded': 'URLSearchParams',
+  'multipart/form-data': 'FormData',
+  'text/csv': 'string[][]',
+};
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+/**
+ * Names used by the generated code itself, which schemas can't be named.
+ */
+const RESERVED_NAMES = ['ApiRequestOptions', 'FetchHttpClient', 'FetchService', 'withContentType'];
+const INDENT = '  ';
+
+function toPascalCase(name: string): string {
+  const pascalName = name
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean)
+    .map((word) => `${word[0].toUpperCase()}${word.slice(1)}`)
+    .join('');
+
+  if (!pascalName) {
+    return 'Unnamed';
+  }
+
+  return /^\d/.test(pascalName) ? `_${pascalName}` : pascalName;
+}
+
+function toCamelCase(name: string): string {
+  const pascalName = toPascalCase(name);
+
+  return pascalName.startsWith('_') ? pascalName : `${pascalName[0].toLowerCase()}${pascalName.slice(1)}`;
+}
+
+/**
+ * Gives back the provided `name`, or the name with the lowest numeric suffix that isn't in `usedNames` yet. The result
+ * is added to `usedNames`.
+ */
+function claimName(name: string, usedNames: Set<string>): string {
+  let uniqueName = name;
+
+  for (let suffix = 2; usedNames.has(uniqueName); suffix++) {
+    uniqueName = `${name}${suffix}`;
+  }
+
+  usedNames.add(uniqueName);
+
+  return uniqueName;
+}
+
+function toStringLiteral(value: string): string {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+function toPropertyKey(name: string): string {
+  return IDENTIFIER_REGEX.test(name) ? name : toStringLiteral(name);
+}
+
+function toLiteralType(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+
+  return typeof value === 'string' ? toStringLiteral(value) : JSON.stringify(value);
+}
+
+/**
+ * Whether the provided `type` has to be wrapped in parentheses to be used as an array's item type.
+ */
+function needsParentheses(type: string): boolean {
+  let depth = 0;
+
+  for (const char of type) {
+    if ('{([<'.includes(char)) {
+      depth++;
+    } else if ('})]>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function formatDocComment(lines: (string | undefined)[], indent: string): string {
+  const commentLines = lines
+    .filter((line): line is string => !!line?.trim())
+    .flatMap((line) => line.trim().replace(/\*\//g, '*\\/').split('\n'));
+
+  if (commentLines.length === 0) {
+    return '';
+  }
+
+  return [`${indent}/**`, ...commentLines.map((line) => `${indent} *${line ? ` ${line}` : ''}`), `${indent} */`, '']
+    .join('\n');
+}
+
+function isReference(value: object): value is OpenApiReference {
+  return typeof (value as OpenApiReference).$ref === 'string';
+}
+
+/**
+ * Generates TypeScript from an OpenAPI 3.x document: a type for each of the document's schemas, and a class per tag
+ * with a method per operation. Each class wraps a {@link FetchHttpClient}.
+ *
+ * The output only depends on the document, so it can be checked in and regenerated without noise: schemas and classes
+ * are sorted by name, and operations are kept in the order the document lists them.
+ *
+ * @throws {OpenApiGenerationError} When the document isn't an OpenAPI 3 document, or has a `$ref` that can't be
+ * resolved.
+ */
+export function generateOpenApiClient(
+  document: OpenApiDocument,
+  options: OpenApiClientGenerationOptions = {}
+): string {
+  if (typeof document?.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new OpenApiGenerationError('Only OpenAPI 3.x documents are supported.');
+  }
+
+  return new OpenApiClientGenerator(document, options).generate();
+}
+
+class OpenApiClientGenerator {
+  #document: OpenApiDocument;
+  #options: OpenApiClientGenerationOptions;
+  #usedTypeNames = new Set<string>(RESERVED_NAMES);
+  #schemaTypeNames = new Map<string, string>();
+  #requestTypes: string[] = [];
+  #needsContentTypeHelper = false;
+
+  constructor(document: OpenApiDocument, options: OpenApiClientGenerationOptions) {
+    this.#document = document;
+    this.#options = options;
+
+    Object.keys(document.components?.schemas ?? {})
+      .sort()
+      .forEach((name) => this.#schemaTypeNames.set(name, claimName(toPascalCase(name), this.#usedTypeNames)));
+  }
+
+  generate(): string {
+    const { importFrom = '@jtjs/networking', sourceName } = this.#options;
+    const { title, version } = this.#document.info ?? {};
+
+    const schemaTypes = [...this.#schemaTypeNames].map(([name, typeName]) => {
+      const schema = this.#document.components!.schemas![name];
+
+      return `${this.#formatSchemaComment(schema, '')}export type ${typeName} = ${this.#typeOf(schema, '')};`;
+    });
+
+    const classes = this.#generateClasses();
+
+    const description = [title && JSON.stringify(title), version].filter(Boolean).join(' ');
+    const sections = [
+      [
+        '/**',
+        ` * Generated by jtjs-openapi${sourceName ? ` from ${sourceName}` : ''}${description ? ` (${description})` : ''}.`,
+        ' * Do not edit this file by hand. Regenerate it instead.',
+        ' */',
+      ].join('\n'),
+    ];
+
+    if (classes.length > 0) {
+      sections.push(`import { ApiRequestOptions, FetchHttpClient, FetchService } from ${toStringLiteral(importFrom)};`);
+    }
+
+    sections.push(...schemaTypes, ...this.#requestTypes);
+
+    if (this.#needsContentTypeHelper) {
+      sections.push(
+        [
+          'function withContentType<Request extends ApiRequestOptions>(request: Request, contentType: string): Request {',
+          '  const headers = new Headers(request.options?.headers);',
+          '',
+          "  if (!headers.has('content-type')) {",
+          "    headers.set('content-type', contentType);",
+          '  }',
+          '',
+          '  return { ...request, options: { ...request.options, headers } };',
+          '}',
+        ].join('\n')
+      );
+    }
+
+    sections.push(...classes);
+
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  #generateClasses(): string[] {
+    const methodsByClass = new Map<string, string[]>();
+    const usedMethodNames = new Map<string, Set<string>>();
+
+    Object.entries(this.#document.paths ?? {}).forEach(([path, pathItem]) => {
+      OPENAPI_HTTP_METHODS.forEach((method) => {
+        const operation = pathItem[method];
+
+        if (!operation) {
+          return;
+        }
+
+        const className = `${toPascalCase(operation.tags?.[0] ?? 'default')}Api`;
+
+        if (!usedMethodNames.has(className)) {
+          usedMethodNames.set(className, new Set());
+        }
+
+        const code = this.#generateMethod(
+          path,
+          method,
+          operation,
+          [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])],
+          usedMethodNames.get(className)!
+        );
+
+        methodsByClass.set(className, [...(methodsByClass.get(className) ?? []), code]);
+      });
+    });
+
+    return [...methodsByClass.keys()].sort().map((className) => {
+      const uniqueClassName = claimName(className, this.#usedTypeNames);
+
+      return [
+        `export class ${uniqueClassName} {`,
+        '  protected _client: FetchHttpClient;',
+        '  get client(): FetchHttpClient {',
+        '    return this._client;',
+        '  }',
+        '',
+        '  constructor(client: FetchHttpClient = FetchService) {',
+        '    this._client = client;',
+        '  }',
+        '',
+        methodsByClass.get(className)!.join('\n\n'),
+        '}',
+      ].join('\n');
+    });
+  }
+
+  #generateMethod(
+    path: string,
+    method: OpenApiHttpMethod,
+    operation: OpenApiOperation,
+    rawParameters: (OpenApiParameter | OpenApiReference)[],
+    usedMethodNames: Set<string>
+  ): string {
+    const methodName = claimName(toCamelCase(operation.operationId ?? `${method} ${path}`), usedMethodNames);
+
+    // Operation parameters override path parameters with the same name and location.
+    const parametersByKey = new Map<string, OpenApiParameter>();
+    rawParameters
+      .map((parameter) => this.#resolve(parameter))
+      .forEach((parameter) => parametersByKey.set(`${parameter.in}:${parameter.name}`, parameter));
+    const parameters = [...parametersByKey.values()];
+
+    const pathParameters = parameters.filter((parameter) => parameter.in === 'path');
+    const queryParameters = parameters.filter((parameter) => parameter.in === 'query');
+    const requestBody = operation.requestBody ? this.#resolve(operation.requestBody) : undefined;
+    const body = requestBody ? this.#getRequestBody(requestBody) : undefined;
+
+    const fields: string[] = [];
+
+    if (pathParameters.length > 0) {
+      fields.push(`  params: ${this.#parametersType(pathParameters, true, INDENT)};`);
+    }
+
+    if (queryParameters.length > 0) {
+      const isRequired = queryParameters.some((parameter) => parameter.required);
+
+      fields.push(`  query${isRequired ? '' : '?'}: ${this.#parametersType(queryParameters, false, INDENT)};`);
+    }
+
+    if (body) {
+      fields.push(
+        `${formatDocComment([requestBody?.description], INDENT)}  body${requestBody?.required ? '' : '?'}: ${
+          body.type
+        };`
+      );
+    }
+
+    let requestType = 'ApiRequestOptions';
+
+    if (fields.length > 0) {
+      requestType = claimName(`${toPascalCase(methodName)}Request`, this.#usedTypeNames);
+
+      this.#requestTypes.push(`export type ${requestType} = {\n${fields.join('\n')}\n} & ApiRequestOptions;`);
+    }
+
+    const isRequestRequired =
+      pathParameters.length > 0 ||
+      queryParameters.some((parameter) => parameter.required) ||
+      (!!body && !!requestBody?.required);
+
+    const request = body?.contentType
+      ? `withContentType(request, ${toStringLiteral(body.contentType)})`
+      : 'request';
+    this.#needsContentTypeHelper ||= !!body?.contentType;
+
+    const responseType = this.#getResponseType(operation);
+    const call = CLIENT_METHODS.includes(method)
+      ? `this._client.${method}<${responseType}>(${toStringLiteral(path)}, ${request})`
+      : `this._client.makeRequest<${responseType}>('${method.toUpperCase()}', ${toStringLiteral(path)}, ${request})`;
+
+    const comment = formatDocComment(
+      [operation.summary, operation.description, operation.deprecated ? '@deprecated' : undefined],
+      INDENT
+    );
+
+    return [
+      `${comment}  ${methodName}(request: ${requestType}${isRequestRequired ? '' : ' = {}'}) {`,
+      `    return ${call};`,
+      '  }',
+    ].join('\n');
+  }
+
+  #parametersType(parameters: OpenApiParameter[], isPath: boolean, indent: string): string {
+    const properties = parameters.map((parameter) => {
+      let type = this.#typeOf(parameter.schema, `${indent}${INDENT}`);
+
+      if (isPath) {
+        // Path params are filled in as a single segment, so they can't be objects, arrays, or null.
+        const schema = parameter.schema ? this.#resolve<OpenApiSchema>(parameter.schema as OpenApiSchema) : undefined;
+        const isCollection = ['object', 'array'].includes(String(schema?.type)) || !!schema?.properties || !!schema?.items;
+
+        type = isCollection ? 'string' : type.replace(/ \| null$/, '');
+      }
+
+      const comment = formatDocComment(
+        [parameter.description, parameter.deprecated ? '@deprecated' : undefined],
+        `${indent}${INDENT}`
+      );
+      const isOptional = !isPath && !parameter.required;
+
+      return `${comment}${indent}${INDENT}${toPropertyKey(parameter.name)}${isOptional ? '?' : ''}: ${type};`;
+    });
+
+    return `{\n${properties.join('\n')}\n${indent}}`;
+  }
+
+  #getRequestBody(requestBody: OpenApiRequestBody): MediaTypeBody | undefined {
+    const mediaTypes = Object.keys(requestBody.content ?? {});
+    const jsonMediaType = mediaTypes.find((mediaType) => JSON_MEDIA_TYPE_REGEX.test(mediaType));
+
+    if (jsonMediaType) {
+      const type = this.#typeOf(requestBody.content![jsonMediaType].schema, INDENT);
+
+      // The client assumes JSON when a body has no Content-Type, so only other JSON media types need to be sent.
+      return jsonMediaType.toLowerCase() === 'application/json' ? { type } : { type, contentType: jsonMediaType };
+    }
+
+    const [mediaType] = mediaTypes;
+
+    if (!mediaType) {
+      return undefined;
+    }
+
+    if (mediaType.toLowerCase().startsWith('multipart/form-data')) {
+      // The boundary is part of the Content-Type, so it has to be left for fetch to set.
+      return { type: 'FormData' };
+    }
+
+    if (mediaType.toLowerCase().startsWith('application/x-www-form-urlencoded')) {
+      return { type: 'URLSearchParams', contentType: mediaType };
+    }
+
+    return { type: mediaType.toLowerCase().startsWith('text/') ? 'string' : 'BodyInit', contentType: mediaType };
+  }
+
+  /**
+   * The type of an operation's successful response bodies, as decoded by the client's built-in codecs. Bodies of
+   * other media types are parsed as text.
+   */
+  #getResponseType(operation: OpenApiOperation): string {
+    const successStatuses = Object.keys(operation.responses ?? {})
+      .filter((status) => /^2(\d\d|XX)$/i.test(status))
+      .sort();
+
+    if (successStatuses.length === 0) {
+      return 'unknown';
+    }
+
+    const types = successStatuses.map((status) => {
+      const response = this.#resolve<OpenApiResponse>(operation.responses![status]);
+      const mediaTypes = Object.entries(response.content ?? {});
+
+      if (mediaTypes.length === 0) {
+        return 'undefined';
+      }
+
+      const [, jsonMediaType] = mediaTypes.find(([mediaType]) => JSON_MEDIA_TYPE_REGEX.test(mediaType)) ?? [];
+
+      return jsonMediaType
+        ? this.#typeOf((jsonMediaType as OpenApiMediaType).schema, INDENT)
+        : DECODED_BODY_TYPES[mediaTypes[0][0].split(';')[0].trim().toLowerCase()] ?? 'string';
+    });
+
+    return [...new Set(types)].join(' | ');
+  }
+
+  #typeOf(schema: OpenApiSchema | undefined, indent: string, resolvingRefs = new Set<string>()): string {
+    if (!schema || typeof schema !== 'object') {
+      return 'unknown';
+    }
+
+    if (schema.$ref) {
+      return this.#typeOfReference(schema.$ref, indent, resolvingRefs);
+    }
+
+    const typeOfPart = (part: OpenApiSchema) => {
+      const type = this.#typeOf(part, indent, resolvingRefs);
+
+      return needsParentheses(type) ? `(${type})` : type;
+    };
+
+    const declaredTypes = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    let isNullable = !!schema.nullable || declaredTypes.includes('null');
+
+    let types: string[];
+
+    if ('const' in schema) {
+      types = [toLiteralType(schema.const)];
+    } else if (schema.enum) {
+      isNullable ||= schema.enum.includes(null);
+      types = schema.enum.filter((value) => value !== null).map(toLiteralType);
+    } else if (schema.allOf) {
+      const parts = schema.allOf.map(typeOfPart);
+
+      if (schema.properties || schema.additionalProperties) {
+        parts.push(this.#objectType(schema, indent, resolvingRefs));
+      }
+
+      types = [parts.join(' & ')];
+    } else if (schema.oneOf ?? schema.anyOf) {
+      types = (schema.oneOf ?? schema.anyOf)!.map(typeOfPart);
+    } else {
+      const nonNullTypes = declaredTypes.filter((type) => type !== 'null');
+
+      if (nonNullTypes.length === 0) {
+        if (schema.properties || schema.additionalProperties) {
+          nonNullTypes.push('object');
+        } else if (schema.items) {
+          nonNullTypes.push('array');
+        }
+      }
+
+      types = nonNullTypes.map((type) => {
+        switch (type) {
+          case 'string':
+            return schema.format === 'binary' ? 'Blob' : 'string';
+          case 'integer':
+          case 'number':
+            return 'number';
+          case 'boolean':
+            return 'boolean';
+          case 'array':
+            return `${typeOfPart(schema.items ?? {})}[]`;
+          case 'object':
+            return this.#objectType(schema, indent, resolvingRefs);
+          default:
+            return 'unknown';
+        }
+      });
+
+      if (types.length === 0 && !isNullable) {
+        types = ['unknown'];
+      }
+    }
+
+    const uniqueTypes = [...new Set(types)];
+
+    if (isNullable && !uniqueTypes.includes('null') && !uniqueTypes.includes('unknown')) {
+      uniqueTypes.push('null');
+    }
+
+    return uniqueTypes.join(' | ') || 'never';
+  }
+
+  #typeOfReference(ref: string, indent: string, resolvingRefs: Set<string>): string {
+    if (ref.startsWith(SCHEMA_REF_PREFIX)) {
+      const typeName = this.#schemaTypeNames.get(this.#decodePointerSegment(ref.slice(SCHEMA_REF_PREFIX.length)));
+
+      if (typeName) {
+        return typeName;
+      }
+    }
+
+    // A reference to something other than a whole schema (e.g., one of a schema's properties) is inlined.
+    if (resolvingRefs.has(ref)) {
+      return 'unknown';
+    }
+
+    return this.#typeOf(this.#resolvePointer<OpenApiSchema>(ref), indent, new Set([...resolvingRefs, ref]));
+  }
+
+  #objectType(schema: OpenApiSchema, indent: string, resolvingRefs: Set<string>): string {
+    const { properties = {}, required = [], additionalProperties } = schema;
+    const propertyIndent = `${indent}${INDENT}`;
+
+    const additionalType =
+      additionalProperties === undefined || additionalProperties === false
+        ? undefined
+        : additionalProperties === true
+        ? 'unknown'
+        : this.#typeOf(additionalProperties, indent, resolvingRefs);
+
+    const propertyNames = Object.keys(properties);
+
+    if (propertyNames.length === 0) {
+      return `Record<string, ${additionalType ?? 'unknown'}>`;
+    }
+
+    const lines = propertyNames.map((name) => {
+      const property = properties[name];
+      const isOptional = !required.includes(name);
+
+      return `${this.#formatSchemaComment(property, propertyIndent)}${propertyIndent}${toPropertyKey(name)}${
+        isOptional ? '?' : ''
+      }: ${this.#typeOf(property, propertyIndent, resolvingRefs)};`;
+    });
+
+    const objectType = `{\n${lines.join('\n')}\n${indent}}`;
+
+    return additionalType ? `${objectType} & Record<string, ${additionalType}>` : objectType;
+  }
+
+  #formatSchemaComment(schema: OpenApiSchema | undefined, indent: string): string {
+    if (!schema || schema.$ref) {
+      return '';
+    }
+
+    return formatDocComment(
+      [schema.title, schema.description, schema.deprecated ? '@deprecated' : undefined],
+      indent
+    );
+  }
+
+  #resolve<T extends object>(value: T | OpenApiReference): T {
+    const seenRefs = new Set<string>();
+    let resolved = value;
+
+    while (isReference(resolved)) {
+      if (seenRefs.has(resolved.$ref)) {
+        throw new OpenApiGenerationError(`The reference "${resolved.$ref}" refers to itself.`);
+      }
+
+      seenRefs.add(resolved.$ref);
+      resolved = this.#resolvePointer<T | OpenApiReference>(resolved.$ref);
+    }
+
+    return resolved;
+  }
+
+  #resolvePointer<T>(ref: string): T {
+    if (!ref.startsWith('#/')) {
+      throw new OpenApiGenerationError(`Only references within the document are supported, but found "${ref}".`);
+    }
+
+    const value = ref
+      .slice(2)
+      .split('/')
+      .map((segment) => this.#decodePointerSegment(segment))
+      .reduce<any>((node, segment) => node?.[segment], this.#document);
+
+    if (value === undefined) {
+      throw new OpenApiGenerationError(`The reference "${ref}" does not point at anything.`);
+    }
+
+    return value;
+  }
+
+  #decodePointerSegment(segment: string): string {
+    return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+}
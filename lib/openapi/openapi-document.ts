@@ -0,0 +1,94 @@
+/**
+ * The parts of an OpenAPI 3.x document that are used to generate a client. Anything else in the document is ignored.
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: {
+    title?: string;
+    version?: string;
+  };
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter | OpenApiReference>;
+    requestBodies?: Record<string, OpenApiRequestBody | OpenApiReference>;
+    responses?: Record<string, OpenApiResponse | OpenApiReference>;
+  };
+}
+
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export interface OpenApiSchema {
+  $ref?: string;
+  /**
+   * In OpenAPI 3.1, may be a list of types, including `'null'`.
+   */
+  type?: string | string[];
+  format?: string;
+  title?: string;
+  description?: string;
+  deprecated?: boolean;
+  /**
+   * OpenAPI 3.0's way of allowing `null`.
+   */
+  nullable?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  /**
+   * The first tag decides which class the operation's method is generated on.
+   */
+  tags?: string[];
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+  requestBody?: OpenApiRequestBody | OpenApiReference;
+  responses?: Record<string, OpenApiResponse | OpenApiReference>;
+}
+
+export const OPENAPI_HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+export type OpenApiHttpMethod = (typeof OPENAPI_HTTP_METHODS)[number];
+
+export type OpenApiPathItem = {
+  parameters?: (OpenApiParameter | OpenApiReference)[];
+} & {
+  [Method in OpenApiHttpMethod]?: OpenApiOperation;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, test, vi } from 'vitest';
+import { OpenApiCliIo, parseOpenApiDocument, runOpenApiCli } from '../cli';
+
+const yamlDocument = [
+  'openapi: 3.0.3',
+  'info:',
+  '  title: Tiny',
+  '  version: 1.0.0',
+  'paths:',
+  '  /ping:',
+  '    get:',
+  '      operationId: ping',
+  '      responses:',
+  "        '204':",
+  '          description: Pong',
+].join('\n');
+
+const createIo = (files: Record<string, string> = {}) => {
+  const io = {
+    readFile: vi.fn(async (path: string) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: no such file, open '${path}'`);
+      }
+
+      return files[path];
+    }),
+    writeFile: vi.fn(async () => {}),
+    stdout: vi.fn(),
+    stderr: vi.fn(),
+  } satisfies OpenApiCliIo;
+
+  return io;
+};
+
+describe('parseOpenApiDocument', () => {
+  test('it parses JSON or YAML depending on the extension or contents', () => {
+    expect(parseOpenApiDocument('{"openapi": "3.0.0"}', 'api.json')).toEqual({ openapi: '3.0.0' });
+    expect(parseOpenApiDocument('openapi: 3.0.0', 'api.yml')).toEqual({ openapi: '3.0.0' });
+    expect(parseOpenApiDocument(' {"openapi": "3.0.0"}')).toEqual({ openapi: '3.0.0' });
+    expect(parseOpenApiDocument('openapi: 3.1.0')).toEqual({ openapi: '3.1.0' });
+  });
+});
+
+describe('runOpenApiCli', () => {
+  test('it writes the generated client to the output file', async () => {
+    const io = createIo({ 'api.yaml': yamlDocument });
+
+    const exitCode = await runOpenApiCli(['api.yaml', '-o', 'api.ts', '--import-from', './networking'], io);
+
+    expect(exitCode).toBe(0);
+    expect(io.writeFile).toHaveBeenCalledWith('api.ts', expect.stringContaining("} from './networking';"));
+    expect(io.writeFile).toHaveBeenCalledWith(
+      'api.ts',
+      expect.stringContaining("return this._client.get<undefined>('/ping', request);")
+    );
+  });
+
+  test('it writes to standard output when there is no output file', async () => {
+    const io = createIo({ 'api.yaml': yamlDocument });
+
+    expect(await runOpenApiCli(['api.yaml'], io)).toBe(0);
+    expect(io.stdout).toHaveBeenCalledWith(expect.stringContaining('Generated by jtjs-openapi from api.yaml ("Tiny" 1.0.0).'));
+  });
+
+  test('it prints usage for --help or missing arguments', async () => {
+    const io = createIo();
+
+    expect(await runOpenApiCli(['--help'], io)).toBe(0);
+    expect(io.stdout).toHaveBeenCalledWith(expect.stringContaining('Usage: jtjs-openapi <input> [options]'));
+
+    expect(await runOpenApiCli([], io)).toBe(1);
+    expect(await runOpenApiCli(['api.yaml', '--output'], io)).toBe(1);
+    expect(await runOpenApiCli(['api.yaml', '--watch'], io)).toBe(1);
+    expect(io.stderr).toHaveBeenCalledTimes(3);
+  });
+
+  test('it reports errors', async () => {
+    const io = createIo({ 'old.json': '{"swagger": "2.0"}' });
+
+    expect(await runOpenApiCli(['missing.yaml'], io)).toBe(1);
+    expect(await runOpenApiCli(['old.json'], io)).toBe(1);
+
+    expect(io.stderr).toHaveBeenNthCalledWith(1, "ENOENT: no such file, open 'missing.yaml'\n");
+    expect(io.stderr).toHaveBeenNthCalledWith(
+      2,
+      'Could not generate a client from the OpenAPI document. Only OpenAPI 3.x documents are supported.\n'
+    );
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, expect, test } from 'vitest';
+import { OpenApiGenerationError } from '../errors';
+import { generateOpenApiClient } from '../generate-client';
+import { OpenApiDocument } from '../openapi-document';
+
+const petStore: OpenApiDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        summary: 'List all pets',
+        tags: ['pets'],
+        parameters: [
+          { name: 'limit', in: 'query', description: 'How many to return', schema: { type: 'integer' } },
+          { $ref: '#/components/parameters/StatusFilter' },
+        ],
+        responses: {
+          '200': {
+            description: 'The pets',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+          },
+          default: { $ref: '#/components/responses/Error' },
+        },
+      },
+      post: {
+        operationId: 'create-pet',
+        tags: ['pets'],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/NewPet' } } },
+        },
+        responses: {
+          '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        },
+      },
+    },
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: {
+        operationId: 'showPetById',
+        tags: ['pets'],
+        responses: {
+          '200': { description: 'The pet', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+        },
+      },
+      delete: {
+        tags: ['pets'],
+        deprecated: true,
+        responses: { '204': { description: 'Deleted' } },
+      },
+    },
+    '/pets/{petId}/photo': {
+      put: {
+        operationId: 'uploadPhoto',
+        tags: ['pets'],
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+        requestBody: { content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+        responses: { '200': { description: 'OK', content: { 'text/plain': { schema: { type: 'string' } } } } },
+      },
+      get: {
+        operationId: 'downloadPhoto',
+        tags: ['pets'],
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: { '200': { description: 'OK', content: { 'application/octet-stream': {} } } },
+      },
+    },
+    '/store/inventory': {
+      get: {
+        tags: ['store'],
+        responses: {
+          '200': {
+            description: 'The inventory',
+            content: {
+              'application/json': { schema: { type: 'object', additionalProperties: { type: 'integer' } } },
+            },
+          },
+        },
+      },
+    },
+    '/health': {
+      head: { responses: { '200': { description: 'OK' } } },
+    },
+  },
+  components: {
+    parameters: {
+      StatusFilter: { name: 'status', in: 'query', schema: { $ref: '#/components/schemas/PetStatus' } },
+    },
+    responses: {
+      Error: {
+        description: 'Something went wrong',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    },
+    schemas: {
+      PetStatus: { type: 'string', enum: ['available', 'pending', 'sold'] },
+      NewPet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', description: "The pet's name." },
+          tag: { type: 'string', nullable: true },
+          status: { $ref: '#/components/schemas/PetStatus' },
+        },
+      },
+      Pet: {
+        description: 'A pet in the store.',
+        allOf: [
+          { $ref: '#/components/schemas/NewPet' },
+          { type: 'object', required: ['id'], properties: { id: { type: 'integer', format: 'int64' } } },
+        ],
+      },
+      Animal: {
+        oneOf: [
+          { $ref: '#/components/schemas/Pet' },
+          {
+            type: 'object',
+            properties: {
+              'habitat-name': { type: ['string', 'null'] },
+              tags: { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'number' }] } },
+            },
+          },
+        ],
+      },
+      Error: {
+        type: 'object',
+        required: ['code'],
+        properties: { code: { type: 'integer' }, details: { $ref: '#/components/schemas/Error/properties/code' } },
+      },
+    },
+  },
+};
+
+describe('generateOpenApiClient', () => {
+  const code = generateOpenApiClient(petStore, { sourceName: 'pet-store.yaml' });
+
+  test('it starts with a header and imports the client', () => {
+    expect(code).toMatch(
+      /^\/\*\*\n \* Generated by jtjs-openapi from pet-store\.yaml \("Pet Store" 1\.0\.0\)\.\n[^]*\*\/\n\nimport { ApiRequestOptions, FetchHttpClient, FetchService } from '@jtjs\/networking';/
+    );
+  });
+
+  test('it generates a type for each schema, sorted by name', () => {
+    const typeNames = [...code.matchAll(/^export type (\w+) =/gm)].map(([, name]) => name);
+
+    expect(typeNames.slice(0, 5)).toEqual(['Animal', 'Error', 'NewPet', 'Pet', 'PetStatus']);
+  });
+
+  test('it generates objects with required, optional, and nullable properties', () => {
+    expect(code).toContain(
+      [
+        'export type NewPet = {',
+        '  /**',
+        "   * The pet's name.",
+        '   */',
+        '  name: string;',
+        '  tag?: string | null;',
+        '  status?: PetStatus;',
+        '};',
+      ].join('\n')
+    );
+  });
+
+  test('it generates enums, allOf, oneOf, and additional properties', () => {
+    expect(code).toContain("export type PetStatus = 'available' | 'pending' | 'sold';");
+    expect(code).toContain('export type Pet = NewPet & {\n  id: number;\n};');
+    expect(code).toContain(
+      "export type Animal = Pet | {\n  'habitat-name'?: string | null;\n  tags?: (string | number)[];\n};"
+    );
+    expect(code).toContain("this._client.get<Record<string, number>>('/store/inventory', request)");
+  });
+
+  test('it inlines references to parts of schemas', () => {
+    expect(code).toContain('export type Error = {\n  code: number;\n  details?: number;\n};');
+  });
+
+  test('it generates a class per tag with a method per operation', () => {
+    expect(code).toContain(
+      [
+        '  /**',
+        '   * List all pets',
+        '   */',
+        '  listPets(request: ListPetsRequest = {}) {',
+        "    return this._client.get<Pet[]>('/pets', request);",
+        '  }',
+      ].join('\n')
+    );
+    expect(code).toContain(
+      "  createPet(request: CreatePetRequest) {\n    return this._client.post<Pet>('/pets', request);\n  }"
+    );
+    expect(code).toContain("    return this._client.get<Pet>('/pets/{petId}', request);");
+    expect(code).toContain("    return this._client.makeRequest<undefined>('HEAD', '/health', request);");
+
+    const classNames = [...code.matchAll(/^export class (\w+) {/gm)].map(([, name]) => name);
+
+    expect(classNames).toEqual(['DefaultApi', 'PetsApi', 'StoreApi']);
+  });
+
+  test('it names operations without an operationId after their method and path', () => {
+    expect(code).toContain('  /**\n   * @deprecated\n   */\n  deletePetsPetId(request: DeletePetsPetIdRequest) {');
+  });
+
+  test('it generates request types with params, query, and body', () => {
+    expect(code).toContain(
+      [
+        'export type ListPetsRequest = {',
+        '  query?: {',
+        '    /**',
+        '     * How many to return',
+        '     */',
+        '    limit?: number;',
+        '    status?: PetStatus;',
+        '  };',
+        '} & ApiRequestOptions;',
+      ].join('\n')
+    );
+    expect(code).toContain('export type CreatePetRequest = {\n  body: NewPet;\n} & ApiRequestOptions;');
+    expect(code).toContain('export type ShowPetByIdRequest = {\n  params: {\n    petId: number;\n  };\n} & ApiRequestOptions;');
+  });
+
+  test('it sends bodies that are not JSON with their content type', () => {
+    expect(code).toContain('  body?: BodyInit;');
+    expect(code).toContain("this._client.put<string>('/pets/{petId}/photo', withContentType(request, 'application/octet-stream'))");
+    expect(code).toContain('function withContentType<Request extends ApiRequestOptions>');
+  });
+
+  test('it types bodies that are not JSON as the client decodes them', () => {
+    expect(code).toContain("return this._client.get<ArrayBuffer>('/pets/{petId}/photo', request);");
+  });
+
+  test('it is reproducible', () => {
+    const reordered: OpenApiDocument = {
+      ...petStore,
+      components: {
+        ...petStore.components,
+        schemas: Object.fromEntries(Object.entries(petStore.components!.schemas!).reverse()),
+      },
+    };
+
+    expect(generateOpenApiClient(reordered, { sourceName: 'pet-store.yaml' })).toBe(code);
+  });
+
+  test('it uses the provided module to import the client from', () => {
+    expect(generateOpenApiClient(petStore, { importFrom: './networking' })).toContain("} from './networking';");
+  });
+
+  test('it throws for documents that are not OpenAPI 3', () => {
+    expect(() => generateOpenApiClient({ swagger: '2.0' } as any)).toThrowError(OpenApiGenerationError);
+  });
+
+  test('it throws for references it cannot resolve', () => {
+    const document: OpenApiDocument = {
+      openapi: '3.1.0',
+      components: { schemas: { Broken: { $ref: '#/components/schemas/Missing/properties/id' } } },
+    };
+
+    expect(() => generateOpenApiClient(document)).toThrowError(
+      'Could not generate a client from the OpenAPI document. The reference "#/components/schemas/Missing/properties/id" does not point at anything.'
+    );
+    expect(() =>
+      generateOpenApiClient({ openapi: '3.0.0', components: { schemas: { External: { $ref: 'other.yaml#/Pet' } } } })
+    ).toThrowError(OpenApiGenerationError);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, test } from 'vitest';
+import { YamlParseError } from '../errors';
+import { parseYaml } from '../yaml';
+
+const yaml = (lines: string[]) => parseYaml(lines.join('\n'));
+
+describe('parseYaml', () => {
+  test('it parses block mappings and sequences', () => {
+    expect(
+      yaml([
+        'openapi: 3.0.3',
+        'info:',
+        '  title: Pet Store',
+        '  version: "1.0"',
+        'tags:',
+        '- name: pets',
+        '  description: Everything about pets',
+        '- name: store',
+        'servers:',
+        '  - url: https://somecoolsite.com',
+        '    variables: {}',
+      ])
+    ).toEqual({
+      openapi: '3.0.3',
+      info: { title: 'Pet Store', version: '1.0' },
+      tags: [{ name: 'pets', description: 'Everything about pets' }, { name: 'store' }],
+      servers: [{ url: 'https://somecoolsite.com', variables: {} }],
+    });
+  });
+
+  test('it resolves plain scalars', () => {
+    expect(
+      yaml([
+        'string: hello world',
+        'int: 42',
+        'negative: -7',
+        'float: 1.5e3',
+        'hex: 0x1F',
+        'yes: true',
+        'no: False',
+        'nothing: ~',
+        'empty:',
+        'infinity: -.inf',
+        'version: 1.0.0',
+      ])
+    ).toEqual({
+      string: 'hello world',
+      int: 42,
+      negative: -7,
+      float: 1500,
+      hex: 31,
+      yes: true,
+      no: false,
+      nothing: null,
+      empty: null,
+      infinity: -Infinity,
+      version: '1.0.0',
+    });
+  });
+
+  test('it parses quoted scalars and keys', () => {
+    expect(
+      yaml([
+        `'200':`,
+        `  single: 'it''s # not a comment'`,
+        `  double: "tab\\there \\u00e9"`,
+        `  "quoted key": "spans`,
+        `    two lines"`,
+      ])
+    ).toEqual({
+      '200': {
+        single: "it's # not a comment",
+        double: 'tab\there é',
+        'quoted key': 'spans two lines',
+      },
+    });
+  });
+
+  test('it ignores comments', () => {
+    expect(
+      yaml(['# A comment', 'a: 1 # trailing', '', '  # indented', 'b: c#not-a-comment', 'list:', '  # first', '  - x'])
+    ).toEqual({ a: 1, b: 'c#not-a-comment', list: ['x'] });
+  });
+
+  test('it parses literal and folded block scalars', () => {
+    expect(
+      yaml([
+        'literal: |',
+        '  line one',
+        '    indented',
+        '',
+        '  line three',
+        'folded: >-',
+        '  folded',
+        '  together',
+        '',
+        '  new paragraph',
+        'kept: |+',
+        '  text',
+        '',
+        'end: true',
+      ])
+    ).toEqual({
+      literal: 'line one\n  indented\n\nline three\n',
+      folded: 'folded together\nnew paragraph',
+      kept: 'text\n\n',
+      end: true,
+    });
+  });
+
+  test('it parses flow collections, including ones that span lines', () => {
+    expect(
+      yaml([
+        'required: [id, "name"]',
+        'example: { id: 1, tags: [a, b], nested: { ok: true } }',
+        'enum: [',
+        '  available,',
+        '  sold,',
+        ']',
+      ])
+    ).toEqual({
+      required: ['id', 'name'],
+      example: { id: 1, tags: ['a', 'b'], nested: { ok: true } },
+      enum: ['available', 'sold'],
+    });
+  });
+
+  test('it joins plain scalars that continue on more indented lines', () => {
+    expect(yaml(['description: A long', '  description that', '  wraps', 'next: 1'])).toEqual({
+      description: 'A long description that wraps',
+      next: 1,
+    });
+  });
+
+  test('it parses nested sequences and sequences of mappings with block values', () => {
+    expect(yaml(['- - a', '  - b', '- name: x', '  schema:', '    type: string'])).toEqual([
+      ['a', 'b'],
+      { name: 'x', schema: { type: 'string' } },
+    ]);
+  });
+
+  test('it skips the document start marker and directives', () => {
+    expect(yaml(['%YAML 1.2', '---', 'a: 1', '...'])).toEqual({ a: 1 });
+  });
+
+  test('it throws for unsupported features, with the line', () => {
+    expect(() => yaml(['a: &anchor 1'])).toThrowError(YamlParseError);
+    expect(() => yaml(['a: 1', '---', 'b: 2'])).toThrowError('Only one document is supported. (line 2)');
+    expect(() => yaml(['a:', '\tb: 1'])).toThrowError('Tabs cannot be used for indentation. (line 2)');
+  });
+
+  test('it throws for invalid indentation', () => {
+    expect(() => yaml(['a:', '    b: 1', '  c: 2'])).toThrowError(YamlParseError);
+  });
+});
@@ -0,0 +1,659 @@
+import { YamlParseError } from './errors';
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface SourceLine {
+  indent: number;
+  /**
+   * The line without its indentation.
+   */
+  text: string;
+  /**
+   * The line's number, starting at `1`.
+   */
+  number: number;
+}
+
+interface QuotedScalar {
+  value: string;
+  /**
+   * The index just past the closing quote.
+   */
+  end: number;
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+};
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function isComment(text: string): boolean {
+  return text.startsWith('#');
+}
+
+function isDocumentMarker(line: SourceLine): boolean {
+  return line.indent === 0 && (line.text === '...' || /^---(\s|$)/.test(line.text));
+}
+
+/**
+ * Reads the quoted scalar that starts at `start`, or gives back `undefined` if its closing quote is missing.
+ */
+function readQuoted(source: string, start: number): QuotedScalar | undefined {
+  const quote = source[start];
+  let value = '';
+
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        if (source[i + 1] === "'") {
+          value += "'";
+          i++;
+
+          continue;
+        }
+
+        return { value, end: i + 1 };
+      }
+
+      value += char;
+
+      continue;
+    }
+
+    if (char === '"') {
+      return { value, end: i + 1 };
+    }
+
+    if (char !== '\\') {
+      value += char;
+
+      continue;
+    }
+
+    const escape = source[++i];
+    const hexLength = { x: 2, u: 4, U: 8 }[escape as 'x' | 'u' | 'U'];
+
+    if (hexLength) {
+      value += String.fromCodePoint(parseInt(source.slice(i + 1, i + 1 + hexLength), 16));
+      i += hexLength;
+    } else {
+      value += DOUBLE_QUOTE_ESCAPES[escape] ?? escape;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Removes a trailing comment (a `#` at the start or after whitespace) from the provided `text`, ignoring any `#` in
+ * quotes.
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+
+  return text.trimEnd();
+}
+
+/**
+ * Resolves a plain (unquoted) scalar to the value it stands for, per the YAML 1.2 core schema.
+ */
+function resolvePlainScalar(text: string): YamlValue {
+  if (/^(null|Null|NULL|~)?$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^0x[\da-fA-F]+$/.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.slice(2), 8);
+  }
+  if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN;
+  }
+
+  return text;
+}
+
+/**
+ * Folds the lines of a `>` block scalar: line breaks between lines of text become spaces, and blank lines become line
+ * breaks. Lines that are more indented than the rest keep their line breaks.
+ */
+function foldLines(lines: string[]): string {
+  let result = lines[0] === '' ? '\n' : lines[0];
+
+  for (let i = 1; i < lines.length; i++) {
+    const previous = lines[i - 1];
+    const line = lines[i];
+
+    if (line === '') {
+      result += '\n';
+    } else if (previous === '') {
+      result += line;
+    } else if (previous.startsWith(' ') || line.startsWith(' ')) {
+      result += `\n${line}`;
+    } else {
+      result += ` ${line}`;
+    }
+  }
+
+  return result;
+}
+
+class YamlParser {
+  #lines: string[];
+  #index = 0;
+
+  constructor(source: string) {
+    this.#lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+  }
+
+  parse(): YamlValue {
+    this.#skipDirectives();
+
+    const value = this.#parseBlock(-1);
+    const line = this.#peek();
+
+    if (line && line.text !== '...') {
+      throw new YamlParseError(
+        line.text.startsWith('---') ? 'Only one document is supported.' : 'Unexpected content.',
+        line.number
+      );
+    }
+
+    return value;
+  }
+
+  #skipDirectives(): void {
+    let line = this.#peek();
+
+    while (line && line.indent === 0 && (line.text.startsWith('%') || (isDocumentMarker(line) && line.text !== '...'))) {
+      const rest = line.text.startsWith('---') ? stripComment(line.text.slice(3)).trim() : '';
+
+      if (rest) {
+        throw new YamlParseError('Content on the same line as "---" is not supported.', line.number);
+      }
+
+      this.#index++;
+      line = this.#peek();
+    }
+  }
+
+  /**
+   * Gets the next line with content, skipping blank lines and comments.
+   */
+  #peek(): SourceLine | undefined {
+    while (this.#index < this.#lines.length) {
+      const line = this.#readLine(this.#index);
+
+      if (line.text && !isComment(line.text)) {
+        return line;
+      }
+
+      this.#index++;
+    }
+
+    return undefined;
+  }
+
+  #readLine(index: number): SourceLine {
+    const raw = this.#lines[index];
+    const text = raw.trimStart();
+    const indentation = raw.slice(0, raw.length - text.length);
+
+    if (indentation.includes('\t') && text) {
+      throw new YamlParseError('Tabs cannot be used for indentation.', index + 1);
+    }
+
+    return { indent: indentation.length, text: text.trimEnd(), number: index + 1 };
+  }
+
+  /**
+   * Parses the node that starts on the next line, if that line is more indented than `parentIndent`.
+   */
+  #parseBlock(parentIndent: number): YamlValue {
+    const line = this.#peek();
+
+    if (!line || line.indent <= parentIndent || isDocumentMarker(line)) {
+      return null;
+    }
+
+    if (line.text.startsWith('? ')) {
+      throw new YamlParseError('Complex mapping keys are not supported.', line.number);
+    }
+
+    if (isSequenceItem(line.text)) {
+      return this.#parseSequence(line.indent);
+    }
+
+    if (this.#findKeyEnd(line.text) !== -1) {
+      return this.#parseMapping(line.indent);
+    }
+
+    this.#index++;
+
+    return this.#parseScalar(line.text, parentIndent, line.number);
+  }
+
+  #parseMapping(indent: number): Record<string, YamlValue> {
+    const mapping: Record<string, YamlValue> = {};
+
+    let line = this.#peek();
+
+    while (line && line.indent === indent && !isSequenceItem(line.text) && !isDocumentMarker(line)) {
+      const keyEnd = this.#findKeyEnd(line.text);
+
+      if (keyEnd === -1) {
+        throw new YamlParseError('Expected a "key: value" pair.', line.number);
+      }
+
+      const rawKey = line.text.slice(0, keyEnd).trim();
+      const key = /^["']/.test(rawKey) ? readQuoted(rawKey, 0)!.value : rawKey;
+      const rest = line.text.slice(keyEnd + 1).trim();
+
+      this.#index++;
+
+      if (!rest || isComment(rest)) {
+        const next = this.#peek();
+
+        // A sequence may be indented as much as the key it belongs to.
+        mapping[key] =
+          next && next.indent === indent && isSequenceItem(next.text)
+            ? this.#parseSequence(indent)
+            : this.#parseBlock(indent);
+      } else {
+        mapping[key] = this.#parseScalar(rest, indent, line.number);
+      }
+
+      line = this.#peek();
+    }
+
+    if (line && line.indent > indent) {
+      throw new YamlParseError('Unexpected indentation.', line.number);
+    }
+
+    return mapping;
+  }
+
+  #parseSequence(indent: number): YamlValue[] {
+    const sequence: YamlValue[] = [];
+
+    let line = this.#peek();
+
+    while (line && line.indent === indent && isSequenceItem(line.text)) {
+      const rest = line.text.slice(1);
+      const content = rest.trimStart();
+
+      if (!content || isComment(content)) {
+        this.#index++;
+        sequence.push(this.#parseBlock(indent));
+      } else {
+        // Read the item's content as if it were on a line of its own, so that `- key: value` starts a mapping whose
+        // other keys are on the following lines.
+        const contentIndent = indent + 1 + rest.length - content.length;
+        this.#lines[this.#index] = `${' '.repeat(contentIndent)}${content}`;
+
+        sequence.push(this.#parseBlock(contentIndent - 1));
+      }
+
+      line = this.#peek();
+    }
+
+    if (line && line.indent > indent) {
+      throw new YamlParseError('Unexpected indentation.', line.number);
+    }
+
+    return sequence;
+  }
+
+  /**
+   * Parses a value that starts partway through a line, like the value of a `key: value` pair. The value may continue
+   * on following lines that are more indented than `parentIndent`.
+   */
+  #parseScalar(text: string, parentIndent: number, lineNumber: number): YamlValue {
+    if (/^[&*!]/.test(text)) {
+      throw new YamlParseError('Anchors, aliases, and tags are not supported.', lineNumber);
+    }
+
+    if (text.startsWith('|') || text.startsWith('>')) {
+      return this.#parseBlockScalar(text, parentIndent, lineNumber);
+    }
+
+    if (text.startsWith('"') || text.startsWith("'")) {
+      return this.#parseQuoted(text, lineNumber);
+    }
+
+    if (text.startsWith('[') || text.startsWith('{')) {
+      return this.#parseFlow(text, lineNumber);
+    }
+
+    let value = stripComment(text);
+    let next = this.#peek();
+
+    while (next && next.indent > parentIndent) {
+      value += ` ${stripComment(next.text)}`;
+
+      this.#index++;
+      next = this.#peek();
+    }
+
+    return resolvePlainScalar(value);
+  }
+
+  #parseQuoted(text: string, lineNumber: number): string {
+    let source = text;
+    let quoted = readQuoted(source, 0);
+
+    // A quoted scalar may span lines. Line breaks are folded into spaces, and blank lines into line breaks.
+    while (!quoted && this.#index < this.#lines.length) {
+      const line = this.#lines[this.#index++].trim();
+
+      source += line ? `${source.endsWith('\n') ? '' : ' '}${line}` : '\n';
+      quoted = readQuoted(source, 0);
+    }
+
+    if (!quoted) {
+      throw new YamlParseError('Missing the closing quote of a string.', lineNumber);
+    }
+
+    if (stripComment(source.slice(quoted.end)).trim()) {
+      throw new YamlParseError('Unexpected content after a string.', lineNumber);
+    }
+
+    return quoted.value;
+  }
+
+  #parseBlockScalar(header: string, parentIndent: number, lineNumber: number): string {
+    const match = /^([|>])([+-]?)(\d?)([+-]?)(\s+#.*)?$/.exec(header);
+
+    if (!match) {
+      throw new YamlParseError('Invalid block scalar header.', lineNumber);
+    }
+
+    const [, style, chompingBefore, explicitIndent, chompingAfter] = match;
+    const chomping = chompingBefore || chompingAfter;
+
+    const rawLines: string[] = [];
+
+    while (this.#index < this.#lines.length) {
+      const raw = this.#lines[this.#index];
+
+      if (raw.trim() && raw.length - raw.trimStart().length <= parentIndent) {
+        break;
+      }
+
+      rawLines.push(raw);
+      this.#index++;
+    }
+
+    const firstContentLine = rawLines.find((raw) => raw.trim());
+    const contentIndent = explicitIndent
+      ? Math.max(parentIndent, 0) + Number(explicitIndent)
+      : (firstContentLine?.length ?? 0) - (firstContentLine?.trimStart().length ?? 0);
+
+    const lines = rawLines.map((raw) => (raw.trim() ? raw.slice(contentIndent) : ''));
+
+    let trailingBlankLines = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailingBlankLines++;
+    }
+
+    const content = lines.length === 0 ? '' : style === '|' ? lines.join('\n') : foldLines(lines);
+
+    if (chomping === '-' || !content) {
+      return content;
+    }
+
+    return chomping === '+' ? `${content}\n${'\n'.repeat(trailingBlankLines)}` : `${content}\n`;
+  }
+
+  #parseFlow(text: string, lineNumber: number): YamlValue {
+    let source = text;
+
+    // A flow collection may span lines, so keep reading until its brackets are balanced.
+    while (!this.#isBalanced(source) && this.#index < this.#lines.length) {
+      source += ` ${stripComment(this.#lines[this.#index++].trim())}`;
+    }
+
+    const parser = new FlowParser(source, lineNumber);
+    const value = parser.parseValue();
+
+    if (stripComment(source.slice(parser.position)).trim()) {
+      throw new YamlParseError('Unexpected content after a collection.', lineNumber);
+    }
+
+    return value;
+  }
+
+  #isBalanced(source: string): boolean {
+    let depth = 0;
+    let quote: string | undefined;
+
+    for (const char of stripComment(source)) {
+      if (quote) {
+        quote = char === quote ? undefined : quote;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      }
+    }
+
+    return depth <= 0;
+  }
+
+  /**
+   * Finds the colon that ends the key of a `key: value` pair, or gives back `-1` if the provided `text` isn't one.
+   */
+  #findKeyEnd(text: string): number {
+    let start = 0;
+
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const quoted = readQuoted(text, 0);
+
+      if (!quoted) {
+        return -1;
+      }
+
+      start = quoted.end;
+    } else if (text.startsWith('[') || text.startsWith('{')) {
+      return -1;
+    }
+
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '#' && /\s/.test(text[i - 1] ?? ' ')) {
+        return -1;
+      }
+
+      if (text[i] === ':' && (i === text.length - 1 || /\s/.test(text[i + 1]))) {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+}
+
+/**
+ * Parses a flow collection, like `[a, b]` or `{ a: 1 }`.
+ */
+class FlowParser {
+  position = 0;
+
+  #source: string;
+  #lineNumber: number;
+
+  constructor(source: string, lineNumber: number) {
+    this.#source = source;
+    this.#lineNumber = lineNumber;
+  }
+
+  parseValue(): YamlValue {
+    this.#skipWhitespace();
+
+    const char = this.#source[this.position];
+
+    if (char === '[') {
+      return this.#parseSequence();
+    }
+
+    if (char === '{') {
+      return this.#parseMapping();
+    }
+
+    return this.#parseScalar(',]}');
+  }
+
+  #parseSequence(): YamlValue[] {
+    const sequence: YamlValue[] = [];
+
+    this.position++;
+
+    while (true) {
+      this.#skipWhitespace();
+
+      if (this.#source[this.position] === ']') {
+        this.position++;
+
+        return sequence;
+      }
+
+      sequence.push(this.parseValue());
+
+      this.#expectSeparator(']');
+    }
+  }
+
+  #parseMapping(): Record<string, YamlValue> {
+    const mapping: Record<string, YamlValue> = {};
+
+    this.position++;
+
+    while (true) {
+      this.#skipWhitespace();
+
+      if (this.#source[this.position] === '}') {
+        this.position++;
+
+        return mapping;
+      }
+
+      const key = String(this.#parseScalar(':,}', true));
+
+      this.#skipWhitespace();
+
+      if (this.#source[this.position] === ':') {
+        this.position++;
+        mapping[key] = this.parseValue();
+      } else {
+        mapping[key] = null;
+      }
+
+      this.#expectSeparator('}');
+    }
+  }
+
+  #parseScalar(terminators: string, isKey = false): YamlValue {
+    this.#skipWhitespace();
+
+    const char = this.#source[this.position];
+
+    if (char === '"' || char === "'") {
+      const quoted = readQuoted(this.#source, this.position);
+
+      if (!quoted) {
+        throw new YamlParseError('Missing the closing quote of a string.', this.#lineNumber);
+      }
+
+      this.position = quoted.end;
+
+      return quoted.value;
+    }
+
+    const start = this.position;
+
+    while (this.position < this.#source.length && !terminators.includes(this.#source[this.position])) {
+      this.position++;
+    }
+
+    const text = this.#source.slice(start, this.position).trim();
+
+    return isKey ? text : resolvePlainScalar(text);
+  }
+
+  #expectSeparator(closer: string): void {
+    this.#skipWhitespace();
+
+    const char = this.#source[this.position];
+
+    if (char === ',') {
+      this.position++;
+    } else if (char !== closer) {
+      throw new YamlParseError(`Expected "," or "${closer}" in a collection.`, this.#lineNumber);
+    }
+  }
+
+  #skipWhitespace(): void {
+    while (/\s/.test(this.#source[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+}
+
+/**
+ * Parses a YAML document. Supports the subset of YAML that OpenAPI documents are written in: block and flow
+ * collections, plain and quoted scalars, block scalars (`|` and `>`), and comments. Anchors, aliases, tags, and
+ * multiple documents aren't supported.
+ *
+ * @throws {YamlParseError} When the document isn't valid, or uses a feature that isn't supported.
+ */
+export function parseYaml(source: string): YamlValue {
+  return new YamlParser(source).parse();
+}
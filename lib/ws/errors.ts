@@ -0,0 +1,71 @@
+/**
+ * Passed to `onError` when the connection failed. The browser doesn't say why a WebSocket connection failed, so
+ * neither can this error.
+ */
+export class WebSocketConnectionError extends Error {
+  constructor(public readonly url: string) {
+    super(`The WebSocket connection to "${url}" failed.`);
+
+    this.name = 'WebSocketConnectionError';
+  }
+}
+
+/**
+ * Thrown when a message is sent after the client was closed, and used to reject requests that were still waiting on a
+ * reply when the client was closed.
+ */
+export class WebSocketClosedError extends Error {
+  constructor() {
+    super('The WebSocket client is closed.');
+
+    this.name = 'WebSocketClosedError';
+  }
+}
+
+/**
+ * Thrown when a message is sent while disconnected, but the buffer for such messages is full.
+ */
+export class MessageBufferFullError extends Error {
+  constructor(public readonly maxBufferedMessages: number) {
+    super(`Could not buffer the message. The buffer already holds ${maxBufferedMessages} messages.`);
+
+    this.name = 'MessageBufferFullError';
+  }
+}
+
+/**
+ * Passed to `onError` when a received message couldn't be decoded. The message is dropped.
+ */
+export class MessageDecodeError extends Error {
+  /**
+   * @param data - The data that couldn't be decoded.
+   * @param cause - What the codec threw.
+   */
+  constructor(public readonly data: unknown, public readonly cause: unknown) {
+    super('Could not decode a received message.');
+
+    this.name = 'MessageDecodeError';
+  }
+}
+
+/**
+ * Passed to `onError` when the server didn't answer a ping in time. The connection is considered dead and is dropped.
+ */
+export class HeartbeatTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`The server did not answer a ping within ${timeoutMs}ms.`);
+
+    this.name = 'HeartbeatTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a request sent over a WebSocket didn't receive a reply within its allotted time.
+ */
+export class WebSocketRequestTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`No reply was received within ${timeoutMs}ms.`);
+
+    this.name = 'WebSocketRequestTimeoutError';
+  }
+}
@@ -0,0 +1,3 @@
+export * from './errors';
+export * from './message-codec';
+export * from './web-socket-client';
\ No newline at end of file
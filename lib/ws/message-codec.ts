@@ -0,0 +1,51 @@
+/**
+ * Data that can be sent over or received from a WebSocket.
+ */
+export type WebSocketData = string | ArrayBufferLike | ArrayBufferView | Blob;
+
+/**
+ * Turns messages into data that can be sent over a WebSocket, and received data back into messages.
+ */
+export interface MessageCodec<Incoming, Outgoing> {
+  encode(message: Outgoing): WebSocketData;
+  /**
+   * @throws When the data isn't a valid message. The message is dropped and the error is passed to `onError`.
+   */
+  decode(data: WebSocketData): Incoming;
+}
+
+/**
+ * Sends and receives data as-is.
+ */
+export class RawMessageCodec implements MessageCodec<WebSocketData, WebSocketData> {
+  encode(message: WebSocketData): WebSocketData {
+    return message;
+  }
+
+  decode(data: WebSocketData): WebSocketData {
+    return data;
+  }
+}
+
+/**
+ * Sends messages as JSON text, and parses received text (or UTF-8 binary data) as JSON.
+ */
+export class JsonMessageCodec<Incoming = any, Outgoing = any> implements MessageCodec<Incoming, Outgoing> {
+  #decoder = new TextDecoder();
+
+  encode(message: Outgoing): WebSocketData {
+    return JSON.stringify(message);
+  }
+
+  decode(data: WebSocketData): Incoming {
+    if (typeof data === 'string') {
+      return JSON.parse(data);
+    }
+
+    if (data instanceof Blob) {
+      throw new Error('Blobs cannot be decoded synchronously. Use an "arraybuffer" binary type.');
+    }
+
+    return JSON.parse(this.#decoder.decode(data));
+  }
+}
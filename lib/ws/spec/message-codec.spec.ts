@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'vitest';
+import { JsonMessageCodec, RawMessageCodec } from '../message-codec';
+
+describe('RawMessageCodec', () => {
+  test('it passes data through as-is', () => {
+    const codec = new RawMessageCodec();
+    const data = new Uint8Array([1, 2, 3]);
+
+    expect(codec.encode(data)).toBe(data);
+    expect(codec.decode('hello')).toBe('hello');
+  });
+});
+
+describe('JsonMessageCodec', () => {
+  test('it encodes messages as JSON', () => {
+    expect(new JsonMessageCodec().encode({ type: 'hello' })).toBe('{"type":"hello"}');
+  });
+
+  test('it decodes text and UTF-8 binary data', () => {
+    const codec = new JsonMessageCodec();
+
+    expect(codec.decode('{"type":"hello"}')).toEqual({ type: 'hello' });
+    expect(codec.decode(new TextEncoder().encode('{"name":"Zoë"}').buffer)).toEqual({ name: 'Zoë' });
+  });
+
+  test('it throws for data that is not JSON', () => {
+    expect(() => new JsonMessageCodec().decode('nope')).toThrowError(SyntaxError);
+  });
+});
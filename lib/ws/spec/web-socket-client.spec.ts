@@ -0,0 +1,533 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { RequestAbortedError } from '../../http/errors';
+import {
+  HeartbeatTimeoutError,
+  MessageBufferFullError,
+  MessageDecodeError,
+  WebSocketClosedError,
+  WebSocketRequestTimeoutError,
+} from '../errors';
+import { JsonMessageCodec } from '../message-codec';
+import { WebSocketClient, WebSocketClientOptions } from '../web-socket-client';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  binaryType = 'blob';
+  sent: unknown[] = [];
+  closedWith: [number?, string?] | undefined;
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string; wasClean: boolean }) => void) | null = null;
+
+  constructor(public readonly url: string, public readonly protocols?: string | string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.closedWith = [code, reason];
+  }
+
+  // Server side.
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = 3;
+    this.onclose?.({ code, reason, wasClean: false });
+  }
+
+  fail() {
+    this.onerror?.();
+    this.drop();
+  }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const createClient = <Incoming = any, Outgoing = any>(options: WebSocketClientOptions<Incoming, Outgoing> = {}) =>
+  new WebSocketClient<Incoming, Outgoing>({
+    host: 'somecoolsite.com',
+    createSocket: (url, protocols) => new FakeWebSocket(url, protocols) as unknown as WebSocket,
+    ...options,
+  });
+
+describe('WebSocketClient', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('constructor', () => {
+    test('it takes the base URL from `baseUrl`, with explicit parts taking precedence', () => {
+      const client = createClient({ host: undefined, baseUrl: 'wss://somecoolsite.com/realtime', path: '/v2' });
+
+      expect(client.protocol).toBe('wss');
+      expect(client.host).toBe('somecoolsite.com');
+      expect(client.path).toBe('/v2');
+    });
+
+    test('it throws for a base URL with a non-WebSocket protocol', () => {
+      expect(() => createClient({ baseUrl: 'https://somecoolsite.com' })).toThrowError(
+        'Could not create WebSocketClient. Provided base URL "https://somecoolsite.com" does not use a supported protocol.'
+      );
+    });
+
+    test('it throws for a path that does not start with a "/"', () => {
+      expect(() => createClient({ path: 'realtime' })).toThrowError(
+        'Could not create WebSocketClient. Provided path "realtime" does not start with a "/".'
+      );
+    });
+  });
+
+  describe('connect', () => {
+    test('it connects to the URI resolved against the base URL, with the provided subprotocols', () => {
+      const client = createClient({ path: '/api', protocols: ['v1'] });
+
+      client.connect('/realtime?room=1');
+
+      expect(latestSocket().url).toBe('ws://somecoolsite.com/api/realtime?room=1');
+      expect(latestSocket().protocols).toEqual(['v1']);
+      expect(latestSocket().binaryType).toBe('arraybuffer');
+      expect(client.state).toBe('connecting');
+    });
+
+    test('it triggers onOpen and onMessage', () => {
+      const client = createClient();
+      const handleOpen = vi.fn();
+      const handleMessage = vi.fn();
+      client.onOpen.subscribe(handleOpen);
+      client.onMessage.subscribe(handleMessage);
+
+      client.connect();
+      latestSocket().open();
+      latestSocket().receive('hello');
+
+      expect(client.state).toBe('open');
+      expect(handleOpen).toHaveBeenCalledOnce();
+      expect(handleMessage).toHaveBeenCalledWith('hello');
+    });
+
+    test('it does nothing when already connected', () => {
+      const client = createClient();
+
+      client.connect();
+      client.connect();
+
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  describe('codecs', () => {
+    test('it encodes sent messages and decodes received ones', () => {
+      const client = createClient({ codec: new JsonMessageCodec() });
+      const handleMessage = vi.fn();
+      client.onMessage.subscribe(handleMessage);
+
+      client.connect();
+      latestSocket().open();
+      client.send({ type: 'hello' });
+      latestSocket().receive('{"type":"welcome"}');
+
+      expect(latestSocket().sent).toEqual(['{"type":"hello"}']);
+      expect(handleMessage).toHaveBeenCalledWith({ type: 'welcome' });
+    });
+
+    test('it passes messages that cannot be decoded to onError', () => {
+      const client = createClient({ codec: new JsonMessageCodec() });
+      const handleMessage = vi.fn();
+      const handleError = vi.fn();
+      client.onMessage.subscribe(handleMessage);
+      client.onError.subscribe(handleError);
+
+      client.connect();
+      latestSocket().open();
+      latestSocket().receive('not json');
+
+      expect(handleMessage).not.toHaveBeenCalled();
+      expect(handleError).toHaveBeenCalledWith(expect.any(MessageDecodeError));
+      expect(handleError.mock.calls[0][0].data).toBe('not json');
+    });
+  });
+
+  describe('buffering', () => {
+    test('it buffers messages until connected, then sends them in order', () => {
+      const client = createClient();
+
+      client.connect();
+      client.send('first');
+      client.send('second');
+
+      expect(client.bufferedMessageCount).toBe(2);
+
+      latestSocket().open();
+
+      expect(latestSocket().sent).toEqual(['first', 'second']);
+      expect(client.bufferedMessageCount).toBe(0);
+    });
+
+    test('it throws when the buffer is full', () => {
+      const client = createClient({ maxBufferedMessages: 1 });
+
+      client.connect();
+      client.send('first');
+
+      expect(() => client.send('second')).toThrowError(MessageBufferFullError);
+    });
+
+    test('it throws when sending while closed', () => {
+      const client = createClient();
+
+      expect(() => client.send('hello')).toThrowError(WebSocketClosedError);
+    });
+  });
+
+  describe('reconnection', () => {
+    test('it reconnects with exponential backoff, resending buffered messages', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ reconnect: { baseDelayMs: 100, jitter: false } });
+      const handleReconnect = vi.fn();
+      const handleClose = vi.fn();
+      client.onReconnect.subscribe(handleReconnect);
+      client.onClose.subscribe(handleClose);
+
+      client.connect();
+      latestSocket().open();
+      latestSocket().drop(1006, 'Gone');
+
+      expect(client.state).toBe('reconnecting');
+      expect(handleClose).toHaveBeenCalledWith({ code: 1006, reason: 'Gone', wasClean: false });
+      expect(handleReconnect).toHaveBeenLastCalledWith({ attempt: 1, delayMs: 100 });
+
+      client.send('while away');
+
+      vi.advanceTimersByTime(100);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+
+      latestSocket().fail();
+      expect(handleReconnect).toHaveBeenLastCalledWith({ attempt: 2, delayMs: 200 });
+
+      vi.advanceTimersByTime(199);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      vi.advanceTimersByTime(1);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+
+      latestSocket().open();
+
+      expect(client.state).toBe('open');
+      expect(latestSocket().sent).toEqual(['while away']);
+    });
+
+    test('it starts the backoff over after reconnecting', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ reconnect: { baseDelayMs: 100, jitter: false } });
+      const handleReconnect = vi.fn();
+      client.onReconnect.subscribe(handleReconnect);
+
+      client.connect();
+      latestSocket().drop();
+      vi.advanceTimersByTime(100);
+      latestSocket().open();
+      latestSocket().drop();
+
+      expect(handleReconnect).toHaveBeenLastCalledWith({ attempt: 1, delayMs: 100 });
+    });
+
+    test('it caps the delay and randomizes it with jitter', () => {
+      vi.useFakeTimers();
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      try {
+        const client = createClient({ reconnect: { baseDelayMs: 1000, maxDelayMs: 1500 } });
+        const handleReconnect = vi.fn();
+        client.onReconnect.subscribe(handleReconnect);
+
+        client.connect();
+        latestSocket().drop();
+        vi.advanceTimersByTime(500);
+        latestSocket().drop();
+
+        expect(handleReconnect.mock.calls.map(([info]) => info.delayMs)).toEqual([500, 750]);
+      } finally {
+        random.mockRestore();
+      }
+    });
+
+    test('it closes once it runs out of attempts', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ reconnect: { maxAttempts: 1, baseDelayMs: 100, jitter: false } });
+
+      client.connect();
+      latestSocket().drop();
+      vi.advanceTimersByTime(100);
+      latestSocket().drop();
+
+      expect(client.state).toBe('closed');
+      expect(FakeWebSocket.instances).toHaveLength(2);
+    });
+
+    test('it does not reconnect when reconnection is disabled', () => {
+      const client = createClient({ reconnect: false });
+
+      client.connect();
+      latestSocket().drop();
+
+      expect(client.state).toBe('closed');
+    });
+  });
+
+  describe('heartbeat', () => {
+    test('it pings on an interval and does not pass pongs to onMessage', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ heartbeat: { intervalMs: 1000 } });
+      const handleMessage = vi.fn();
+      client.onMessage.subscribe(handleMessage);
+
+      client.connect();
+      latestSocket().open();
+
+      vi.advanceTimersByTime(1000);
+      expect(latestSocket().sent).toEqual(['ping']);
+
+      latestSocket().receive('pong');
+      vi.advanceTimersByTime(1000);
+
+      expect(latestSocket().sent).toEqual(['ping', 'ping']);
+      expect(handleMessage).not.toHaveBeenCalled();
+      expect(client.state).toBe('open');
+    });
+
+    test('it drops the connection and reconnects when a ping is not answered in time', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({
+        heartbeat: { intervalMs: 1000, timeoutMs: 500 },
+        reconnect: { baseDelayMs: 100, jitter: false },
+      });
+      const handleError = vi.fn();
+      const handleClose = vi.fn();
+      client.onError.subscribe(handleError);
+      client.onClose.subscribe(handleClose);
+
+      client.connect();
+      const socket = latestSocket();
+      socket.open();
+
+      vi.advanceTimersByTime(1500);
+
+      expect(handleError).toHaveBeenCalledWith(expect.any(HeartbeatTimeoutError));
+      expect(handleClose).toHaveBeenCalledWith({ code: 4000, reason: 'Heartbeat timeout', wasClean: false });
+      expect(socket.closedWith).toEqual([4000, 'Heartbeat timeout']);
+      expect(client.state).toBe('reconnecting');
+
+      vi.advanceTimersByTime(100);
+
+      expect(FakeWebSocket.instances).toHaveLength(2);
+    });
+
+    test('it detects a dead connection when the timeout is longer than the interval', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ heartbeat: { intervalMs: 1000, timeoutMs: 2500 } });
+      const handleError = vi.fn();
+      client.onError.subscribe(handleError);
+
+      client.connect();
+      const socket = latestSocket();
+      socket.open();
+
+      vi.advanceTimersByTime(3400);
+
+      expect(socket.sent).toEqual(['ping', 'ping', 'ping']);
+      expect(client.state).toBe('open');
+
+      vi.advanceTimersByTime(100);
+
+      expect(handleError).toHaveBeenCalledWith(expect.any(HeartbeatTimeoutError));
+      expect(socket.closedWith).toEqual([4000, 'Heartbeat timeout']);
+    });
+
+    test('it treats any message as a sign of life', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ heartbeat: { intervalMs: 1000, timeoutMs: 500 } });
+
+      client.connect();
+      latestSocket().open();
+
+      vi.advanceTimersByTime(1000);
+      latestSocket().receive('news');
+      vi.advanceTimersByTime(500);
+
+      expect(client.state).toBe('open');
+    });
+  });
+
+  describe('request', () => {
+    test('it resolves with the reply that carries the same ID', async () => {
+      const client = createClient({ codec: new JsonMessageCodec() });
+      const handleMessage = vi.fn();
+      client.onMessage.subscribe(handleMessage);
+
+      client.connect();
+      latestSocket().open();
+
+      const reply = client.request({ type: 'get-user' });
+      const sent = JSON.parse(latestSocket().sent[0] as string);
+
+      latestSocket().receive(JSON.stringify({ id: 'other', type: 'news' }));
+      latestSocket().receive(JSON.stringify({ id: sent.id, name: 'Bob' }));
+
+      await expect(reply).resolves.toEqual({ id: sent.id, name: 'Bob' });
+      expect(sent).toEqual({ id: expect.any(String), type: 'get-user' });
+      expect(handleMessage).toHaveBeenCalledOnce();
+      expect(handleMessage).toHaveBeenCalledWith({ id: 'other', type: 'news' });
+    });
+
+    test('it correlates with the provided getId and setId', async () => {
+      const client = createClient({
+        codec: new JsonMessageCodec(),
+        correlation: {
+          getId: (message) => message.replyTo,
+          setId: (message, id) => ({ ...message, requestId: id }),
+        },
+      });
+
+      client.connect();
+      latestSocket().open();
+
+      const reply = client.request({ type: 'ping' });
+      const { requestId } = JSON.parse(latestSocket().sent[0] as string);
+
+      latestSocket().receive(JSON.stringify({ replyTo: requestId }));
+
+      await expect(reply).resolves.toEqual({ replyTo: requestId });
+    });
+
+    test('it rejects when no reply arrives in time', async () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ codec: new JsonMessageCodec(), requestTimeoutMs: 1000 });
+
+      client.connect();
+      latestSocket().open();
+
+      const reply = client.request({ type: 'slow' });
+      vi.advanceTimersByTime(1000);
+
+      await expect(reply).rejects.toThrowError(WebSocketRequestTimeoutError);
+    });
+
+    test('it rejects when aborted', async () => {
+      const client = createClient({ codec: new JsonMessageCodec() });
+      const controller = new AbortController();
+
+      client.connect();
+      latestSocket().open();
+
+      const reply = client.request({ type: 'slow' }, { signal: controller.signal });
+      controller.abort('Not needed');
+
+      await expect(reply).rejects.toThrowError(RequestAbortedError);
+    });
+
+    test('it rejects pending requests when closed', async () => {
+      const client = createClient({ codec: new JsonMessageCodec() });
+
+      client.connect();
+
+      const reply = client.request({ type: 'buffered' });
+      client.close();
+
+      await expect(reply).rejects.toThrowError(WebSocketClosedError);
+      expect(client.bufferedMessageCount).toBe(0);
+    });
+  });
+
+  describe('close', () => {
+    test('it closes the socket and stops reconnecting', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ reconnect: { baseDelayMs: 100, jitter: false } });
+      const handleClose = vi.fn();
+      client.onClose.subscribe(handleClose);
+
+      client.connect();
+      const socket = latestSocket();
+      socket.open();
+
+      client.close(1001, 'Leaving');
+      expect(socket.closedWith).toEqual([1001, 'Leaving']);
+
+      socket.onclose?.({ code: 1001, reason: 'Leaving', wasClean: true });
+      vi.advanceTimersByTime(1000);
+
+      expect(client.state).toBe('closed');
+      expect(handleClose).toHaveBeenCalledWith({ code: 1001, reason: 'Leaving', wasClean: true });
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+
+    test('it ignores the previous socket when connecting again right away', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ reconnect: { baseDelayMs: 100, jitter: false } });
+      const handleClose = vi.fn();
+      client.onClose.subscribe(handleClose);
+
+      client.connect();
+      const previousSocket = latestSocket();
+      previousSocket.open();
+
+      client.close();
+      client.connect();
+      const socket = latestSocket();
+
+      previousSocket.drop(1000);
+      vi.advanceTimersByTime(1000);
+
+      expect(handleClose).not.toHaveBeenCalled();
+      expect(client.state).toBe('connecting');
+      expect(FakeWebSocket.instances).toHaveLength(2);
+
+      socket.open();
+      client.send({ hi: true });
+
+      expect(client.state).toBe('open');
+      expect(socket.sent).toEqual([{ hi: true }]);
+    });
+
+    test('it cancels a pending reconnection', () => {
+      vi.useFakeTimers();
+
+      const client = createClient({ reconnect: { baseDelayMs: 100, jitter: false } });
+
+      client.connect();
+      latestSocket().drop();
+      client.close();
+      vi.advanceTimersByTime(1000);
+
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+});
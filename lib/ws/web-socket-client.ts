@@ -0,0 +1,664 @@
+import { Event } from '@jtjs/event';
+import { RequestAbortedError } from '../http/errors';
+import { NetworkErrorHandler } from '../http/http-client.interface';
+import { parseUrlBase, resolveUrl, UrlBase } from '../http/url';
+import {
+  HeartbeatTimeoutError,
+  MessageBufferFullError,
+  MessageDecodeError,
+  WebSocketClosedError,
+  WebSocketConnectionError,
+  WebSocketRequestTimeoutError,
+} from './errors';
+import { MessageCodec, RawMessageCodec, WebSocketData } from './message-codec';
+
+export enum WebSocketProtocol {
+  Ws = 'ws',
+  Wss = 'wss',
+}
+
+/**
+ * - `'connecting'`: The first connection is being opened.
+ * - `'open'`: Messages are sent right away.
+ * - `'reconnecting'`: The connection was lost and the client is waiting to reconnect, or reconnecting.
+ * - `'closed'`: The client isn't connected and won't connect until `connect` is called.
+ */
+export type WebSocketClientState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ReconnectPolicy {
+  /**
+   * The most attempts to reconnect after the connection was lost. Successfully reconnecting starts the count over.
+   *
+   * Defaults to `Infinity`.
+   */
+  maxAttempts: number;
+  /**
+   * The delay before the first attempt. Each subsequent attempt doubles the previous delay (exponential backoff), up to
+   * `maxDelayMs`.
+   *
+   * Defaults to `500`.
+   */
+  baseDelayMs: number;
+  /**
+   * Defaults to `30_000`.
+   */
+  maxDelayMs: number;
+  /**
+   * Whether to randomize the delay between `0` and the computed backoff delay, so many clients that lost their
+   * connection at the same time don't all reconnect at the same time.
+   *
+   * Defaults to `true`.
+   */
+  jitter: boolean;
+}
+
+export const DEFAULT_RECONNECT_POLICY: Readonly<ReconnectPolicy> = {
+  maxAttempts: Infinity,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: true,
+};
+
+export interface HeartbeatOptions {
+  /**
+   * How often to ping the server while connected.
+   */
+  intervalMs: number;
+  /**
+   * How long to wait for any message after a ping before the connection is considered dead.
+   *
+   * Defaults to `intervalMs`.
+   */
+  timeoutMs?: number;
+  /**
+   * The data sent as a ping. It's sent as-is, without the codec.
+   *
+   * Defaults to `'ping'`.
+   */
+  ping?: WebSocketData | (() => WebSocketData);
+  /**
+   * Whether the provided received data is a pong. Pongs aren't decoded or passed to `onMessage`.
+   *
+   * Defaults to checking for `'pong'`.
+   */
+  isPong?: (data: WebSocketData) => boolean;
+}
+
+/**
+ * How replies are matched to the requests they answer.
+ */
+export interface CorrelationOptions<Incoming, Outgoing> {
+  /**
+   * Gets the ID of the request a received message replies to, if it's a reply.
+   *
+   * Defaults to the message's `id` property.
+   */
+  getId: (message: Incoming) => string | number | undefined;
+  /**
+   * Creates a copy of the provided `message` that carries the provided request `id`.
+   *
+   * Defaults to setting the message's `id` property.
+   */
+  setId: (message: Outgoing, id: string) => Outgoing;
+}
+
+export interface WebSocketRequestOptions {
+  /**
+   * How long to wait for a reply. Overrides the client's `requestTimeoutMs`.
+   */
+  timeoutMs?: number;
+  /**
+   * Stops waiting for a reply when aborted. The request then fails with a `RequestAbortedError`.
+   */
+  signal?: AbortSignal;
+}
+
+export interface WebSocketCloseInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+export interface WebSocketReconnectInfo {
+  /**
+   * The attempt that's about to be made. The first attempt is `1`.
+   */
+  attempt: number;
+  /**
+   * How long the client will wait before making the attempt.
+   */
+  delayMs: number;
+}
+
+export type WebSocketFactory = (url: string, protocols?: string | string[]) => WebSocket;
+
+export interface WebSocketClientOptions<Incoming, Outgoing> {
+  /**
+   * A URL that sets the `protocol`, `host`, and `path` all at once. If any of those are also provided, they take
+   * precedence over the corresponding part of this URL.
+   *
+   * Defaults to no base URL.
+   *
+   * @example
+   * ```ts
+   * baseUrl: 'wss://api.somecoolsite.com/realtime'
+   * ```
+   */
+  baseUrl?: string;
+  /**
+   * Defaults to WS.
+   */
+  protocol?: WebSocketProtocol;
+  /**
+   * The host the client connects to. May include a port.
+   *
+   * Defaults to an empty string (i.e., no default host).
+   */
+  host?: string;
+  /**
+   * The path prepended to the URI the client connects to. Should begin with a `/`.
+   *
+   * Defaults to an empty string (i.e., no base path).
+   */
+  path?: string;
+  /**
+   * The subprotocols to request from the server.
+   */
+  protocols?: string | string[];
+  /**
+   * How messages are encoded and decoded.
+   *
+   * Defaults to a {@link RawMessageCodec}, which sends and receives data as-is. Use a {@link JsonMessageCodec} to send
+   * and receive JSON.
+   */
+  codec?: MessageCodec<Incoming, Outgoing>;
+  /**
+   * Whether (and how) to reconnect when the connection is lost. Pass `true` to use {@link DEFAULT_RECONNECT_POLICY},
+   * or any part of a policy to override the defaults.
+   *
+   * Defaults to `true`.
+   */
+  reconnect?: boolean | Partial<ReconnectPolicy>;
+  /**
+   * The most messages that are kept while disconnected. They're sent in order once the client connects. Pass `0` to
+   * not keep any, in which case sending while disconnected fails.
+   *
+   * Defaults to `100`.
+   */
+  maxBufferedMessages?: number;
+  /**
+   * Pings the server periodically, and drops the connection if it stops answering.
+   *
+   * Defaults to no heartbeat.
+   */
+  heartbeat?: HeartbeatOptions;
+  /**
+   * How replies are matched to the requests sent via `request`.
+   */
+  correlation?: Partial<CorrelationOptions<Incoming, Outgoing>>;
+  /**
+   * How long `request` waits for a reply, in milliseconds. Pass `0` to wait indefinitely.
+   *
+   * Defaults to `30000`.
+   */
+  requestTimeoutMs?: number;
+  /**
+   * Creates the underlying WebSocket. Useful in environments without a global `WebSocket` (e.g., Node.js with the
+   * `ws` package).
+   *
+   * Defaults to using the global `WebSocket`.
+   */
+  createSocket?: WebSocketFactory;
+}
+
+interface PendingRequest {
+  resolve: (reply: any) => void;
+  reject: (error: Error) => void;
+}
+
+const OPEN_READY_STATE = 1;
+/**
+ * The code the client closes a connection with when it stopped answering pings. Codes from `4000` are free for
+ * applications to use.
+ */
+const HEARTBEAT_TIMEOUT_CLOSE_CODE = 4000;
+
+/**
+ * A WebSocket client that reconnects when its connection is lost, buffers messages while disconnected, and can match
+ * replies to the messages that asked for them.
+ *
+ * @example
+ * ```ts
+ * const socket = new WebSocketClient<ServerMessage, ClientMessage>({
+ *   baseUrl: 'wss://api.somecoolsite.com',
+ *   codec: new JsonMessageCodec(),
+ *   heartbeat: { intervalMs: 15_000 },
+ * });
+ *
+ * socket.onMessage.subscribe((message) => console.log(message));
+ * socket.connect('/realtime');
+ *
+ * const reply = await socket.request({ type: 'subscribe', channel: 'news' });
+ * ```
+ */
+export class WebSocketClient<Incoming = any, Outgoing = any> {
+  onOpen = new Event<() => void>();
+  onMessage = new Event<(message: Incoming) => void>();
+  /**
+   * Triggered whenever a connection closes, including when the client is about to reconnect.
+   */
+  onClose = new Event<(info: WebSocketCloseInfo) => void>();
+  onError = new Event<NetworkErrorHandler>();
+  /**
+   * Triggered when the connection was lost and the client is about to wait before reconnecting.
+   */
+  onReconnect = new Event<(info: WebSocketReconnectInfo) => void>();
+
+  #socket: WebSocket | undefined;
+  #url = '';
+  #buffer: WebSocketData[] = [];
+  #pendingRequests = new Map<string, PendingRequest>();
+  #nextRequestId = 1;
+  #reconnectAttempt = 0;
+  #reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  #heartbeatInterval: ReturnType<typeof setInterval> | undefined;
+  #heartbeatTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  protected _protocol = WebSocketProtocol.Ws;
+  get protocol(): WebSocketProtocol {
+    return this._protocol;
+  }
+
+  protected _host = '';
+  get host(): string {
+    return this._host;
+  }
+
+  protected _path = '';
+  get path(): string {
+    return this._path;
+  }
+
+  protected _state: WebSocketClientState = 'closed';
+  get state(): WebSocketClientState {
+    return this._state;
+  }
+
+  /**
+   * The URL the client connects to, once `connect` was called.
+   */
+  get url(): string {
+    return this.#url;
+  }
+
+  /**
+   * The number of messages waiting to be sent once the client connects.
+   */
+  get bufferedMessageCount(): number {
+    return this.#buffer.length;
+  }
+
+  protected _codec: MessageCodec<Incoming, Outgoing>;
+  protected _reconnectPolicy: ReconnectPolicy | undefined;
+  protected _options: WebSocketClientOptions<Incoming, Outgoing>;
+
+  constructor(options: WebSocketClientOptions<Incoming, Outgoing> = {}) {
+    const { baseUrl, codec, reconnect = true, createSocket } = options;
+
+    if (!createSocket && typeof WebSocket === 'undefined') {
+      throw new Error('Could not create WebSocketClient. There is no global WebSocket, so createSocket must be provided.');
+    }
+
+    const urlBase = baseUrl ? this.#parseBaseUrl(baseUrl) : undefined;
+    const protocol = options.protocol ?? (urlBase?.protocol as WebSocketProtocol | undefined);
+    const host = options.host ?? urlBase?.host;
+    const path = options.path ?? urlBase?.path;
+
+    if (path && !path.startsWith('/')) {
+      throw new Error(`Could not create WebSocketClient. Provided path "${path}" does not start with a "/".`);
+    }
+
+    this._protocol = protocol ?? WebSocketProtocol.Ws;
+    this._host = host ?? '';
+    this._path = path ?? '';
+
+    try {
+      this._getTreatedUri('');
+    } catch {
+      throw new Error(`Could not create WebSocketClient. Provided host "${this._host}" is not valid.`);
+    }
+
+    this._options = options;
+    this._codec = codec ?? (new RawMessageCodec() as MessageCodec<any, any>);
+    this._reconnectPolicy = reconnect
+      ? { ...DEFAULT_RECONNECT_POLICY, ...(reconnect === true ? {} : reconnect) }
+      : undefined;
+  }
+
+  /**
+   * Resolves the provided `uri` against the client's protocol, host, and path.
+   *
+   * @throws {InvalidUrlError} When the URI can't be parsed.
+   */
+  protected _getTreatedUri(uri: string): string {
+    return resolveUrl(uri, {
+      protocol: this._protocol,
+      host: this._host,
+      path: this._path,
+    });
+  }
+
+  /**
+   * Connects to the provided `uri`, resolved against the client's base URL. Does nothing if the client is already
+   * connecting or connected.
+   *
+   * @throws {InvalidUrlError} When the URI can't be parsed.
+   */
+  connect(uri = ''): void {
+    if (this._state !== 'closed') {
+      return;
+    }
+
+    this.#url = this._getTreatedUri(uri);
+    this.#reconnectAttempt = 0;
+    this._state = 'connecting';
+
+    this.#open();
+  }
+
+  /**
+   * Sends the provided `message`. While disconnected, the message is buffered and sent once the client connects.
+   *
+   * @throws {WebSocketClosedError} When the client is closed.
+   * @throws {MessageBufferFullError} When the client is disconnected and its buffer is full.
+   */
+  send(message: Outgoing): void {
+    this.#sendData(this._codec.encode(message));
+  }
+
+  /**
+   * Sends the provided `message` with a request ID, and waits for the reply that carries the same ID.
+   *
+   * @returns A promise that resolves to the reply. It rejects with a {@link WebSocketRequestTimeoutError} if no reply
+   * arrives in time, or with a {@link WebSocketClosedError} if the client is closed first.
+   */
+  request<Reply = Incoming>(message: Outgoing, options: WebSocketRequestOptions = {}): Promise<Reply> {
+    const { timeoutMs = this._options.requestTimeoutMs ?? 30_000, signal } = options;
+    const { setId = (message: Outgoing, id: string) => ({ ...message, id }) } = this._options.correlation ?? {};
+
+    const id = String(this.#nextRequestId++);
+
+    return new Promise<Reply>((resolve, reject) => {
+      const handleAbort = () => {
+        settle();
+        reject(new RequestAbortedError(signal?.reason));
+      };
+
+      const timeout =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              settle();
+              reject(new WebSocketRequestTimeoutError(timeoutMs));
+            }, timeoutMs)
+          : undefined;
+
+      const settle = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', handleAbort);
+        this.#pendingRequests.delete(id);
+      };
+
+      if (signal?.aborted) {
+        handleAbort();
+
+        return;
+      }
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+
+      this.#pendingRequests.set(id, {
+        resolve: (reply) => {
+          settle();
+          resolve(reply);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      try {
+        this.send(setId(message, id));
+      } catch (error) {
+        this.#pendingRequests.get(id)?.reject(error as Error);
+      }
+    });
+  }
+
+  /**
+   * Closes the connection and stops reconnecting. Buffered messages are dropped, and requests waiting on a reply fail
+   * with a {@link WebSocketClosedError}.
+   */
+  close(code = 1000, reason = ''): void {
+    if (this._state === 'closed') {
+      return;
+    }
+
+    this._state = 'closed';
+
+    clearTimeout(this.#reconnectTimeout);
+    this.#stopHeartbeat();
+    this.#failEverythingPending();
+
+    // The socket's close event still triggers `onClose`.
+    this.#socket?.close(code, reason);
+  }
+
+  #open(): void {
+    const { protocols, createSocket = (url, protocols) => new WebSocket(url, protocols) } = this._options;
+
+    let socket: WebSocket;
+    try {
+      socket = createSocket(this.#url, protocols);
+    } catch (error) {
+      this.onError.trigger(error as Error);
+      this.#handleDisconnect();
+
+      return;
+    }
+
+    this.#socket = socket;
+    socket.binaryType = 'arraybuffer';
+
+    // A socket that was replaced (e.g., by closing and connecting again) may still finish opening or closing, which
+    // mustn't affect the current one.
+    socket.onopen = () => {
+      // The client may have been closed while the socket was still connecting.
+      if (this.#socket !== socket || this._state === 'closed') {
+        return;
+      }
+
+      this._state = 'open';
+      this.#reconnectAttempt = 0;
+
+      this.onOpen.trigger();
+
+      this.#startHeartbeat(socket);
+      this.#flushBuffer(socket);
+    };
+
+    socket.onmessage = (event) => {
+      if (this.#socket !== socket || this._state === 'closed') {
+        return;
+      }
+
+      this.#handleData(event.data);
+    };
+
+    socket.onerror = () => {
+      if (this.#socket !== socket) {
+        return;
+      }
+
+      this.onError.trigger(new WebSocketConnectionError(this.#url));
+    };
+
+    socket.onclose = (event) => {
+      if (this.#socket !== socket) {
+        return;
+      }
+
+      this.#socket = undefined;
+      this.#stopHeartbeat();
+
+      this.onClose.trigger({ code: event.code, reason: event.reason, wasClean: event.wasClean });
+
+      this.#handleDisconnect();
+    };
+  }
+
+  #handleDisconnect(): void {
+    if (this._state === 'closed') {
+      return;
+    }
+
+    const policy = this._reconnectPolicy;
+
+    if (!policy || this.#reconnectAttempt >= policy.maxAttempts) {
+      this._state = 'closed';
+      this.#failEverythingPending();
+
+      return;
+    }
+
+    this.#reconnectAttempt += 1;
+    this._state = 'reconnecting';
+
+    const backoffMs = Math.min(policy.baseDelayMs * 2 ** (this.#reconnectAttempt - 1), policy.maxDelayMs);
+    const delayMs = policy.jitter ? Math.round(Math.random() * backoffMs) : backoffMs;
+
+    this.onReconnect.trigger({ attempt: this.#reconnectAttempt, delayMs });
+
+    this.#reconnectTimeout = setTimeout(() => this.#open(), delayMs);
+  }
+
+  #handleData(data: WebSocketData): void {
+    // Any message shows the connection is alive.
+    clearTimeout(this.#heartbeatTimeout);
+    this.#heartbeatTimeout = undefined;
+
+    const { isPong = (data: WebSocketData) => data === 'pong' } = this._options.heartbeat ?? {};
+
+    if (this._options.heartbeat && isPong(data)) {
+      return;
+    }
+
+    let message: Incoming;
+    try {
+      message = this._codec.decode(data);
+    } catch (error) {
+      this.onError.trigger(new MessageDecodeError(data, error));
+
+      return;
+    }
+
+    if (this.#pendingRequests.size > 0) {
+      const { getId = (message: any) => message?.id } = this._options.correlation ?? {};
+      const id = getId(message);
+      const pendingRequest = id !== undefined ? this.#pendingRequests.get(String(id)) : undefined;
+
+      if (pendingRequest) {
+        pendingRequest.resolve(message);
+
+        return;
+      }
+    }
+
+    this.onMessage.trigger(message);
+  }
+
+  #sendData(data: WebSocketData): void {
+    if (this._state === 'closed') {
+      throw new WebSocketClosedError();
+    }
+
+    if (this._state === 'open' && this.#socket?.readyState === OPEN_READY_STATE) {
+      this.#socket.send(data);
+
+      return;
+    }
+
+    const maxBufferedMessages = this._options.maxBufferedMessages ?? 100;
+
+    if (this.#buffer.length >= maxBufferedMessages) {
+      throw new MessageBufferFullError(maxBufferedMessages);
+    }
+
+    this.#buffer.push(data);
+  }
+
+  #flushBuffer(socket: WebSocket): void {
+    const buffer = this.#buffer;
+    this.#buffer = [];
+
+    buffer.forEach((data) => socket.send(data));
+  }
+
+  #startHeartbeat(socket: WebSocket): void {
+    const heartbeat = this._options.heartbeat;
+
+    if (!heartbeat) {
+      return;
+    }
+
+    const { intervalMs, timeoutMs = intervalMs, ping = 'ping' } = heartbeat;
+
+    this.#heartbeatInterval = setInterval(() => {
+      socket.send(typeof ping === 'function' ? ping() : ping);
+
+      // The deadline runs from the first unanswered ping, so pings sent in the meantime can't postpone it.
+      if (this.#heartbeatTimeout !== undefined) {
+        return;
+      }
+
+      this.#heartbeatTimeout = setTimeout(() => {
+        this.onError.trigger(new HeartbeatTimeoutError(timeoutMs));
+
+        // A dead connection may take a long time to finish closing, so don't wait for it before reconnecting.
+        socket.onclose = null;
+        socket.onmessage = null;
+        socket.close(HEARTBEAT_TIMEOUT_CLOSE_CODE, 'Heartbeat timeout');
+        this.#socket = undefined;
+        this.#stopHeartbeat();
+
+        this.onClose.trigger({ code: HEARTBEAT_TIMEOUT_CLOSE_CODE, reason: 'Heartbeat timeout', wasClean: false });
+
+        this.#handleDisconnect();
+      }, timeoutMs);
+    }, intervalMs);
+  }
+
+  #stopHeartbeat(): void {
+    clearInterval(this.#heartbeatInterval);
+    clearTimeout(this.#heartbeatTimeout);
+    this.#heartbeatTimeout = undefined;
+  }
+
+  #failEverythingPending(): void {
+    this.#buffer = [];
+
+    [...this.#pendingRequests.values()].forEach(({ reject }) => reject(new WebSocketClosedError()));
+  }
+
+  #parseBaseUrl(baseUrl: string): UrlBase {
+    const urlBase = parseUrlBase(baseUrl);
+
+    if (!Object.values<string>(WebSocketProtocol).includes(urlBase.protocol)) {
+      throw new Error(
+        `Could not create WebSocketClient. Provided base URL "${baseUrl}" does not use a supported protocol.`
+      );
+    }
+
+    return urlBase;
+  }
+}
@@ -1,17 +1,27 @@
 /// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import { resolve } from 'path';
+import { version } from './package.json';
 
 export default defineConfig({
+  define: {
+    __PACKAGE_VERSION__: JSON.stringify(version),
+  },
   build: {
     lib: {
-      entry: resolve(__dirname, './lib/index.ts'),
-      fileName: 'jtjs_networking',
+      entry: {
+        jtjs_networking: resolve(__dirname, './lib/index.ts'),
+        jtjs_networking_node: resolve(__dirname, './lib/node.ts'),
+        'jtjs-openapi': resolve(__dirname, './lib/openapi/bin.ts'),
+      },
       formats: ['es'],
       
     },
     rollupOptions: {
-      external: ['@jtjs/event', 'cross-fetch'],
+      external: ['@jtjs/event', 'cross-fetch', /^node:/],
+      output: {
+        banner: (chunk) => (chunk.name === 'jtjs-openapi' ? '#!/usr/bin/env node' : ''),
+      },
     }
   },
   test: {